@@ -18,6 +18,12 @@ import { LanguageClientOptions } from 'vscode-languageclient';
 
 import { LanguageClient } from 'vscode-languageclient/browser';
 import { initVFS } from './virtualFileSystem';
+import { registerExternalModelProvider } from './externalModelProvider';
+import { registerTypeHierarchyProvider } from './typeHierarchyProvider';
+import { registerCompileOnSaveStatus } from './compileOnSaveStatus';
+import { registerGeneratedCodeProvider } from './generatedCodeProvider';
+import { createOrShowModelGraphPanel } from './modelGraph/modelGraphPanel';
+import { createOrShowModelDiagramPanel } from './modelDiagram/modelDiagramPanel';
 
 import { log } from './log';
 
@@ -25,10 +31,26 @@ import {
 	compileToTarget,
 } from './commands/compileToTarget';
 
+import {
+	previewCompile,
+} from './commands/previewCompile';
+
 import {
 	loadModels,
 } from './commands/loadModels';
 
+import {
+	refreshExternalModels,
+} from './commands/refreshExternalModels';
+
+import {
+	generateSampleJson,
+} from './commands/generateSampleJson';
+
+import {
+	showLocations,
+} from './commands/showLocations';
+
 import { inlineSuggestionProvider } from './copilot/inlineSuggestionProvider';
 import { promptProvider } from './copilot/promptProvider';
 import { createSettingsWebview } from './copilot/settingsView/configSetting';
@@ -57,10 +79,18 @@ export async function activate(context: vscode.ExtensionContext) {
 	// Options to control the language client
 	const clientOptions: LanguageClientOptions = {
 		documentSelector,
-		// synchronize: {
-		// 	fileEvents: vscode.workspace.createFileSystemWatcher('**/logic/*.ts')
-		// },
-		initializationOptions: {}
+		synchronize: {
+			// notify the server when models (or the configuration of the lint
+			// rules) are created, changed or deleted outside of the editor (e.g. by git)
+			fileEvents: [
+				vscode.workspace.createFileSystemWatcher('**/*.cto'),
+				vscode.workspace.createFileSystemWatcher('**/.concertolint.json')
+			]
+		},
+		initializationOptions: {
+			// where the language server caches the downloaded external models
+			storageUri: context.globalStorageUri.toString()
+		}
 	};
 
 	const client = createWorkerLanguageClient(context, clientOptions);
@@ -77,13 +107,44 @@ export async function activate(context: vscode.ExtensionContext) {
 	// to query the workspace from its process
 	initVFS(client);
 
+	// show external models in read-only documents
+	registerExternalModelProvider(context, client);
+
+	// show the supertypes and subtypes of declarations
+	registerTypeHierarchyProvider(context, client);
+
+	// show the code generated by compilation previews in read-only documents
+	registerGeneratedCodeProvider(context);
+
+	// show the status of the compilation of the models on save
+	registerCompileOnSaveStatus(context, client);
+
 	// register commands
 	// menus etc for commands are defined in package.json
 	context.subscriptions.push(vscode.commands
 		.registerCommand('cicero-vscode-extension.compileToTarget', (file) => compileToTarget(client,file)));
+
+	context.subscriptions.push(vscode.commands
+		.registerCommand('cicero-vscode-extension.previewCompile', (file) => previewCompile(client,file)));
 	
 	context.subscriptions.push(vscode.commands
 			.registerCommand('cicero-vscode-extension.loadModels', (file) => loadModels(client,file)));	
+
+	context.subscriptions.push(vscode.commands
+		.registerCommand('cicero-vscode-extension.refreshExternalModels', () => refreshExternalModels(client)));
+
+	context.subscriptions.push(vscode.commands
+		.registerCommand('cicero-vscode-extension.showModelGraph', () => createOrShowModelGraphPanel(context, client)));
+
+	context.subscriptions.push(vscode.commands
+		.registerCommand('cicero-vscode-extension.previewModelDiagram', (file) => createOrShowModelDiagramPanel(context, client, typeof file === 'string' ? vscode.Uri.parse(file) : file)));
+
+	// the commands of the code lenses of the language server
+	context.subscriptions.push(vscode.commands
+		.registerCommand('cicero-vscode-extension.generateSampleJson', (uri, type) => generateSampleJson(client, uri, type)));
+
+	context.subscriptions.push(vscode.commands
+		.registerCommand('cicero-vscode-extension.showLocations', (uri, position, locations) => showLocations(uri, position, locations)));
 	
 	// Register the prompt provider command, startPromptProviderUI
 	context.subscriptions.push(vscode.commands
@@ -1,13 +1,124 @@
 import * as vscode from 'vscode';
 import { LanguageClient } from 'vscode-languageclient/browser';
 
+/**
+ * An option of a code generator, as returned by the concertoCompileOptions request
+ */
+type CompileOption = {
+	name: string;
+	description: string;
+	type: 'boolean' | 'string';
+	default: boolean | string;
+}
+
+type CompileOptionValues = Record<string, boolean | string>;
+
+type CompileScope = 'all' | 'dependencies' | 'namespace';
+
+/**
+ * A compilation preset, saved in the .concerto/codegen.json file of the workspace folder
+ */
+type CompilePreset = {
+	target: string;
+	options?: CompileOptionValues;
+	outputDirectory?: string;
+	scope?: CompileScope;
+}
+
+const SCOPES: (vscode.QuickPickItem & { scope: CompileScope })[] = [
+	{ label: 'All the models', description: 'all the namespaces of the project', scope: 'all' },
+	{ label: 'This namespace and its dependencies', description: 'the namespaces it imports, in a folder of the namespace', scope: 'dependencies' },
+	{ label: 'This namespace only', description: 'in a folder of the namespace', scope: 'namespace' }
+];
+
+type CompileItem = vscode.QuickPickItem & { target: string; preset?: CompilePreset };
+
+/**
+ * Asks the values of the options of a target, starting from their defaults
+ * @returns the values, or undefined if the user cancelled
+ */
+async function configureOptions(options: CompileOption[]): Promise<CompileOptionValues | undefined> {
+	const values: CompileOptionValues = {};
+	for (const option of options) {
+		if (option.type === 'boolean') {
+			const items = [true, false].map(value => ({
+				label: value ? 'Yes' : 'No',
+				description: value === option.default ? 'default' : undefined,
+				value
+			}));
+			const picked = await vscode.window.showQuickPick(items, { placeHolder: `${option.name}: ${option.description}` });
+			if (!picked) {
+				return undefined;
+			}
+			values[option.name] = picked.value;
+		}
+		else {
+			const value = await vscode.window.showInputBox({ prompt: `${option.name}: ${option.description}`, value: option.default as string });
+			if (value === undefined) {
+				return undefined;
+			}
+			values[option.name] = value;
+		}
+	}
+	return values;
+}
+
+/**
+ * Asks the options and output directory of a target, and offers to save them as a preset
+ * @returns the preset, or undefined if the user cancelled
+ */
+async function configurePreset(client:LanguageClient, file: vscode.Uri, target: string): Promise<CompilePreset | undefined> {
+	const options:CompileOption[] = await client.sendRequest('concertoCompileOptions', {target});
+	const scope = await vscode.window.showQuickPick(SCOPES, { placeHolder: 'Select the models to compile' });
+	const configure = scope && await vscode.window.showQuickPick(['Compile with the default options', 'Configure the options'], { placeHolder: `Compile to ${target}` });
+	if (!scope || !configure) {
+		return undefined;
+	}
+	if (configure === 'Compile with the default options') {
+		return { target, scope: scope.scope };
+	}
+	const values = await configureOptions(options);
+	const outputDirectory = values && await vscode.window.showInputBox({
+		prompt: 'The output directory, relative to the folder of the model',
+		value: vscode.workspace.getConfiguration('cicero-vscode-extension.compile', file).get<string>('outputDirectory')
+	});
+	if (!values || outputDirectory === undefined) {
+		return undefined;
+	}
+	const preset = { target, options: values, outputDirectory, scope: scope.scope };
+	const name = await vscode.window.showInputBox({ prompt: 'Save these options as a preset of the workspace (leave empty to skip)' });
+	if (name) {
+		await client.sendRequest('saveConcertoCompilePreset', {uri:file.toString(), name, preset});
+	}
+	return preset;
+}
+
+/**
+ * Asks the target, or the preset, of a compilation
+ * @param client the language client
+ * @param file the compiled model
+ * @returns the target with its options, or undefined if the user cancelled
+ */
+export async function pickCompilePreset(client:LanguageClient, file: vscode.Uri): Promise<CompilePreset | undefined> {
+	const targetNames:string[] = await client.sendRequest("concertoCompileTargets");
+	const presets:Record<string, CompilePreset> = await client.sendRequest("concertoCompilePresets", {uri:file.toString()});
+	const items:CompileItem[] = [
+		...Object.entries(presets).map(([name, preset]) => ({ label: name, description: `preset for ${preset.target}`, target: preset.target, preset })),
+		...targetNames.map(target => ({ label: target, target }))
+	];
+	const picked = await vscode.window.showQuickPick(items, { canPickMany: false, placeHolder: 'Select a target or a preset' });
+	return picked && (picked.preset ?? await configurePreset(client, file, picked.target));
+}
+
 export async function compileToTarget(client:LanguageClient, file: vscode.Uri) {
 	try {
-		const targetNames:string[] = await client.sendRequest("concertoCompileTargets");
-		const target = await vscode.window.showQuickPick(targetNames, { canPickMany: false });
-		const response = await client.sendRequest("concertoCompile", {uri:file.toString(), target});
+		const preset = await pickCompilePreset(client, file);
+		if (!preset) {
+			return;
+		}
+		const response = await client.sendRequest("concertoCompile", {uri:file.toString(), ...preset});
 		vscode.window.showInformationMessage(`${response}.`);
 	} catch (e) {
 		vscode.window.showErrorMessage(`Compilation error: ${e}`);
 	}
-}
\ No newline at end of file
+}
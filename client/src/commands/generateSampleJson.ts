@@ -0,0 +1,12 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/browser';
+
+export async function generateSampleJson(client:LanguageClient, uri:string, type:string) {
+	try {
+		const content:string = await client.sendRequest('sampleJson', {uri, type});
+		const document = await vscode.workspace.openTextDocument({language: 'json', content});
+		await vscode.window.showTextDocument(document, vscode.ViewColumn.Beside);
+	} catch (e) {
+		vscode.window.showErrorMessage(`Failed to generate a sample of ${type}: ${e}`);
+	}
+}
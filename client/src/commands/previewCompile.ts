@@ -0,0 +1,111 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/browser';
+
+import { pickCompilePreset } from './compileToTarget';
+import { setGeneratedFiles } from '../generatedCodeProvider';
+
+/**
+ * A file generated by the concertoCompilePreview request
+ */
+type GeneratedFile = {
+	name: string;
+	uri: string;
+	content: string;
+	status: 'added' | 'modified' | 'unchanged';
+}
+
+type CompilePreview = {
+	target: string;
+	output: string;
+	files: GeneratedFile[];
+}
+
+type GeneratedFileItem = vscode.QuickPickItem & { file: GeneratedFile; preview: vscode.Uri };
+
+const COMPARE_BUTTON: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('diff'),
+	tooltip: 'Compare with the file on disk'
+};
+
+const OPEN_BUTTON: vscode.QuickInputButton = {
+	iconPath: new vscode.ThemeIcon('go-to-file'),
+	tooltip: 'Open the generated file'
+};
+
+/**
+ * Opens a generated file, or compares it to the file on disk when it exists
+ */
+async function showGeneratedFile(item: GeneratedFileItem) {
+	if (item.file.status === 'added') {
+		await vscode.window.showTextDocument(item.preview, { preview: true, preserveFocus: true });
+	}
+	else {
+		await vscode.commands.executeCommand('vscode.diff', vscode.Uri.parse(item.file.uri), item.preview,
+			`${item.file.name} (on disk ↔ generated)`, { preview: true, preserveFocus: true });
+	}
+}
+
+/**
+ * Asks the generated files to write, the added and modified files being selected
+ * @returns the selected files, or undefined if the user cancelled
+ */
+function pickGeneratedFiles(preview: CompilePreview, items: GeneratedFileItem[]): Promise<GeneratedFileItem[] | undefined> {
+	return new Promise(resolve => {
+		const quickPick = vscode.window.createQuickPick<GeneratedFileItem>();
+		quickPick.title = `Preview of the ${preview.target} code`;
+		quickPick.placeholder = 'Select the files to write, or press Escape to cancel';
+		quickPick.canSelectMany = true;
+		quickPick.ignoreFocusOut = true;
+		quickPick.items = items;
+		quickPick.selectedItems = items.filter(item => item.file.status !== 'unchanged');
+		quickPick.onDidTriggerItemButton(event => showGeneratedFile(event.item));
+		quickPick.onDidAccept(() => {
+			resolve([...quickPick.selectedItems]);
+			quickPick.dispose();
+		});
+		quickPick.onDidHide(() => {
+			resolve(undefined);
+			quickPick.dispose();
+		});
+		quickPick.show();
+	});
+}
+
+/**
+ * Compiles a model to a target without writing the generated code, which is shown
+ * in read-only documents, and writes the files selected by the user
+ * @param client the language client
+ * @param file the compiled model
+ */
+export async function previewCompile(client:LanguageClient, file: vscode.Uri) {
+	try {
+		const preset = await pickCompilePreset(client, file);
+		if (!preset) {
+			return;
+		}
+		const preview:CompilePreview = await client.sendRequest('concertoCompilePreview', {uri:file.toString(), ...preset});
+		const uris = setGeneratedFiles(new Map(preview.files.map(f => [vscode.Uri.parse(f.uri).path, f.content])));
+		const items:GeneratedFileItem[] = preview.files.map(f => ({
+			label: f.name,
+			description: f.status,
+			file: f,
+			preview: uris.get(vscode.Uri.parse(f.uri).path)!,
+			buttons: [f.status === 'added' ? OPEN_BUTTON : COMPARE_BUTTON]
+		}));
+		const modified = items.find(item => item.file.status === 'modified');
+		if (modified) {
+			await showGeneratedFile(modified);
+		}
+
+		const selected = await pickGeneratedFiles(preview, items);
+		if (!selected) {
+			return;
+		}
+		for (const item of selected) {
+			await vscode.workspace.fs.writeFile(vscode.Uri.parse(item.file.uri), new TextEncoder().encode(item.file.content));
+		}
+		vscode.window.showInformationMessage(`Saved ${selected.length} of ${items.length} ${preview.target} files to ${preview.output}.`);
+	} catch (e) {
+		vscode.window.showErrorMessage(`Compilation error: ${e}`);
+	}
+}
@@ -0,0 +1,11 @@
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/browser';
+
+export async function refreshExternalModels(client:LanguageClient) {
+	try {
+		const count:number = await client.sendRequest('refreshExternalModels');
+		vscode.window.showInformationMessage(`Refreshed ${count} external models.`);
+	} catch (e) {
+		vscode.window.showErrorMessage(`Failed to refresh the external models: ${e}`);
+	}
+}
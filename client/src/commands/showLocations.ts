@@ -0,0 +1,18 @@
+import * as vscode from 'vscode';
+
+type Position = { line: number; character: number };
+type Location = { uri: string; range: { start: Position; end: Position } };
+
+function toPosition(position:Position) {
+	return new vscode.Position(position.line, position.character);
+}
+
+/**
+ * Shows the locations sent by the code lenses of the language server in a peek view
+ */
+export async function showLocations(uri:string, position:Position, locations:Location[]) {
+	await vscode.commands.executeCommand('editor.action.showReferences',
+		vscode.Uri.parse(uri),
+		toPosition(position),
+		locations.map(l => new vscode.Location(vscode.Uri.parse(l.uri), new vscode.Range(toPosition(l.range.start), toPosition(l.range.end)))));
+}
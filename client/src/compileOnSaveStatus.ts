@@ -0,0 +1,54 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/browser';
+
+/**
+ * The status of the compilation of the models when a model file is saved,
+ * sent by the language server
+ */
+type CompileOnSaveStatus = {
+	uri: string;
+	status: 'compiling' | 'succeeded' | 'failed' | 'skipped';
+	message: string;
+}
+
+const ICONS: Record<CompileOnSaveStatus['status'], string> = {
+	compiling: '$(sync~spin)',
+	succeeded: '$(check)',
+	failed: '$(error)',
+	skipped: '$(circle-slash)'
+};
+
+/**
+ * Shows the status of the last compilation on save in the status bar. The
+ * item is shown once the models are compiled on save, and opens the problems
+ * view, where the failures are reported.
+ * @param context the extension context
+ * @param client the language client
+ */
+export function registerCompileOnSaveStatus(context: vscode.ExtensionContext, client: LanguageClient) {
+	const item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left);
+	item.command = 'workbench.actions.view.problems';
+	context.subscriptions.push(item);
+
+	client.onNotification('compileOnSave/status', (status: CompileOnSaveStatus) => {
+		item.text = `${ICONS[status.status]} Concerto`;
+		item.tooltip = status.message;
+		item.backgroundColor = status.status === 'failed' ? new vscode.ThemeColor('statusBarItem.errorBackground') : undefined;
+		item.show();
+	});
+}
@@ -0,0 +1,48 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ * 
+ * http://www.apache.org/licenses/LICENSE-2.0
+ * 
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/browser';
+
+import { log } from './log';
+
+/**
+ * The scheme of the read-only documents for external models,
+ * this must match the scheme used by the language server
+ */
+export const EXTERNAL_MODEL_SCHEME = 'concerto-external';
+
+/**
+ * Registers a content provider that shows the source of external models
+ * (imported from a URL) in read-only documents, so that go to definition
+ * and find references can navigate into them.
+ * @param context the extension context
+ * @param client the language client
+ */
+export function registerExternalModelProvider(context: vscode.ExtensionContext, client: LanguageClient) {
+	const provider: vscode.TextDocumentContentProvider = {
+		async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+			try {
+				const source = await client.sendRequest<string | undefined>('externalModelSource', { uri: uri.toString() });
+				return source ?? `// The external model ${uri.path.substring(1)} has not been downloaded`;
+			}
+			catch (e) {
+				log(`Failed to load external model ${uri.toString()}: ${e}`);
+				return `// Failed to load the external model: ${e}`;
+			}
+		}
+	};
+	context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(EXTERNAL_MODEL_SCHEME, provider));
+}
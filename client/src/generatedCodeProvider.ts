@@ -0,0 +1,60 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as vscode from 'vscode';
+
+/**
+ * The scheme of the read-only documents that show the code generated by a preview of the compilation
+ */
+export const GENERATED_CODE_SCHEME = 'concerto-generated';
+
+/**
+ * The contents of the generated files of the last preview, keyed by uri
+ */
+const contents = new Map<string, string>();
+const onDidChange = new vscode.EventEmitter<vscode.Uri>();
+
+/**
+ * Replaces the generated files shown in read-only documents
+ * @param files the contents of the files, keyed by the path of the documents
+ * @returns the uris of the documents, keyed by path
+ */
+export function setGeneratedFiles(files: Map<string, string>): Map<string, vscode.Uri> {
+	contents.clear();
+	const uris = new Map<string, vscode.Uri>();
+	files.forEach((content, path) => {
+		const uri = vscode.Uri.from({ scheme: GENERATED_CODE_SCHEME, path });
+		contents.set(uri.toString(), content);
+		uris.set(path, uri);
+		onDidChange.fire(uri);
+	});
+	return uris;
+}
+
+/**
+ * Registers a content provider that shows the code generated by a preview
+ * of the compilation in read-only documents, which can be compared to the
+ * files on disk before they are overwritten.
+ * @param context the extension context
+ */
+export function registerGeneratedCodeProvider(context: vscode.ExtensionContext) {
+	const provider: vscode.TextDocumentContentProvider = {
+		onDidChange: onDidChange.event,
+		provideTextDocumentContent(uri: vscode.Uri): string {
+			return contents.get(uri.toString()) ?? '// This file is not part of the last compilation preview';
+		}
+	};
+	context.subscriptions.push(onDidChange, vscode.workspace.registerTextDocumentContentProvider(GENERATED_CODE_SCHEME, provider));
+}
@@ -0,0 +1,253 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/browser';
+
+import { log } from '../log';
+import { htmlTemplate, MERMAID_SCRIPT } from './templates/diagramView';
+import { cssTemplate } from './templates/diagramStyle';
+import { scriptTemplate } from './templates/diagramScript';
+
+type DiagramFormat = 'mermaid' | 'plantuml';
+
+type ModelDiagram = {
+	format: DiagramFormat;
+	source: string;
+	namespaces: string[];
+	allNamespaces: string[];
+}
+
+/**
+ * How long to wait for the models to stop changing before drawing the diagram again
+ */
+const UPDATE_DELAY = 300;
+
+let currentPanel: vscode.WebviewPanel | undefined;
+
+/**
+ * The uri of the current Concerto document, whose namespace is shown when no namespaces are selected
+ */
+let documentUri: vscode.Uri | undefined;
+let namespaces: string[] = [];
+let format: DiagramFormat = 'mermaid';
+let diagram: ModelDiagram | undefined;
+let updateTimer: ReturnType<typeof setTimeout> | undefined;
+
+/**
+ * The public PlantUML server, which is only used once the user has chosen it
+ */
+const PUBLIC_PLANTUML_SERVER = 'https://www.plantuml.com/plantuml';
+
+/**
+ * True once the user has been asked to choose a PlantUML server
+ */
+let plantUmlServerPrompted = false;
+
+function getConfiguration() {
+	return vscode.workspace.getConfiguration('cicero-vscode-extension.diagrams');
+}
+
+/**
+ * Returns the configured PlantUML server, or undefined if there is none
+ */
+function getPlantUmlServer(): string | undefined {
+	return getConfiguration().get<string>('plantUmlServer') || undefined;
+}
+
+/**
+ * PlantUML diagrams are rendered by a server, which receives the source of the
+ * models. Asks the user to choose a server, as none is configured by default.
+ */
+async function promptPlantUmlServer() {
+	plantUmlServerPrompted = true;
+	const usePublic = 'Use plantuml.com';
+	const choice = await vscode.window.showWarningMessage(
+		'PlantUML diagrams are rendered by a PlantUML server, which receives the source of the models. No server is configured.',
+		usePublic, 'Open Settings');
+	if (choice === usePublic) {
+		await getConfiguration().update('plantUmlServer', PUBLIC_PLANTUML_SERVER, vscode.ConfigurationTarget.Global);
+	}
+	else if (choice === 'Open Settings') {
+		vscode.commands.executeCommand('workbench.action.openSettings', 'cicero-vscode-extension.diagrams.plantUmlServer');
+	}
+}
+
+/**
+ * Returns a random nonce, allowing the inline script of the webview
+ */
+function getNonce() {
+	const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+	let nonce = '';
+	for (let n = 0; n < 32; n++) {
+		nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+	}
+	return nonce;
+}
+
+/**
+ * Sets the html of the webview, whose content security policy only allows
+ * requests to the configured PlantUML server
+ */
+function setWebviewHtml(panel: vscode.WebviewPanel) {
+	const nonce = getNonce();
+	const plantUmlServer = getPlantUmlServer();
+	let connectSrc = `'none'`;
+	if (plantUmlServer) {
+		try {
+			connectSrc = new URL(plantUmlServer).origin;
+		}
+		catch (e) {
+			log(`Invalid PlantUML server ${plantUmlServer}: ${e}`);
+		}
+	}
+	const csp = [
+		`default-src 'none'`,
+		`img-src ${panel.webview.cspSource} data:`,
+		// mermaid adds the styles of the diagrams
+		`style-src ${panel.webview.cspSource} 'unsafe-inline'`,
+		`script-src 'nonce-${nonce}' ${MERMAID_SCRIPT}`,
+		`connect-src ${connectSrc}`
+	].join('; ');
+	panel.webview.html = htmlTemplate(cssTemplate, scriptTemplate, csp, nonce);
+}
+
+async function updateDiagram(client: LanguageClient) {
+	try {
+		diagram = await client.sendRequest('modelDiagram', { format, uri: documentUri?.toString(), namespaces });
+		const plantUmlServer = getPlantUmlServer();
+		currentPanel?.webview.postMessage({ type: 'diagram', diagram, plantUmlServer });
+		if (format === 'plantuml' && !plantUmlServer && !plantUmlServerPrompted) {
+			await promptPlantUmlServer();
+		}
+	}
+	catch (e) {
+		log(`Failed to generate the model diagram: ${e}`);
+		vscode.window.showErrorMessage(`Failed to generate the model diagram: ${e}`);
+	}
+}
+
+/**
+ * Draws the diagram again once the models have stopped changing. The
+ * diagnostics of a model are published once the language server has updated its models.
+ */
+function scheduleUpdate(client: LanguageClient) {
+	if (updateTimer) {
+		clearTimeout(updateTimer);
+	}
+	updateTimer = setTimeout(() => {
+		updateTimer = undefined;
+		updateDiagram(client);
+	}, UPDATE_DELAY);
+}
+
+async function exportFile(name: string, filters: Record<string, string[]>, content: string) {
+	const folder = documentUri ? vscode.Uri.joinPath(documentUri, '..') : vscode.workspace.workspaceFolders?.[0]?.uri;
+	const target = await vscode.window.showSaveDialog({
+		defaultUri: folder ? vscode.Uri.joinPath(folder, name) : undefined,
+		filters
+	});
+	if (target) {
+		await vscode.workspace.fs.writeFile(target, new TextEncoder().encode(content));
+		vscode.window.showInformationMessage(`Exported the model diagram to ${target.toString()}.`);
+	}
+}
+
+function toMarkdown(diagram: ModelDiagram) {
+	return `# ${diagram.namespaces.join(', ')}\n\n\`\`\`${diagram.format}\n${diagram.source.trim()}\n\`\`\`\n`;
+}
+
+/**
+ * Shows a live Mermaid or PlantUML class diagram of the current model, or of
+ * selected namespaces, generated by the modelDiagram request of the language server
+ * @param context the extension context
+ * @param client the language client
+ * @param file the model to show, the active editor by default
+ */
+export function createOrShowModelDiagramPanel(context: vscode.ExtensionContext, client: LanguageClient, file?: vscode.Uri) {
+	const editor = vscode.window.activeTextEditor;
+	documentUri = file ?? (editor?.document.languageId === 'concerto' ? editor.document.uri : documentUri);
+	namespaces = [];
+
+	if (currentPanel) {
+		currentPanel.reveal(vscode.ViewColumn.Beside);
+		updateDiagram(client);
+		return;
+	}
+
+	format = getConfiguration().get<DiagramFormat>('format') ?? 'mermaid';
+	currentPanel = vscode.window.createWebviewPanel(
+		'modelDiagram',
+		'Model Diagram',
+		vscode.ViewColumn.Beside,
+		{
+			enableScripts: true,
+			retainContextWhenHidden: true
+		}
+	);
+
+	const listeners = [
+		vscode.languages.onDidChangeDiagnostics(e => {
+			if (e.uris.some(uri => uri.path.endsWith('.cto'))) {
+				scheduleUpdate(client);
+			}
+		}),
+		vscode.window.onDidChangeActiveTextEditor(e => {
+			if (e?.document.languageId === 'concerto' && e.document.uri.toString() !== documentUri?.toString()) {
+				documentUri = e.document.uri;
+				if (namespaces.length === 0) {
+					scheduleUpdate(client);
+				}
+			}
+		}),
+		vscode.workspace.onDidChangeConfiguration(e => {
+			// the content security policy allows the requests to the PlantUML server
+			if (currentPanel && e.affectsConfiguration('cicero-vscode-extension.diagrams.plantUmlServer')) {
+				setWebviewHtml(currentPanel);
+			}
+		})
+	];
+
+	currentPanel.onDidDispose(() => {
+		currentPanel = undefined;
+		listeners.forEach(listener => listener.dispose());
+	}, null, context.subscriptions);
+
+	currentPanel.webview.onDidReceiveMessage(async message => {
+		switch (message.type) {
+		case 'webviewLoaded':
+			await updateDiagram(client);
+			break;
+		case 'format':
+			format = message.format;
+			await updateDiagram(client);
+			break;
+		case 'filter':
+			namespaces = message.namespaces;
+			await updateDiagram(client);
+			break;
+		case 'exportSvg':
+			await exportFile('model.svg', { 'SVG': ['svg'] }, message.svg);
+			break;
+		case 'exportMarkdown':
+			if (diagram) {
+				await exportFile('model.md', { 'Markdown': ['md'] }, toMarkdown(diagram));
+			}
+			break;
+		}
+	}, null, context.subscriptions);
+
+	setWebviewHtml(currentPanel);
+}
@@ -0,0 +1,141 @@
+export const scriptTemplate = `
+(function() {
+	const vscode = acquireVsCodeApi();
+	const PLANTUML_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz-_';
+
+	const format = document.getElementById('format');
+	const filter = document.getElementById('filter');
+	const status = document.getElementById('status');
+	const container = document.getElementById('diagram');
+	const exportSvg = document.getElementById('export-svg');
+	let svg;
+	let renderCount = 0;
+	let latest = 0;
+
+	if (window.mermaid) {
+		mermaid.initialize({
+			startOnLoad: false,
+			securityLevel: 'strict',
+			theme: document.body.classList.contains('vscode-light') ? 'default' : 'dark'
+		});
+	}
+
+	const showStatus = (text, error) => {
+		status.textContent = text;
+		status.classList.toggle('error', !!error);
+	};
+
+	// the PlantUML servers take the deflated source, in a variant of base64
+	const encodePlantUml = async source => {
+		const stream = new Blob([source]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+		const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+		let encoded = '';
+		for (let n = 0; n < bytes.length; n += 3) {
+			const b1 = bytes[n];
+			const b2 = n + 1 < bytes.length ? bytes[n + 1] : 0;
+			const b3 = n + 2 < bytes.length ? bytes[n + 2] : 0;
+			encoded += PLANTUML_ALPHABET[b1 >> 2] +
+				PLANTUML_ALPHABET[((b1 & 0x3) << 4) | (b2 >> 4)] +
+				PLANTUML_ALPHABET[((b2 & 0xF) << 2) | (b3 >> 6)] +
+				PLANTUML_ALPHABET[b3 & 0x3F];
+		}
+		return encoded;
+	};
+
+	const renderSvg = async (diagram, plantUmlServer) => {
+		if (diagram.format === 'mermaid') {
+			if (!window.mermaid) {
+				throw new Error('Mermaid could not be loaded. Check your network connection.');
+			}
+			renderCount++;
+			const result = await mermaid.render('diagram-' + renderCount, diagram.source);
+			return result.svg;
+		}
+		if (!plantUmlServer) {
+			throw new Error('No PlantUML server is configured. The server receives the source of the models.');
+		}
+		const response = await fetch(plantUmlServer.replace(/\\/$/, '') + '/svg/' + await encodePlantUml(diagram.source));
+		if (!response.ok) {
+			throw new Error('The PlantUML server returned ' + response.status + ' ' + response.statusText);
+		}
+		return response.text();
+	};
+
+	const render = async (diagram, plantUmlServer) => {
+		const current = ++latest;
+		svg = undefined;
+		exportSvg.disabled = true;
+		if (diagram.namespaces.length === 0) {
+			container.innerHTML = '';
+			showStatus('Open a Concerto model, or select the namespaces to show.');
+			return;
+		}
+		try {
+			const rendered = await renderSvg(diagram, plantUmlServer);
+			// a newer diagram was received while rendering
+			if (current !== latest) {
+				return;
+			}
+			svg = rendered;
+			if (diagram.format === 'mermaid') {
+				// sanitized by mermaid, with its strict security level
+				container.innerHTML = svg;
+			}
+			else {
+				// the SVG of the PlantUML server is shown as an image, which runs no scripts
+				const image = document.createElement('img');
+				image.src = 'data:image/svg+xml;charset=utf-8,' + encodeURIComponent(svg);
+				image.alt = 'PlantUML diagram';
+				container.replaceChildren(image);
+			}
+			exportSvg.disabled = false;
+			showStatus(diagram.namespaces.join(', '));
+		}
+		catch (e) {
+			showStatus('Failed to render the diagram: ' + (e.message || e), true);
+		}
+	};
+
+	const updateFilter = diagram => {
+		while (filter.firstChild) {
+			filter.removeChild(filter.firstChild);
+		}
+		diagram.allNamespaces.forEach(namespace => {
+			const option = document.createElement('option');
+			option.value = namespace;
+			option.textContent = namespace;
+			option.selected = diagram.namespaces.includes(namespace);
+			filter.appendChild(option);
+		});
+	};
+
+	format.addEventListener('change', () => vscode.postMessage({ type: 'format', format: format.value }));
+
+	filter.addEventListener('change', () => {
+		vscode.postMessage({ type: 'filter', namespaces: Array.from(filter.selectedOptions).map(option => option.value) });
+	});
+
+	document.getElementById('current-file').addEventListener('click', () => {
+		vscode.postMessage({ type: 'filter', namespaces: [] });
+	});
+
+	exportSvg.addEventListener('click', () => {
+		if (svg) {
+			vscode.postMessage({ type: 'exportSvg', svg });
+		}
+	});
+
+	document.getElementById('export-markdown').addEventListener('click', () => vscode.postMessage({ type: 'exportMarkdown' }));
+
+	window.addEventListener('message', event => {
+		const message = event.data;
+		if (message.type === 'diagram') {
+			format.value = message.diagram.format;
+			updateFilter(message.diagram);
+			render(message.diagram, message.plantUmlServer);
+		}
+	});
+
+	vscode.postMessage({ type: 'webviewLoaded' });
+})();
+`;
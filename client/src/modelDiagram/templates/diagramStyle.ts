@@ -0,0 +1,65 @@
+export const cssTemplate = `
+	body {
+		font-family: var(--vscode-font-family);
+		font-size: var(--vscode-font-size);
+		color: var(--vscode-foreground);
+		background-color: var(--vscode-editor-background);
+		padding: 0;
+		margin: 0;
+	}
+
+	#toolbar {
+		display: flex;
+		gap: 6px;
+		align-items: center;
+		padding: 8px;
+		border-bottom: 1px solid var(--vscode-panel-border);
+	}
+
+	button {
+		color: var(--vscode-button-secondaryForeground);
+		background-color: var(--vscode-button-secondaryBackground);
+		border: none;
+		padding: 4px 10px;
+		cursor: pointer;
+	}
+
+	button:disabled {
+		opacity: 0.5;
+		cursor: default;
+	}
+
+	select {
+		color: var(--vscode-input-foreground);
+		background-color: var(--vscode-input-background);
+		border: 1px solid var(--vscode-input-border);
+	}
+
+	#filter {
+		min-width: 240px;
+	}
+
+	#filter:focus {
+		height: 200px;
+	}
+
+	#status {
+		padding: 4px 8px;
+		color: var(--vscode-descriptionForeground);
+	}
+
+	#status.error {
+		color: var(--vscode-errorForeground);
+		white-space: pre-wrap;
+	}
+
+	#diagram {
+		overflow: auto;
+		padding: 8px;
+	}
+
+	#diagram svg, #diagram img {
+		max-width: none;
+		height: auto;
+	}
+`;
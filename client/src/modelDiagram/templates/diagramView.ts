@@ -0,0 +1,42 @@
+/**
+ * The mermaid script served by the CDN, the only script allowed besides the
+ * nonced ones
+ */
+export const MERMAID_SCRIPT = 'https://cdnjs.cloudflare.com/ajax/libs/mermaid/10.9.1/mermaid.min.js';
+
+/**
+ * The subresource integrity of the mermaid script, so a changed script is not run
+ */
+const MERMAID_INTEGRITY = 'sha384-WmdflGW9aGfoBdHc4rRyWzYuAjEmDwMdGdiPNacbwfGKxBW/SO6guzuQ76qjnSlr';
+
+export const htmlTemplate = (css: string, script: string, csp: string, nonce: string): string => `
+	<!DOCTYPE html>
+	<html lang="en">
+	<head>
+		<meta charset="UTF-8">
+		<meta http-equiv="Content-Security-Policy" content="${csp}">
+		<meta name="viewport" content="width=device-width, initial-scale=1.0">
+		<script src="${MERMAID_SCRIPT}" integrity="${MERMAID_INTEGRITY}" crossorigin="anonymous"></script>
+		<style>
+			${css}
+		</style>
+	</head>
+	<body>
+		<div id="toolbar">
+			<select id="format" title="The diagram syntax">
+				<option value="mermaid">Mermaid</option>
+				<option value="plantuml">PlantUML</option>
+			</select>
+			<select id="filter" multiple size="1" title="Show the selected namespaces"></select>
+			<button id="current-file">Current file</button>
+			<button id="export-svg">Export SVG</button>
+			<button id="export-markdown">Export Markdown</button>
+		</div>
+		<div id="status"></div>
+		<div id="diagram"></div>
+		<script nonce="${nonce}">
+			${script}
+		</script>
+	</body>
+	</html>
+`;
@@ -0,0 +1,101 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/browser';
+
+import { log } from '../log';
+import { htmlTemplate } from './templates/graphView';
+import { cssTemplate } from './templates/graphStyle';
+import { scriptTemplate } from './templates/graphScript';
+
+let currentPanel: vscode.WebviewPanel | undefined;
+
+/**
+ * The uri of the last Concerto document, whose project is shown
+ */
+let projectUri: string | undefined;
+
+/**
+ * The namespaces shown, all by default
+ */
+let namespaces: string[] = [];
+
+async function updateGraph(client: LanguageClient) {
+	const editor = vscode.window.activeTextEditor;
+	if (editor?.document.languageId === 'concerto') {
+		projectUri = editor.document.uri.toString();
+	}
+	try {
+		const graph = await client.sendRequest('modelGraph', { uri: projectUri, namespaces });
+		currentPanel?.webview.postMessage({ type: 'graph', graph });
+	}
+	catch (e) {
+		log(`Failed to get the model graph: ${e}`);
+		vscode.window.showErrorMessage(`Failed to get the model graph: ${e}`);
+	}
+}
+
+async function openLocation(location: { uri: string; range: vscode.Range }) {
+	const { start, end } = location.range;
+	const selection = new vscode.Range(start.line, start.character, end.line, end.character);
+	await vscode.window.showTextDocument(vscode.Uri.parse(location.uri), { selection, viewColumn: vscode.ViewColumn.One });
+}
+
+/**
+ * Shows the namespace import graph and the type graph of the models, as
+ * returned by the modelGraph request of the language server
+ * @param context the extension context
+ * @param client the language client
+ */
+export function createOrShowModelGraphPanel(context: vscode.ExtensionContext, client: LanguageClient) {
+	if (currentPanel) {
+		currentPanel.reveal(vscode.ViewColumn.Beside);
+		updateGraph(client);
+		return;
+	}
+
+	currentPanel = vscode.window.createWebviewPanel(
+		'modelGraph',
+		'Model Dependency Graph',
+		vscode.ViewColumn.Beside,
+		{
+			enableScripts: true,
+			retainContextWhenHidden: true
+		}
+	);
+
+	currentPanel.onDidDispose(() => {
+		currentPanel = undefined;
+	}, null, context.subscriptions);
+
+	currentPanel.webview.onDidReceiveMessage(async message => {
+		switch (message.type) {
+		case 'webviewLoaded':
+		case 'refresh':
+			await updateGraph(client);
+			break;
+		case 'filter':
+			namespaces = message.namespaces;
+			await updateGraph(client);
+			break;
+		case 'open':
+			await openLocation(message.location);
+			break;
+		}
+	}, null, context.subscriptions);
+
+	currentPanel.webview.html = htmlTemplate(cssTemplate, scriptTemplate);
+}
@@ -0,0 +1,176 @@
+export const scriptTemplate = `
+(function() {
+	const vscode = acquireVsCodeApi();
+	const SVG_NS = 'http://www.w3.org/2000/svg';
+	const NODE_WIDTH = 220;
+	const NODE_HEIGHT = 34;
+	const COLUMN_GAP = 80;
+	const ROW_GAP = 14;
+
+	const svg = document.getElementById('graph');
+	const filter = document.getElementById('filter');
+	const legend = document.getElementById('legend');
+	const cyclesContainer = document.getElementById('cycles');
+	let graph;
+	let view = 'namespaces';
+
+	const createElement = (name, attributes) => {
+		const element = document.createElementNS(SVG_NS, name);
+		Object.keys(attributes).forEach(key => element.setAttribute(key, attributes[key]));
+		return element;
+	};
+
+	const truncate = (text, length) => text.length > length ? text.substring(0, length - 1) + '…' : text;
+
+	// places the nodes in columns, each node to the left of the nodes it depends on
+	const layout = (nodes, edges) => {
+		const level = new Map(nodes.map(node => [node.id, 0]));
+		const acyclic = edges.filter(edge => !edge.cyclic && edge.source !== edge.target);
+		for (let n = 0; n < nodes.length; n++) {
+			let changed = false;
+			acyclic.forEach(edge => {
+				if (level.get(edge.target) < level.get(edge.source) + 1) {
+					level.set(edge.target, level.get(edge.source) + 1);
+					changed = true;
+				}
+			});
+			if (!changed) {
+				break;
+			}
+		}
+		const rows = new Map();
+		const positions = new Map();
+		nodes.forEach(node => {
+			const column = level.get(node.id);
+			const row = rows.get(column) || 0;
+			rows.set(column, row + 1);
+			positions.set(node.id, {
+				x: 20 + column * (NODE_WIDTH + COLUMN_GAP),
+				y: 20 + row * (NODE_HEIGHT + ROW_GAP)
+			});
+		});
+		return positions;
+	};
+
+	const render = () => {
+		while (svg.firstChild) {
+			svg.removeChild(svg.firstChild);
+		}
+		if (!graph) {
+			return;
+		}
+		const { nodes, edges, cycles } = graph[view];
+		const positions = layout(nodes, edges);
+
+		const defs = createElement('defs', {});
+		['arrow', 'arrow-cyclic'].forEach(id => {
+			const marker = createElement('marker', { id, viewBox: '0 0 10 10', refX: '10', refY: '5', markerWidth: '8', markerHeight: '8', orient: 'auto-start-reverse' });
+			marker.appendChild(createElement('path', { d: 'M 0 0 L 10 5 L 0 10 z', class: id === 'arrow' ? 'arrow' : 'arrow cyclic' }));
+			defs.appendChild(marker);
+		});
+		svg.appendChild(defs);
+
+		edges.forEach(edge => {
+			const from = positions.get(edge.source);
+			const to = positions.get(edge.target);
+			if (!from || !to) {
+				return;
+			}
+			const x1 = from.x + NODE_WIDTH;
+			const y1 = from.y + NODE_HEIGHT / 2;
+			const x2 = to.x;
+			const y2 = to.y + NODE_HEIGHT / 2;
+			const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+			const path = createElement('path', {
+				d: 'M ' + x1 + ' ' + y1 + ' C ' + (x1 + bend) + ' ' + y1 + ', ' + (x2 - bend) + ' ' + y2 + ', ' + x2 + ' ' + y2,
+				class: 'edge ' + edge.kind + (edge.cyclic ? ' cyclic' : ''),
+				'marker-end': edge.cyclic ? 'url(#arrow-cyclic)' : 'url(#arrow)'
+			});
+			const title = createElement('title', {});
+			title.textContent = edge.source + ' ' + edge.kind + ' ' + edge.target;
+			path.appendChild(title);
+			svg.appendChild(path);
+		});
+
+		const cyclic = new Set(cycles.flat());
+		nodes.forEach(node => {
+			const position = positions.get(node.id);
+			const group = createElement('g', {
+				class: 'node' + (node.external ? ' external' : '') + (node.missing ? ' missing' : '') + (cyclic.has(node.id) ? ' cyclic' : ''),
+				transform: 'translate(' + position.x + ',' + position.y + ')'
+			});
+			group.appendChild(createElement('rect', { width: NODE_WIDTH, height: NODE_HEIGHT }));
+			const label = createElement('text', { x: 8, y: 15 });
+			label.textContent = truncate(node.label, 32);
+			group.appendChild(label);
+			const kind = createElement('text', { x: 8, y: 28, class: 'kind' });
+			kind.textContent = node.kind + (view === 'types' ? ' in ' + truncate(node.namespace, 22) : '') + (node.external ? ' (external)' : '') + (node.missing ? ' (missing)' : '');
+			group.appendChild(kind);
+			const title = createElement('title', {});
+			title.textContent = node.id;
+			group.appendChild(title);
+			if (node.location) {
+				group.addEventListener('click', () => vscode.postMessage({ type: 'open', location: node.location }));
+			}
+			svg.appendChild(group);
+		});
+
+		let width = 0;
+		let height = 0;
+		positions.forEach(position => {
+			width = Math.max(width, position.x + NODE_WIDTH + 20);
+			height = Math.max(height, position.y + NODE_HEIGHT + 20);
+		});
+		svg.setAttribute('width', width);
+		svg.setAttribute('height', height);
+
+		legend.textContent = nodes.length + ' ' + view + ', ' + edges.length + ' dependencies. Click a node to go to its declaration.';
+		cyclesContainer.textContent = cycles.length === 0 ? '' : cycles.length + (cycles.length === 1 ? ' cycle: ' : ' cycles: ') +
+			cycles.map(cycle => cycle.concat([cycle[0]]).join(' → ')).join('; ');
+	};
+
+	const updateFilter = () => {
+		const selected = new Set(Array.from(filter.selectedOptions).map(option => option.value));
+		while (filter.firstChild) {
+			filter.removeChild(filter.firstChild);
+		}
+		graph.allNamespaces.forEach(namespace => {
+			const option = document.createElement('option');
+			option.value = namespace;
+			option.textContent = namespace;
+			option.selected = selected.has(namespace);
+			filter.appendChild(option);
+		});
+	};
+
+	document.querySelectorAll('button.view').forEach(button => {
+		button.addEventListener('click', () => {
+			view = button.getAttribute('data-view');
+			document.querySelectorAll('button.view').forEach(b => b.classList.toggle('selected', b === button));
+			render();
+		});
+	});
+
+	filter.addEventListener('change', () => {
+		vscode.postMessage({ type: 'filter', namespaces: Array.from(filter.selectedOptions).map(option => option.value) });
+	});
+
+	document.getElementById('clear-filter').addEventListener('click', () => {
+		Array.from(filter.options).forEach(option => option.selected = false);
+		vscode.postMessage({ type: 'filter', namespaces: [] });
+	});
+
+	document.getElementById('refresh').addEventListener('click', () => vscode.postMessage({ type: 'refresh' }));
+
+	window.addEventListener('message', event => {
+		const message = event.data;
+		if (message.type === 'graph') {
+			graph = message.graph;
+			updateFilter();
+			render();
+		}
+	});
+
+	vscode.postMessage({ type: 'webviewLoaded' });
+})();
+`;
@@ -0,0 +1,118 @@
+export const cssTemplate = `
+	body {
+		font-family: var(--vscode-font-family);
+		font-size: var(--vscode-font-size);
+		color: var(--vscode-foreground);
+		background-color: var(--vscode-editor-background);
+		padding: 0;
+		margin: 0;
+	}
+
+	#toolbar {
+		display: flex;
+		gap: 6px;
+		align-items: center;
+		padding: 8px;
+		border-bottom: 1px solid var(--vscode-panel-border);
+	}
+
+	button {
+		color: var(--vscode-button-secondaryForeground);
+		background-color: var(--vscode-button-secondaryBackground);
+		border: none;
+		padding: 4px 10px;
+		cursor: pointer;
+	}
+
+	button.selected {
+		color: var(--vscode-button-foreground);
+		background-color: var(--vscode-button-background);
+	}
+
+	select {
+		min-width: 240px;
+		color: var(--vscode-input-foreground);
+		background-color: var(--vscode-input-background);
+		border: 1px solid var(--vscode-input-border);
+	}
+
+	select:focus {
+		height: 200px;
+	}
+
+	#legend, #cycles {
+		padding: 4px 8px;
+		color: var(--vscode-descriptionForeground);
+	}
+
+	#cycles {
+		color: var(--vscode-errorForeground);
+	}
+
+	#graph-container {
+		overflow: auto;
+	}
+
+	.node rect {
+		fill: var(--vscode-editorWidget-background);
+		stroke: var(--vscode-focusBorder);
+		rx: 4;
+	}
+
+	.node {
+		cursor: pointer;
+	}
+
+	.node:hover rect {
+		fill: var(--vscode-list-hoverBackground);
+	}
+
+	.node text {
+		fill: var(--vscode-foreground);
+		font-size: 12px;
+	}
+
+	.node.external rect {
+		stroke-dasharray: 4 2;
+	}
+
+	.node.missing rect {
+		stroke: var(--vscode-errorForeground);
+	}
+
+	.node.cyclic rect {
+		stroke: var(--vscode-errorForeground);
+		stroke-width: 2;
+	}
+
+	.node .kind {
+		fill: var(--vscode-descriptionForeground);
+		font-size: 10px;
+	}
+
+	.edge {
+		fill: none;
+		stroke: var(--vscode-descriptionForeground);
+		stroke-width: 1;
+	}
+
+	.edge.extends {
+		stroke-width: 2;
+	}
+
+	.edge.relationship {
+		stroke-dasharray: 5 3;
+	}
+
+	.edge.cyclic {
+		stroke: var(--vscode-errorForeground);
+	}
+
+	.arrow {
+		fill: var(--vscode-descriptionForeground);
+	}
+
+	.arrow.cyclic {
+		fill: var(--vscode-errorForeground);
+	}
+`;
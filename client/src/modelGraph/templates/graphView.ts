@@ -0,0 +1,29 @@
+export const htmlTemplate = (css: string, script: string): string => `
+	<!DOCTYPE html>
+	<html lang="en">
+	<head>
+		<meta charset="UTF-8">
+		<meta name="viewport" content="width=device-width, initial-scale=1.0">
+		<style>
+			${css}
+		</style>
+	</head>
+	<body>
+		<div id="toolbar">
+			<button class="view selected" data-view="namespaces">Namespaces</button>
+			<button class="view" data-view="types">Types</button>
+			<select id="filter" multiple size="1" title="Show the selected namespaces, and what they depend on"></select>
+			<button id="clear-filter">All namespaces</button>
+			<button id="refresh">Refresh</button>
+		</div>
+		<div id="legend"></div>
+		<div id="cycles"></div>
+		<div id="graph-container">
+			<svg id="graph" xmlns="http://www.w3.org/2000/svg"></svg>
+		</div>
+		<script>
+			${script}
+		</script>
+	</body>
+	</html>
+`;
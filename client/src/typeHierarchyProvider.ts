@@ -0,0 +1,83 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as vscode from 'vscode';
+import { LanguageClient } from 'vscode-languageclient/browser';
+import { Range, SymbolKind, SymbolTag } from 'vscode-languageclient';
+
+import { log } from './log';
+
+/**
+ * A type hierarchy item of the language server (LSP 3.17)
+ */
+type ProtocolTypeHierarchyItem = {
+	name: string;
+	kind: SymbolKind;
+	tags?: SymbolTag[];
+	detail?: string;
+	uri: string;
+	range: Range;
+	selectionRange: Range;
+	data: unknown;
+}
+
+/**
+ * Registers a type hierarchy provider that sends the type hierarchy requests
+ * of LSP 3.17 to the language server, as the language client does not support them yet.
+ * @param context the extension context
+ * @param client the language client
+ */
+export function registerTypeHierarchyProvider(context: vscode.ExtensionContext, client: LanguageClient) {
+	// the items of the language server, which are sent back to find the supertypes and subtypes
+	const items = new WeakMap<vscode.TypeHierarchyItem, ProtocolTypeHierarchyItem>();
+
+	const toItem = (item: ProtocolTypeHierarchyItem) => {
+		const converter = client.protocol2CodeConverter;
+		const result = new vscode.TypeHierarchyItem(
+			converter.asSymbolKind(item.kind),
+			item.name,
+			item.detail ?? '',
+			converter.asUri(item.uri),
+			converter.asRange(item.range),
+			converter.asRange(item.selectionRange));
+		result.tags = converter.asSymbolTags(item.tags);
+		items.set(result, item);
+		return result;
+	};
+
+	const sendRequest = async (method: string, params: unknown) => {
+		try {
+			const result = await client.sendRequest<ProtocolTypeHierarchyItem[] | null>(method, params);
+			return result?.map(toItem);
+		}
+		catch (e) {
+			log(`Failed to get the type hierarchy: ${e}`);
+			return undefined;
+		}
+	};
+
+	const provider: vscode.TypeHierarchyProvider = {
+		prepareTypeHierarchy(document, position) {
+			return sendRequest('textDocument/prepareTypeHierarchy', client.code2ProtocolConverter.asTextDocumentPositionParams(document, position));
+		},
+		provideTypeHierarchySupertypes(item) {
+			return sendRequest('typeHierarchy/supertypes', { item: items.get(item) });
+		},
+		provideTypeHierarchySubtypes(item) {
+			return sendRequest('typeHierarchy/subtypes', { item: items.get(item) });
+		}
+	};
+	context.subscriptions.push(vscode.languages.registerTypeHierarchyProvider({ language: 'concerto' }, provider));
+}
@@ -77,14 +77,18 @@ export async function readDirectoryRecursive(uri:Uri) {
 	return [];
 }
 
+/**
+ * Decodes the UTF-8 content of a file
+ */
 export function fileArrayToString(bufferArray: Uint8Array) {
-	return Array.from(bufferArray)
-		.map((item) => String.fromCharCode(item))
-		.join("");
+	return new TextDecoder().decode(bufferArray);
 }
 
+/**
+ * Encodes text as the UTF-8 content of a file
+ */
 export function stringToFileArray(str: string) {
-	return Uint8Array.from(str.split("").map((s) => s.charCodeAt(0)));
+	return new TextEncoder().encode(str);
 }
 
 function isValidReadEvent(e: any): e is { path: string } {
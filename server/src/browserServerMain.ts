@@ -12,12 +12,43 @@
  * limitations under the License.
  */
 'use strict';
-import { InitializedParams, InitializeParams, InitializeResult, ServerCapabilities, TextDocumentChangeEvent, TextDocumentSyncKind } from 'vscode-languageserver';
+import { CodeLensRefreshRequest, DidChangeWatchedFilesParams, FileOperationRegistrationOptions, InitializedParams, InitializeParams, InitializeResult, ServerCapabilities, TextDocumentChangeEvent, TextDocumentPositionParams, TextDocumentSyncKind } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 
 import { GLOBAL_STATE, log } from './state';
-import { handleConcertoDocumentChange } from './documents/concertoHandler';
+import { getProjectState, getProjectStates, handleProjectDocumentChange, handleProjectFilesDeleted, handleProjectFilesRenamed, handleProjectWatchedFiles, resolveProjectState } from './documents/projectHandler';
 import { loadModels, registerCommandHandlers } from './commands/commandHandler';
+import { compileOnSave } from './commands/compileOnSave';
+import { COMPLETION_TRIGGER_CHARACTERS, handleCompletion } from './providers/completionProvider';
+import { handleHover } from './providers/hoverProvider';
+import { handleDefinition } from './providers/definitionProvider';
+import { handleReferences } from './providers/referencesProvider';
+import { handlePrepareRename, handleRename } from './providers/renameProvider';
+import { handleDocumentSymbol, handleWorkspaceSymbol } from './providers/symbolProvider';
+import { forgetSemanticTokens, handleSemanticTokens, handleSemanticTokensDelta, SEMANTIC_TOKENS_LEGEND } from './providers/semanticTokensProvider';
+import { handleFormatting, handleRangeFormatting } from './providers/formattingProvider';
+import { CODE_ACTION_KINDS, handleCodeAction } from './providers/codeActionProvider';
+import { handleCodeLens } from './providers/codeLensProvider';
+import { handleDocumentLinks } from './providers/documentLinkProvider';
+import { handleFoldingRanges } from './providers/foldingRangeProvider';
+import { handleSelectionRanges } from './providers/selectionRangeProvider';
+import { getSubtypes, getSupertypes, handlePrepareTypeHierarchy, PREPARE_TYPE_HIERARCHY_REQUEST, TYPE_HIERARCHY_SUBTYPES_REQUEST, TYPE_HIERARCHY_SUPERTYPES_REQUEST, TypeHierarchyParams } from './providers/typeHierarchyProvider';
+import { forgetDocument } from './documents/scanner';
+import { ValidationScheduler } from './documents/validationScheduler';
+import { setExtensionStorageUri } from './documents/externalModelCache';
+
+/**
+ * The files and folders whose renames and deletes are sent by the client
+ */
+const MODEL_FILE_FILTERS: FileOperationRegistrationOptions['filters'] = [
+	{ pattern: { glob: '**/*.cto', matches: 'file' } },
+	{ pattern: { glob: '**/*', matches: 'folder' } }
+];
+
+/**
+ * true if the client can be asked to request the code lenses again
+ */
+let codeLensRefreshSupport = false;
 
 /**
  * Called when the language server is initialized
@@ -29,14 +60,56 @@ if(GLOBAL_STATE.connection) {
 		// doesn't try to create log files
 		(process as any).browser = true;
 
-		// requests that the full contents of opened or modified documents is
-		// sent to the language server process, rather than just URIs or diffs
+		// the downloaded external models are cached in the storage of the extension
+		setExtensionStorageUri(params.initializationOptions?.storageUri);
+
+		// the code lenses count the references from other documents, so they are refreshed when the models change
+		codeLensRefreshSupport = !!params.capabilities.workspace?.codeLens?.refreshSupport;
+
+		// requests that the full contents of opened documents is sent to the
+		// language server process, and then only the changes to the documents
 		const serverCapabilities: ServerCapabilities = {
 			textDocumentSync: {
 				openClose: true,
-				change: TextDocumentSyncKind.Full,
+				change: TextDocumentSyncKind.Incremental,
 				save: true
 			},
+			completionProvider: {
+				triggerCharacters: COMPLETION_TRIGGER_CHARACTERS
+			},
+			hoverProvider: true,
+			definitionProvider: true,
+			referencesProvider: true,
+			renameProvider: {
+				prepareProvider: true
+			},
+			documentSymbolProvider: true,
+			workspaceSymbolProvider: true,
+			semanticTokensProvider: {
+				legend: SEMANTIC_TOKENS_LEGEND,
+				full: {
+					delta: true
+				}
+			},
+			documentFormattingProvider: true,
+			documentRangeFormattingProvider: true,
+			codeActionProvider: {
+				codeActionKinds: CODE_ACTION_KINDS
+			},
+			codeLensProvider: {
+				resolveProvider: false
+			},
+			documentLinkProvider: {
+				resolveProvider: false
+			},
+			foldingRangeProvider: true,
+			selectionRangeProvider: true,
+			workspace: {
+				fileOperations: {
+					didRename: { filters: MODEL_FILE_FILTERS },
+					didDelete: { filters: MODEL_FILE_FILTERS }
+				}
+			},
 		};
 		return { capabilities: serverCapabilities };
 	});
@@ -61,50 +134,128 @@ if(GLOBAL_STATE.connection) {
 		registerCommandHandlers(GLOBAL_STATE);
 		log('Listening for client commands.');
 
-		GLOBAL_STATE.isLoading = true;
 		try {
 			await loadModels();
 			log('Loaded workspace models.');
 		}
 		finally {
-			GLOBAL_STATE.isLoading = false;
 			log('Initialized.');
 		}
 	});
 }	
 
+/**
+ * Validates the documents once they stop changing
+ */
+const validationScheduler = new ValidationScheduler();
+
+/**
+ * Asks the client to request the code lenses again, once the models have changed
+ */
+function refreshCodeLenses() {
+	if (codeLensRefreshSupport) {
+		GLOBAL_STATE.connection?.sendRequest(CodeLensRefreshRequest.type);
+	}
+}
+
 /**
  * Handles changes to documents
  * @param change the document change event
  */
-async function handleDocumentChange(change: TextDocumentChangeEvent<TextDocument>) {
+function handleDocumentChange(change: TextDocumentChangeEvent<TextDocument>) {
 	log(`Document changed: ${change.document.uri}`);
-	await handleConcertoDocumentChange(GLOBAL_STATE, change);
+	validationScheduler.schedule(change.document.uri, async (token) => {
+		await handleProjectDocumentChange(GLOBAL_STATE, change, token);
+		refreshCodeLenses();
+	});
+}
+
+/**
+ * Handles saved documents, generating the code of the models once the
+ * pending validation of the document is done
+ * @param change the document change event
+ */
+async function handleDocumentSave(change: TextDocumentChangeEvent<TextDocument>) {
+	const uri = change.document.uri;
+	if (!uri.endsWith('.cto')) {
+		return;
+	}
+	if (validationScheduler.isPending(uri)) {
+		validationScheduler.schedule(uri, async (token) => {
+			await handleProjectDocumentChange(GLOBAL_STATE, change, token);
+			refreshCodeLenses();
+			if (!token.isCancellationRequested) {
+				await compileOnSave(await resolveProjectState(GLOBAL_STATE, uri), uri);
+			}
+		});
+	}
+	else {
+		await compileOnSave(await resolveProjectState(GLOBAL_STATE, uri), uri);
+	}
 }
 
 /**
  * Handles changes to watched files
  * @param change the file change event
  */
-//  async function handleWatchedFiles(change: DidChangeWatchedFilesParams) {
-// 	change.changes.forEach( async fileEvent => {
-// 		let file:string|undefined = undefined;
-// 		if( fileEvent.type === FileChangeType.Created || FileChangeType.Changed ) {
-// 			file = await GLOBAL_STATE.connection.sendRequest('vfs/readFile', {path: fileEvent.uri}); 
-// 		}
-// 		await handleWatchedFileChange(GLOBAL_STATE, fileEvent.type, fileEvent.uri, file);
-// 	});
-// }
+async function handleWatchedFiles(change: DidChangeWatchedFilesParams) {
+	change.changes.forEach(fileEvent => validationScheduler.cancel(fileEvent.uri));
+	await handleProjectWatchedFiles(GLOBAL_STATE, change.changes);
+	refreshCodeLenses();
+}
+
+/**
+ * Handles closed documents, releasing the state kept for them
+ * @param change the document change event
+ */
+function handleDocumentClose(change: TextDocumentChangeEvent<TextDocument>) {
+	validationScheduler.cancel(change.document.uri);
+	forgetDocument(change.document.uri);
+	forgetSemanticTokens(change.document.uri);
+}
 
 /**
  * Register our handler for when a document is opened or edited
  */
 GLOBAL_STATE.documents.onDidChangeContent(handleDocumentChange);
+GLOBAL_STATE.documents.onDidSave(handleDocumentSave);
+GLOBAL_STATE.documents.onDidClose(handleDocumentClose);
+
+/**
+ * Register the language feature providers, which use the project of the document
+ */
+if(GLOBAL_STATE.connection) {
+	GLOBAL_STATE.connection.onCompletion((params) => handleCompletion(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onHover((params) => handleHover(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onDefinition((params) => handleDefinition(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onReferences((params) => handleReferences(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onPrepareRename((params) => handlePrepareRename(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onRenameRequest((params) => handleRename(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onDocumentSymbol((params) => handleDocumentSymbol(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onWorkspaceSymbol((params) => getProjectStates(GLOBAL_STATE).flatMap(state => handleWorkspaceSymbol(state, params)));
+	GLOBAL_STATE.connection.languages.semanticTokens.on((params) => handleSemanticTokens(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.languages.semanticTokens.onDelta((params) => handleSemanticTokensDelta(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onDocumentFormatting((params) => handleFormatting(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onDocumentRangeFormatting((params) => handleRangeFormatting(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onCodeAction((params) => handleCodeAction(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onCodeLens((params) => handleCodeLens(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onDocumentLinks((params) => handleDocumentLinks(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onFoldingRanges((params) => handleFoldingRanges(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onSelectionRanges((params) => handleSelectionRanges(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onRequest(PREPARE_TYPE_HIERARCHY_REQUEST, (params: TextDocumentPositionParams) => handlePrepareTypeHierarchy(getProjectState(GLOBAL_STATE, params.textDocument.uri), params));
+	GLOBAL_STATE.connection.onRequest(TYPE_HIERARCHY_SUPERTYPES_REQUEST, (params: TypeHierarchyParams) => getSupertypes(getProjectState(GLOBAL_STATE, params.item.uri), params.item));
+	GLOBAL_STATE.connection.onRequest(TYPE_HIERARCHY_SUBTYPES_REQUEST, (params: TypeHierarchyParams) => getSubtypes(getProjectState(GLOBAL_STATE, params.item.uri), params.item));
+}
 
 /**
- * Register to receive notifications when watched files change
+ * Register to receive notifications when watched files change,
+ * or when files are renamed or deleted in the editor
  */
-// GLOBAL_STATE.connection.onDidChangeWatchedFiles(handleWatchedFiles);
+if(GLOBAL_STATE.connection) {
+	GLOBAL_STATE.connection.onDidChangeWatchedFiles(handleWatchedFiles);
+	GLOBAL_STATE.connection.workspace.onDidRenameFiles((params) => handleProjectFilesRenamed(GLOBAL_STATE, params.files));
+	GLOBAL_STATE.connection.workspace.onDidDeleteFiles((params) => handleProjectFilesDeleted(GLOBAL_STATE, params.files.map(f => f.uri)));
+}
 
 log('Language Server listening.');
 GLOBAL_STATE.connection?.listen();
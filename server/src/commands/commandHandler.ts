@@ -16,17 +16,41 @@
 import { GLOBAL_STATE, log } from '../state';
 import { TextDocumentChangeEvent } from 'vscode-languageserver';
 import { LanguageServerState, FileType, ReadDirectoryRecursiveResponse } from '../types';
-import { concertoCompileToTarget, concertoCompileTargets } from './concertoCompile';
-import { InMemoryWriter } from '@accordproject/concerto-util';
+import { ConcertoCompileParams, concertoCompileToTarget, concertoCompileTargets, previewCompile } from './concertoCompile';
+import { CompilePreset, getCompileOptions, readCompilePresets, saveCompilePreset } from './compileOptions';
+import { getModelDiagram, ModelDiagramParams } from './modelDiagram';
+import { generateSampleJson, SampleJsonParams } from './sampleJson';
+import { IllegalModelException, TypeNotFoundException } from '@accordproject/concerto-core';
 import { URI } from 'vscode-uri';
-import { handleConcertoDocumentChange } from '../documents/concertoHandler';
+import { validateModelFiles, validateProject } from '../documents/concertoHandler';
+import { getActiveProjectState, getProjectState, getProjectStates, handleProjectDocumentChange, resetProjects, resolveProjectState } from '../documents/projectHandler';
+import { getModelGraph, ModelGraphParams } from '../documents/modelGraph';
+import { updateExternalModels } from '../documents/externalModelCache';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { generateContent } from '../copilot/llm/llmManager';
+import { getExternalModelSource } from '../documents/modelIndex';
 
+/**
+ * Loads the models of the workspace folders. The documents are not validated
+ * while they are loaded, but once all the models of their project are loaded.
+ */
 export async function loadModels() {
+	GLOBAL_STATE.isLoading = true;
+	try {
+		await loadWorkspaceModels();
+	}
+	finally {
+		GLOBAL_STATE.isLoading = false;
+	}
+}
+
+async function loadWorkspaceModels() {
 	if (GLOBAL_STATE.connection) {
 		const folders = await GLOBAL_STATE.connection.workspace.getWorkspaceFolders();
 		log(`Read workspace folders: ${folders !== null ? folders.length : 'null'}`);
+		// the projects are found again, as templates may have been added or removed
+		resetProjects(GLOBAL_STATE);
+		GLOBAL_STATE.projects.setWorkspaceFolders((folders ?? []).map(folder => folder.uri));
 		if (folders) {
 			for (let n = 0; n < folders.length; n++) {
 				const folder = folders[n];
@@ -51,20 +75,65 @@ export async function loadModels() {
 		// we are done opening documents - let's process all the documents
 		// to rebuild our global state
 		log(`Document count: ${GLOBAL_STATE.documents.all().length}`);
-		GLOBAL_STATE.documents.all().forEach(async document => {
+		for (const document of GLOBAL_STATE.documents.all()) {
 			const change: TextDocumentChangeEvent<TextDocument> = { document };
-			handleConcertoDocumentChange(GLOBAL_STATE, change);
-		});
+			await handleProjectDocumentChange(GLOBAL_STATE, change);
+		}
+
+		// the model files are validated once all the models of their project are loaded
+		for (const projectState of getProjectStates(GLOBAL_STATE)) {
+			const changed = await validateProject(projectState);
+			GLOBAL_STATE.diagnostics.send(GLOBAL_STATE.connection, changed);
+		}
 	} else {
 		log('GLOBAL_STATE.connection is null');
 	}	
 }
 
+/**
+ * Downloads the external models of the projects again, updating their cache,
+ * and revalidates the model files
+ * @returns the number of external model files
+ */
+export async function refreshExternalModels(state:LanguageServerState): Promise<number> {
+	let count = 0;
+	for (const projectState of getProjectStates(state)) {
+		try {
+			count += (await updateExternalModels(projectState, projectState.root || undefined, true)).length;
+		}
+		catch (error: any) {
+			// model errors are reported when validating the model files below
+			if (!(error instanceof IllegalModelException || error instanceof TypeNotFoundException)) {
+				throw error;
+			}
+			log(`Models are invalid in ${projectState.root || 'the default project'}`);
+		}
+		const changed = validateModelFiles(projectState);
+		if (state.connection) {
+			state.diagnostics.send(state.connection, changed);
+		}
+	}
+	log(`Refreshed ${count} external models`);
+	return count;
+}
+
 export async function registerCommandHandlers(state:LanguageServerState) {
 	if (state.connection) {
-		state.connection.onRequest('concertoCompile', (event:any) => concertoCompileToTarget(GLOBAL_STATE, event));
+		state.connection.onRequest('concertoCompile', async (event:ConcertoCompileParams) => concertoCompileToTarget(await resolveProjectState(GLOBAL_STATE, event.uri), event));
+		state.connection.onRequest('concertoCompilePreview', async (event:ConcertoCompileParams) => previewCompile(await resolveProjectState(GLOBAL_STATE, event.uri), event));
 		state.connection.onRequest('concertoCompileTargets', (event:any) => concertoCompileTargets());
+		state.connection.onRequest('concertoCompileOptions', (event:{target:string}) => getCompileOptions(event.target));
+		state.connection.onRequest('concertoCompilePresets', (event:{uri:string}) => readCompilePresets(GLOBAL_STATE, event.uri));
+		state.connection.onRequest('saveConcertoCompilePreset', (event:{uri:string, name:string, preset:CompilePreset}) => saveCompilePreset(GLOBAL_STATE, event.uri, event.name, event.preset));
 		state.connection.onRequest('loadModels', (event:any) => loadModels());
+		state.connection.onRequest('externalModelSource', (event:any) => getExternalModelSource(getProjectState(GLOBAL_STATE, event.uri), event.uri));
+		state.connection.onRequest('refreshExternalModels', (event:any) => refreshExternalModels(GLOBAL_STATE));
+		state.connection.onRequest('modelGraph', async (params:ModelGraphParams) => getModelGraph(
+			params?.uri ? await resolveProjectState(GLOBAL_STATE, params.uri) : getActiveProjectState(GLOBAL_STATE), params?.namespaces));
+		state.connection.onRequest('modelDiagram', async (params:ModelDiagramParams) => getModelDiagram(
+			params.uri ? await resolveProjectState(GLOBAL_STATE, params.uri) : getActiveProjectState(GLOBAL_STATE), params));
+		state.connection.onRequest('sampleJson', async (params:SampleJsonParams) => generateSampleJson(
+			params.uri ? await resolveProjectState(GLOBAL_STATE, params.uri) : getActiveProjectState(GLOBAL_STATE), params.type));
 		// Register a new command handler for generateContent
 		state.connection.onRequest('generateContent', async (params: any) => {
 			const { modelConfig, documents, promptConfig } = params;
@@ -74,18 +143,3 @@ export async function registerCommandHandlers(state:LanguageServerState) {
 		log('state.connection is null');
 	}	
 }
-
-export async function saveInMemoryWriter(state:LanguageServerState, path:string, imw:InMemoryWriter) {
-	if (state.connection) {
-		const enc = new TextEncoder();
-		const keys:string[] = [...imw.getFilesInMemory().keys()];
-		const values:string[] = [...imw.getFilesInMemory().values()];
-		for(let n=0; n < keys.length; n++) {
-			log(`Saving file ${path}/${keys[n]}`);
-			const bytes = Array.from(enc.encode(values[n]));
-			await state.connection.sendRequest("vfs/writeFile", {path: `${path}/${keys[n]}`, content:bytes});
-		}
-	} else {
-		log('state.connection is null');
-	}	
-}
\ No newline at end of file
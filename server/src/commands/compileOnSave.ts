@@ -0,0 +1,120 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+
+import { log } from '../state';
+import { LanguageServerState } from '../types';
+import { getSettings } from '../settings';
+import { toRange } from '../documents/edits';
+import { getUserModelFiles } from '../documents/modelIndex';
+import { scanDocument } from '../documents/scanner';
+import { compileModels } from './concertoCompile';
+import { readCompilePresets } from './compileOptions';
+
+/**
+ * The notification sent to the client when the models are compiled on save
+ */
+export const COMPILE_ON_SAVE_NOTIFICATION = 'compileOnSave/status';
+
+/**
+ * The source of the diagnostics of failed compilations
+ */
+export const COMPILE_DIAGNOSTIC_SOURCE = 'compile';
+
+export type CompileOnSaveStatus = {
+	/**
+	 * The uri of the saved model
+	 */
+	uri: string;
+	status: 'compiling' | 'succeeded' | 'failed' | 'skipped';
+	message: string;
+}
+
+function sendStatus(state: LanguageServerState, status: CompileOnSaveStatus) {
+	log(status.message);
+	state.connection?.sendNotification(COMPILE_ON_SAVE_NOTIFICATION, status);
+}
+
+/**
+ * Returns true if a model file of the project, or the saved document, has syntax or model errors
+ */
+function hasModelErrors(state: LanguageServerState, uri: string): boolean {
+	const uris = new Set([uri, ...getUserModelFiles(state).map(mf => mf.getName())]);
+	return [...uris].some(u => [...state.diagnostics.diagnosticMap[u] ?? []]
+		.some(d => (d.source === 'syntax' || d.source === 'model') && d.severity === DiagnosticSeverity.Error));
+}
+
+/**
+ * Returns the range of the namespace of a document, where the compilation errors are reported
+ */
+function getNamespaceRange(state: LanguageServerState, uri: string): Range {
+	const document = state.documents.get(uri);
+	const namespace = document ? scanDocument(document).namespace : undefined;
+	return document && namespace ? toRange(document, namespace.span) : Range.create(0, 0, 0, 0);
+}
+
+/**
+ * Generates the code of the targets of the compile on save settings, once
+ * a model file is saved and the models of its project are valid. Failed targets
+ * are reported as diagnostics of the saved document, and the status of the
+ * compilation is sent to the client.
+ * @param state the language server state of the project of the document
+ * @param uri the uri of the saved document
+ */
+export async function compileOnSave(state: LanguageServerState, uri: string) {
+	const hadErrors = [...state.diagnostics.diagnosticMap[uri] ?? []].some(d => d.source === COMPILE_DIAGNOSTIC_SOURCE);
+	state.diagnostics.clearErrors(uri, COMPILE_DIAGNOSTIC_SOURCE);
+	const settings = (await getSettings(state, uri)).compile;
+	if (!settings.onSave || settings.onSaveTargets.length === 0) {
+		if (hadErrors && state.connection) {
+			state.diagnostics.send(state.connection, [uri]);
+		}
+		return;
+	}
+	if (hasModelErrors(state, uri)) {
+		sendStatus(state, { uri, status: 'skipped', message: 'The models were not compiled, as they have errors' });
+		if (hadErrors && state.connection) {
+			state.diagnostics.send(state.connection, [uri]);
+		}
+		return;
+	}
+
+	const targets = settings.onSaveTargets;
+	sendStatus(state, { uri, status: 'compiling', message: `Compiling the models to ${targets.join(', ')}` });
+	const presets = await readCompilePresets(state, uri);
+	const failed: string[] = [];
+	for (const target of targets) {
+		try {
+			await compileModels(state, { uri, ...presets[target] ?? { target } });
+		}
+		catch (error) {
+			failed.push(target);
+			const diagnostic: Diagnostic = {
+				severity: DiagnosticSeverity.Error,
+				range: getNamespaceRange(state, uri),
+				message: `Failed to compile the models to ${target}: ${(error as Error).message ?? error}`,
+				source: COMPILE_DIAGNOSTIC_SOURCE
+			};
+			state.diagnostics.addDiagnostic(uri, diagnostic);
+		}
+	}
+	if (state.connection) {
+		state.diagnostics.send(state.connection, [uri]);
+	}
+	sendStatus(state, failed.length > 0
+		? { uri, status: 'failed', message: `Failed to compile the models to ${failed.join(', ')}` }
+		: { uri, status: 'succeeded', message: `Compiled the models to ${targets.join(', ')}` });
+}
@@ -0,0 +1,189 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as path from 'path-browserify';
+import { URI, Utils } from 'vscode-uri';
+
+import { log } from '../state';
+import { LanguageServerState } from '../types';
+import { hasScheme } from '../documents/concertoHandler';
+
+/**
+ * The file of a workspace folder that stores the compilation presets
+ */
+export const COMPILE_PRESETS_FILE = '.concerto/codegen.json';
+
+/**
+ * An option of a code generator, passed to its visitor as a parameter
+ */
+export type CompileOption = {
+	name: string;
+	description: string;
+	type: 'boolean' | 'string';
+	default: boolean | string;
+}
+
+export type CompileOptionValues = Record<string, boolean | string>;
+
+/**
+ * The models that are compiled: all the models of the project, the namespace
+ * of the compiled model and the namespaces it imports, or only the namespace
+ */
+export type CompileScope = 'all' | 'dependencies' | 'namespace';
+
+/**
+ * A named compilation target, with its options and output directory
+ */
+export type CompilePreset = {
+	target: string;
+	options?: CompileOptionValues;
+	/**
+	 * The output directory, relative to the folder of the compiled model
+	 */
+	outputDirectory?: string;
+	scope?: CompileScope;
+}
+
+/**
+ * The options of the code generators, keyed by target. Targets that are not
+ * listed (such as Java or Go) have no options.
+ */
+export const COMPILE_OPTIONS: Record<string, CompileOption[]> = {
+	avro: [
+		{ name: 'avroProtocolName', description: 'The name of the Avro protocol', type: 'string', default: 'MyProtocol' }
+	],
+	csharp: [
+		{ name: 'namespacePrefix', description: 'A prefix for the C# namespaces of the models', type: 'string', default: '' },
+		{ name: 'pascalCase', description: 'Use Pascal case for the names of properties and namespaces', type: 'boolean', default: false },
+		{ name: 'useSystemTextJson', description: 'Add System.Text.Json serialization attributes, the default when Newtonsoft.Json is not used', type: 'boolean', default: false },
+		{ name: 'useNewtonsoftJson', description: 'Add Newtonsoft.Json serialization attributes', type: 'boolean', default: false },
+		{ name: 'enableReferenceType', description: 'Generate nullable reference types', type: 'boolean', default: false }
+	],
+	jsonschema: [
+		{ name: 'rootType', description: 'The fully qualified name of the root type of the schema', type: 'string', default: '' },
+		{ name: 'inlineTypes', description: 'Inline the schemas of the subtypes rather than referencing their definitions', type: 'boolean', default: false },
+		{ name: 'refRoot', description: 'The root of the references to the definitions', type: 'string', default: '#/definitions' }
+	],
+	mermaid: [
+		{ name: 'showCompositionRelationships', description: 'Draw the properties that are not primitive as composition relationships', type: 'boolean', default: true }
+	],
+	openapi: [
+		{ name: 'openApiTitle', description: 'The title of the Open API specification', type: 'string', default: 'Generated Open API from Concerto Models' },
+		{ name: 'openApiVersion', description: 'The version of the Open API specification', type: 'string', default: '1.0.0' }
+	],
+	plantuml: [
+		{ name: 'showCompositionRelationships', description: 'Draw the properties that are not primitive as composition relationships', type: 'boolean', default: true }
+	],
+	typescript: [
+		{ name: 'flattenSubclassesToUnion', description: 'Type the properties whose type has subclasses as a union of the subclasses', type: 'boolean', default: false }
+	]
+};
+
+/**
+ * Returns the options of a code generator
+ * @param target the compilation target
+ */
+export function getCompileOptions(target: string): CompileOption[] {
+	return COMPILE_OPTIONS[target] ?? [];
+}
+
+/**
+ * Combines the values of the options of a target with their defaults, ignoring
+ * the unknown options and the values of the wrong type
+ * @param target the compilation target
+ * @param values the values of the options
+ * @returns the parameters of the visitor of the target, without the file writer
+ */
+export function getCompileParameters(target: string, values: CompileOptionValues = {}): Record<string, unknown> {
+	const parameters: Record<string, unknown> = { hideBaseModel: true };
+	getCompileOptions(target).forEach(option => {
+		const value = values[option.name];
+		const valid = typeof value === option.type;
+		if (value !== undefined && !valid) {
+			log(`Ignored invalid value for option ${option.name} of ${target}: ${value}`);
+		}
+		const result = valid ? value : option.default;
+		// empty strings are the defaults of the generators
+		if (result !== '') {
+			parameters[option.name] = result;
+		}
+	});
+	Object.keys(values).filter(name => !getCompileOptions(target).some(o => o.name === name))
+		.forEach(name => log(`Ignored unknown option ${name} of ${target}`));
+	return parameters;
+}
+
+/**
+ * Returns the folder of the generated code of a target
+ * @param uri the uri of the compiled model
+ * @param outputDirectory a uri, or a path relative to the folder of the model
+ * @param target the compilation target
+ */
+export function getCompileOutput(uri: string, outputDirectory: string, target: string): URI {
+	const output = hasScheme(outputDirectory) ? URI.parse(outputDirectory) : Utils.joinPath(Utils.dirname(URI.parse(uri)), outputDirectory);
+	return Utils.joinPath(output, target);
+}
+
+function getPresetsFile(state: LanguageServerState, uri: string): string | undefined {
+	const workspaceFolder = state.projects.getWorkspaceFolder(uri);
+	if (!workspaceFolder) {
+		return undefined;
+	}
+	const folder = URI.parse(workspaceFolder);
+	return folder.with({ path: path.join(folder.path, COMPILE_PRESETS_FILE) }).toString();
+}
+
+/**
+ * Reads the compilation presets of the workspace folder of a document
+ * @param state the language server state
+ * @param uri the uri of the document
+ * @returns the presets, keyed by name
+ */
+export async function readCompilePresets(state: LanguageServerState, uri: string): Promise<Record<string, CompilePreset>> {
+	const file = getPresetsFile(state, uri);
+	if (!file || !state.connection) {
+		return {};
+	}
+	try {
+		const exists = await state.connection.sendRequest('vfs/exists', { path: file });
+		if (exists) {
+			const contents: string = await state.connection.sendRequest('vfs/readFile', { path: file });
+			return JSON.parse(contents).presets ?? {};
+		}
+	}
+	catch (error) {
+		log(`Failed to read ${file}: ${error}`);
+	}
+	return {};
+}
+
+/**
+ * Adds or replaces a compilation preset of the workspace folder of a document
+ * @param state the language server state
+ * @param uri the uri of the document
+ * @param name the name of the preset
+ * @param preset the target, options and output directory of the preset
+ * @returns the uri of the presets file
+ */
+export async function saveCompilePreset(state: LanguageServerState, uri: string, name: string, preset: CompilePreset): Promise<string> {
+	const file = getPresetsFile(state, uri);
+	if (!file || !state.connection) {
+		throw new Error('Compilation presets are saved in a workspace folder');
+	}
+	const presets = { ...await readCompilePresets(state, uri), [name]: preset };
+	const content = Array.from(new TextEncoder().encode(JSON.stringify({ presets }, null, 2)));
+	await state.connection.sendRequest('vfs/writeFile', { path: file, content });
+	return file;
+}
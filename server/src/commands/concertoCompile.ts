@@ -14,35 +14,172 @@
 'use strict';
 
 import { CodeGen } from '@accordproject/concerto-codegen';
+import { ModelFile, ModelManager } from '@accordproject/concerto-core';
 import { InMemoryWriter } from '@accordproject/concerto-util';
-import { Utils, URI } from 'vscode-uri';
 
 import { log } from '../state';
 import { LanguageServerState } from '../types';
-import { saveInMemoryWriter } from './commandHandler';
+import { getSettings } from '../settings';
+import { findModelFileByUri, getNamespaceDependencies } from '../documents/modelIndex';
+import { CompileOptionValues, CompileScope, getCompileOutput, getCompileParameters } from './compileOptions';
+import { checkGeneratedTypeScript } from './typeScriptCheck';
 
-export async function concertoCompileToTarget(state: LanguageServerState, event: any) {
-	try {
-		const visitorClass = (CodeGen.formats as any)[event.target];
-		if (visitorClass) {
-			const visitor = new visitorClass();
-			const imw = new InMemoryWriter();
-			const parameters = {
-				fileWriter: imw,
-				showCompositionRelationships: true,
-				hideBaseModel: true,
-			} as any;
-			state.modelManager.accept(visitor, parameters);
-			const uri = URI.parse(event.uri);
-			log(`Compiling CTO file ${uri.toString()}`);
-			const dir = Utils.dirname(uri);
-			const output = Utils.joinPath(dir, `/output/${event.target}`);
-			await saveInMemoryWriter(state, output.toString(), imw);
-			return `Saved ${event.target} model to ${output}`;
+/**
+ * The parameters of the concertoCompile request
+ */
+export type ConcertoCompileParams = {
+	/**
+	 * The uri of the compiled model
+	 */
+	uri: string;
+	target: string;
+	/**
+	 * The options of the code generator, which default to the options of the target
+	 */
+	options?: CompileOptionValues;
+	/**
+	 * The output directory, relative to the folder of the model, which defaults to the settings
+	 */
+	outputDirectory?: string;
+	/**
+	 * The compiled models, all the models of the project by default
+	 */
+	scope?: CompileScope;
+}
+
+export async function saveInMemoryWriter(state:LanguageServerState, path:string, imw:InMemoryWriter) {
+	if (state.connection) {
+		const enc = new TextEncoder();
+		const keys:string[] = [...imw.getFilesInMemory().keys()];
+		const values:string[] = [...imw.getFilesInMemory().values()];
+		for(let n=0; n < keys.length; n++) {
+			log(`Saving file ${path}/${keys[n]}`);
+			const bytes = Array.from(enc.encode(values[n]));
+			await state.connection.sendRequest("vfs/writeFile", {path: `${path}/${keys[n]}`, content:bytes});
 		}
-		else {
-			log(`Invalid compilation target ${event.target} to compile model`);
+	} else {
+		log('state.connection is null');
+	}	
+}
+
+/**
+ * A file generated by a preview of the compilation, which is compared to the file on disk
+ */
+export type GeneratedFile = {
+	/**
+	 * The path of the file, relative to the output directory
+	 */
+	name: string;
+	uri: string;
+	content: string;
+	status: 'added' | 'modified' | 'unchanged';
+}
+
+export type CompilePreview = {
+	target: string;
+	/**
+	 * The uri of the folder of the generated code
+	 */
+	output: string;
+	files: GeneratedFile[];
+}
+
+/**
+ * Returns the model manager of the compiled models, which only has the model
+ * files of the namespace of the compiled model (and of its dependencies) unless
+ * all the models are compiled
+ * @returns the model manager, and the namespace of the compiled model unless all the models are compiled
+ */
+function getCompiledModels(state: LanguageServerState, params: ConcertoCompileParams): { modelManager: ModelManager; namespace?: string } {
+	const scope = params.scope ?? 'all';
+	if (scope === 'all') {
+		return { modelManager: state.modelManager };
+	}
+	const modelFile = findModelFileByUri(state, params.uri);
+	if (!modelFile) {
+		throw new Error(`${params.uri} is not a valid model file`);
+	}
+	const namespace = modelFile.getNamespace();
+	const namespaces = scope === 'dependencies' ? getNamespaceDependencies(state, [namespace]) : new Set([namespace]);
+
+	// the code generators visit all the model files of a model manager
+	const modelManager = Object.create(state.modelManager);
+	modelManager.getModelFiles = (includeConcertoNamespace?: boolean): ModelFile[] => (state.modelManager as any).getModelFiles(includeConcertoNamespace)
+		.filter((mf: ModelFile) => mf.isSystemModelFile() || namespaces.has(mf.getNamespace()));
+	return { modelManager, namespace };
+}
+
+/**
+ * Generates the code of a target for the models of a project, in memory. The
+ * code of a namespace is generated in a folder of the namespace, and the
+ * generated TypeScript code is type-checked
+ * @throws an error if the target is invalid or the code cannot be generated
+ */
+async function generateCode(state: LanguageServerState, params: ConcertoCompileParams) {
+	const visitorClass = (CodeGen.formats as any)[params.target];
+	if (!visitorClass) {
+		throw new Error(`Invalid compilation target ${params.target}`);
+	}
+	const visitor = new visitorClass();
+	const imw = new InMemoryWriter();
+	const parameters = {
+		...getCompileParameters(params.target, params.options),
+		fileWriter: imw,
+	};
+	const { modelManager, namespace } = getCompiledModels(state, params);
+	modelManager.accept(visitor, parameters);
+	log(`Compiling CTO file ${params.uri}`);
+	const settings = (await getSettings(state, params.uri)).compile;
+
+	// the code of a single namespace imports the code of the namespaces it depends on
+	if (params.target === 'typescript' && settings.typeCheck && params.scope !== 'namespace') {
+		await checkGeneratedTypeScript(state, imw.getFilesInMemory());
+	}
+	const outputDirectory = params.outputDirectory ?? settings.outputDirectory;
+	const output = getCompileOutput(params.uri, outputDirectory, params.target).toString();
+	return { output: namespace ? `${output}/${namespace}` : output, imw };
+}
+
+/**
+ * Generates the code of a target for the models of a project, and saves it
+ * in the output directory
+ * @param state the language server state
+ * @param params the compiled model, the target and its options
+ * @returns the uri of the folder of the generated code
+ * @throws an error if the target is invalid or the code cannot be generated
+ */
+export async function compileModels(state: LanguageServerState, params: ConcertoCompileParams): Promise<string> {
+	const { output, imw } = await generateCode(state, params);
+	await saveInMemoryWriter(state, output, imw);
+	return output;
+}
+
+/**
+ * Generates the code of a target without saving it, and compares the
+ * generated files to the files of the output directory
+ * @param state the language server state
+ * @param params the compiled model, the target and its options
+ * @throws an error if the target is invalid or the code cannot be generated
+ */
+export async function previewCompile(state: LanguageServerState, params: ConcertoCompileParams): Promise<CompilePreview> {
+	const { output, imw } = await generateCode(state, params);
+	const files: GeneratedFile[] = [];
+	for (const [name, content] of imw.getFilesInMemory()) {
+		const uri = `${output}/${name}`;
+		let existing: string | undefined;
+		if (state.connection && await state.connection.sendRequest('vfs/exists', { path: uri })) {
+			existing = await state.connection.sendRequest('vfs/readFile', { path: uri });
 		}
+		const status = existing === undefined ? 'added' : existing === content ? 'unchanged' : 'modified';
+		files.push({ name, uri, content, status });
+	}
+	return { target: params.target, output, files };
+}
+
+export async function concertoCompileToTarget(state: LanguageServerState, event: ConcertoCompileParams) {
+	try {
+		const output = await compileModels(state, event);
+		return `Saved ${event.target} model to ${output}`;
 	} catch (e) {
 		const ee = (e as Error);
 		const stack = ee.stack ? ee.stack : 'missing';
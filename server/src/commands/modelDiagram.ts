@@ -0,0 +1,87 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { CodeGen } from '@accordproject/concerto-codegen';
+import { ModelFile } from '@accordproject/concerto-core';
+import { InMemoryWriter } from '@accordproject/concerto-util';
+
+import { LanguageServerState } from '../types';
+import { findModelFileByUri, getUserModelFiles } from '../documents/modelIndex';
+
+export type DiagramFormat = 'mermaid' | 'plantuml';
+
+/**
+ * The parameters of the modelDiagram request
+ */
+export type ModelDiagramParams = {
+	format: DiagramFormat;
+	/**
+	 * The uri of the current document, whose namespace is shown when no namespaces are given
+	 */
+	uri?: string;
+	namespaces?: string[];
+}
+
+export type ModelDiagram = {
+	format: DiagramFormat;
+	/**
+	 * The source of the diagram, in the Mermaid or PlantUML syntax
+	 */
+	source: string;
+	/**
+	 * The namespaces in the diagram
+	 */
+	namespaces: string[];
+	/**
+	 * All the namespaces of the project, to choose the namespaces to show
+	 */
+	allNamespaces: string[];
+}
+
+/**
+ * Generates a Mermaid or PlantUML class diagram of some namespaces of a project,
+ * with the diagram visitors of the code generators.
+ * @param state the language server state
+ * @param params the format, and the namespaces or the current document
+ */
+export function getModelDiagram(state: LanguageServerState, params: ModelDiagramParams): ModelDiagram {
+	const visitorClass = (CodeGen.formats as any)[params.format];
+	if (!visitorClass) {
+		throw new Error(`Invalid diagram format ${params.format}`);
+	}
+	const modelFiles = getUserModelFiles(state);
+	let namespaces = params.namespaces ?? [];
+	if (namespaces.length === 0 && params.uri) {
+		const current = findModelFileByUri(state, params.uri);
+		namespaces = current ? [current.getNamespace()] : [];
+	}
+	const shown = modelFiles.filter(mf => namespaces.includes(mf.getNamespace()));
+
+	// the visitors draw all the model files of a model manager
+	const modelManager = Object.create(state.modelManager);
+	modelManager.getModelFiles = (): ModelFile[] => shown;
+	const imw = new InMemoryWriter();
+	modelManager.accept(new visitorClass(), {
+		fileWriter: imw,
+		showCompositionRelationships: true,
+		hideBaseModel: true,
+	});
+	return {
+		format: params.format,
+		source: [...imw.getFilesInMemory().values()].join('\n'),
+		namespaces: shown.map(mf => mf.getNamespace()),
+		allNamespaces: modelFiles.map(mf => mf.getNamespace()).sort()
+	};
+}
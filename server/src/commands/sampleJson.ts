@@ -0,0 +1,50 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { Factory, ModelUtil, Serializer } from '@accordproject/concerto-core';
+
+import { LanguageServerState } from '../types';
+
+/**
+ * The parameters of the sampleJson request
+ */
+export type SampleJsonParams = {
+	/**
+	 * The uri of the document that declares the type
+	 */
+	uri?: string;
+	/**
+	 * The fully qualified name of the type
+	 */
+	type: string;
+}
+
+/**
+ * Generates a sample instance of a type, with all its optional fields
+ * @param state the language server state
+ * @param type the fully qualified name of the type
+ * @returns the sample instance, as formatted JSON
+ */
+export function generateSampleJson(state: LanguageServerState, type: string): string {
+	const factory = new Factory(state.modelManager);
+	// only the instances of identified types (assets and participants, usually) have an id
+	const id = state.modelManager.getType(type).isIdentified() ? Factory.newId() : undefined;
+	const resource = factory.newResource(ModelUtil.getNamespace(type), ModelUtil.getShortName(type), id, {
+		generate: 'sample',
+		includeOptionalFields: true
+	});
+	const json = new Serializer(factory, state.modelManager).toJSON(resource);
+	return JSON.stringify(json, null, 2);
+}
@@ -0,0 +1,129 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as ts from 'typescript';
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+
+import { log } from '../state';
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { findNamespaceDocument, locateDeclaration } from '../documents/modelIndex';
+import { scanDocument } from '../documents/scanner';
+import { typeCheck, TypeScriptError } from '../compiler/tsCompiler';
+
+/**
+ * The source of the diagnostics of the errors of the generated TypeScript code
+ */
+export const TYPESCRIPT_DIAGNOSTIC_SOURCE = 'typescript';
+
+/**
+ * Finds the generated declaration (interface, union type or enum) at an offset
+ * of a generated file, and the member at that offset
+ */
+function findGeneratedDeclaration(sourceFile: ts.SourceFile, offset: number): { name: string; member?: string } | undefined {
+	const statement = sourceFile.statements.find(s => s.getStart(sourceFile) <= offset && offset <= s.getEnd());
+	if (!statement || !(ts.isInterfaceDeclaration(statement) || ts.isEnumDeclaration(statement) || ts.isTypeAliasDeclaration(statement) || ts.isClassDeclaration(statement)) || !statement.name) {
+		return undefined;
+	}
+	const members: readonly ts.NamedDeclaration[] = ts.isTypeAliasDeclaration(statement) ? [] : statement.members;
+	const member = members.find(m => m.getStart(sourceFile) <= offset && offset <= m.getEnd());
+	return { name: statement.name.text, member: member?.name && ts.isIdentifier(member.name) ? member.name.text : undefined };
+}
+
+/**
+ * Maps an error of the generated code of a namespace to its model: to the
+ * property or declaration the code was generated from, or to the namespace
+ * @returns the uri of the model and the diagnostic, or undefined if the model is not a user model
+ */
+function toModelDiagnostic(state: LanguageServerState, namespace: string, sourceFile: ts.SourceFile, error: TypeScriptError): { uri: string; diagnostic: Diagnostic } | undefined {
+	const found = findNamespaceDocument(state, namespace);
+	if (!found || found.external) {
+		return undefined;
+	}
+	let { document } = found;
+	let range = Range.create(0, 0, 0, 0);
+	const namespaceName = scanDocument(document).namespace;
+	if (namespaceName) {
+		range = toRange(document, namespaceName.span);
+	}
+
+	// interfaces are prefixed by I, and the unions of subclasses suffixed by Union
+	const generated = findGeneratedDeclaration(sourceFile, error.start);
+	const located = generated && [generated.name, generated.name.replace(/^I/, ''), generated.name.replace(/Union$/, '')]
+		.map(name => locateDeclaration(state, namespace, name))
+		.find(l => l && !l.external);
+	if (located) {
+		document = located.document;
+		const property = located.declaration.properties.find(p => p.name?.name === generated?.member);
+		range = toRange(document, property?.name?.span ?? located.declaration.name.span);
+	}
+	return {
+		uri: document.uri,
+		diagnostic: {
+			severity: DiagnosticSeverity.Warning,
+			range,
+			message: `The generated TypeScript code has an error: ${error.message}`,
+			code: `TS${error.code}`,
+			source: TYPESCRIPT_DIAGNOSTIC_SOURCE
+		}
+	};
+}
+
+/**
+ * Type-checks the TypeScript code generated for the models, and reports
+ * its errors as diagnostics of the models, replacing the diagnostics of
+ * the previous check
+ * @param state the language server state
+ * @param files the generated files, keyed by file name
+ * @param lib the declaration files of the standard library, downloaded by default
+ */
+export async function checkGeneratedTypeScript(state: LanguageServerState, files: Map<string, string>, lib?: Map<string, string>) {
+	let errors: TypeScriptError[];
+	try {
+		errors = await typeCheck(files, lib);
+	}
+	catch (error) {
+		log(`Failed to type-check the generated TypeScript code: ${error}`);
+		return;
+	}
+
+	// only the diagnostics of the type-checked models are replaced
+	const changed = [...files.keys()]
+		.map(name => state.modelManager.getModelFile(name.replace(/\.ts$/, '')))
+		.filter(modelFile => modelFile && !modelFile.isExternal() && !modelFile.isSystemModelFile())
+		.map(modelFile => modelFile!.getName());
+	changed.forEach(uri => state.diagnostics.clearErrors(uri, TYPESCRIPT_DIAGNOSTIC_SOURCE));
+
+	const sourceFiles = new Map<string, ts.SourceFile>();
+	errors.forEach(error => {
+		let sourceFile = sourceFiles.get(error.fileName);
+		if (!sourceFile) {
+			sourceFile = ts.createSourceFile(error.fileName, files.get(error.fileName) ?? '', ts.ScriptTarget.ES2015, true);
+			sourceFiles.set(error.fileName, sourceFile);
+		}
+		const namespace = error.fileName.replace(/\.ts$/, '');
+		const mapped = toModelDiagnostic(state, namespace, sourceFile, error);
+		if (mapped) {
+			state.diagnostics.addDiagnostic(mapped.uri, mapped.diagnostic);
+			changed.push(mapped.uri);
+		}
+		else {
+			log(`Error in the generated TypeScript code of ${namespace}: ${error.message}`);
+		}
+	});
+	if (state.connection) {
+		state.diagnostics.send(state.connection, [...new Set(changed)]);
+	}
+}
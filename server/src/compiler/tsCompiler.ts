@@ -1,78 +1,88 @@
-import * as ts from "typescript";
-import * as tsvfs from "@typescript/vfs";
-import * as lzstring from "lz-string";
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
 
-import { log } from "../state";
-import { ModuleKind } from '@ts-morph/common';
+import * as ts from 'typescript';
+import * as tsvfs from '@typescript/vfs';
+import * as lzstring from 'lz-string';
 
-export async function compile(code: string) {
-  const compilerOptions: ts.CompilerOptions = {
-    target: ts.ScriptTarget.ES2015,
-    module: ModuleKind.CommonJS,
-    allowJs: false,
-    strict: true
-  };
+import { log } from '../state';
 
-  const fsMap = await tsvfs.createDefaultMapFromCDN(
-    compilerOptions,
-    ts.version,
-    false, // do not cache as localStore doesn't exist inside VSCode language server
-    ts,
-    lzstring
-  );
-  const auxCode = `// this is a file.
-  export type Thing = {
-      name:string;
-  }
+/**
+ * The options used to type-check the generated code
+ */
+export const TS_COMPILER_OPTIONS: ts.CompilerOptions = {
+	target: ts.ScriptTarget.ES2015,
+	module: ts.ModuleKind.CommonJS,
+	allowJs: false,
+	strict: true,
+	noEmit: true
+};
 
-  export function print(thing:Thing) {
-    console.log(JSON.stringify(thing));
-  }`;
-  fsMap.set('index.ts', code);
-  fsMap.set('util.ts', auxCode);
-
-  const system = tsvfs.createSystem(fsMap);
-  const env = tsvfs.createVirtualTypeScriptEnvironment(system, ["index.ts"], ts, compilerOptions);
-
-  // const host = tsvfs.createVirtualCompilerHost(system, compilerOptions, ts);
-
-  // const auxSourceFile = ts.createSourceFile('foo.ts', auxCode, ts.ScriptTarget.ES2015, /*setParentNodes */ true);
-  // host.updateFile(auxSourceFile);
-
-  // const program = ts.createProgram({
-  //   rootNames: [...fsMap.keys()],
-  //   options: compilerOptions,
-  //   host: host.compilerHost
-  // });
-
-  // This will update the fsMap with new files
-  // for the .d.ts and .js files
-  const out = env.languageService.getEmitOutput('index.ts');
-  out.outputFiles.forEach( f => log(`${f.name}: ${f.text}`));
-
-  // const emitResult = program.emit();
+/**
+ * An error of a TypeScript file
+ */
+export type TypeScriptError = {
+	fileName: string;
+	/**
+	 * The offset of the error in the file
+	 */
+	start: number;
+	length: number;
+	message: string;
+	code: number;
+}
 
-  // const allDiagnostics = ts
-  //   .getPreEmitDiagnostics(program)
-  //   .concat(emitResult.diagnostics);
+let libFiles: Promise<Map<string, string>> | undefined;
 
-  // allDiagnostics.forEach(diagnostic => {
-  //   if (diagnostic.file) {
-  //     if (!diagnostic.file.fileName.startsWith('/lib.')) {
-  //       const { line, character } = ts.getLineAndCharacterOfPosition(diagnostic.file, diagnostic.start!);
-  //       const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n");
-  //       log(`${diagnostic.file.fileName} (${line + 1},${character + 1}): ${message}`);
-  //     } else {
-  //       log(ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"));
-  //     }
-  //   }
-  // });
+/**
+ * Returns the declaration files of the standard library. They are downloaded
+ * from the CDN once, as there is no file system (or local storage to cache
+ * them) in the language server.
+ */
+function getLibFiles(): Promise<Map<string, string>> {
+	if (!libFiles) {
+		libFiles = tsvfs.createDefaultMapFromCDN(TS_COMPILER_OPTIONS, ts.version, false, ts, lzstring);
+		// download them again next time, when offline for instance
+		libFiles.catch(() => libFiles = undefined);
+	}
+	return libFiles;
+}
 
-  // const exitCode = emitResult.emitSkipped ? 1 : 0;
-  // log(`Emit exiting with code '${exitCode}'.`);
+/**
+ * Type-checks TypeScript files in a virtual TypeScript environment
+ * @param files the contents of the files, keyed by file name (relative to the root of the environment)
+ * @param lib the declaration files of the standard library, downloaded by default
+ * @returns the syntax and type errors of the files
+ */
+export async function typeCheck(files: Map<string, string>, lib?: Map<string, string>): Promise<TypeScriptError[]> {
+	const fsMap = new Map(lib ?? await getLibFiles());
+	const rootFiles = [...files.keys()].map(name => `/${name}`);
+	files.forEach((content, name) => fsMap.set(`/${name}`, content));
 
-  // // Now I can look at the AST for the .ts file too
-  // // const index = program.getSourceFile("index.ts");
-  // log(`${fsMap.get('index.js')}`);
-  // log(`${fsMap.get('util.js')}`);
+	const system = tsvfs.createSystem(fsMap);
+	const env = tsvfs.createVirtualTypeScriptEnvironment(system, rootFiles, ts, TS_COMPILER_OPTIONS);
+	const errors = rootFiles.flatMap(fileName => [
+		...env.languageService.getSyntacticDiagnostics(fileName),
+		...env.languageService.getSemanticDiagnostics(fileName)
+	].map(diagnostic => ({
+		fileName: fileName.substring(1),
+		start: diagnostic.start ?? 0,
+		length: diagnostic.length ?? 0,
+		message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+		code: diagnostic.code
+	})));
+	log(`Type-checked ${rootFiles.length} TypeScript files, found ${errors.length} errors`);
+	return errors;
 }
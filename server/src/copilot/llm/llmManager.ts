@@ -6,6 +6,7 @@ import { incorporateSuggestion } from '../utils/preparePrompt';
 import { generateCacheKey } from '../utils/cacheKeyGenerator';
 import { beautifyConcertoCode, cleanSuggestion } from '../utils/responseProcessor';
 import { handleConcertoDocumentChange } from '../../documents/concertoHandler';
+import { getProjectState } from '../../documents/projectHandler';
 import { Lock } from '../utils/lock';
 import { GLOBAL_STATE, log } from '../../state';
 import { DEFAULTS, REGEX } from '../utils/constants';
@@ -32,7 +33,8 @@ async function handleErrors(updatedContent: string, promptConfig: PromptConfig,
     const tempDocument = TextDocument.create(tempDocumentName, promptConfig.language || '', iteration + 1, updatedContent);
     const changeEvent = { document: tempDocument };
 
-    await handleConcertoDocumentChange(GLOBAL_STATE, changeEvent);
+    // the suggestion is validated in the project of the last changed document
+    await handleConcertoDocumentChange(getProjectState(GLOBAL_STATE, tempDocumentName), changeEvent);
     const errors = [...GLOBAL_STATE.diagnostics.diagnosticMap[tempDocumentName] || []];
 
     if (errors.length !== 0) {
@@ -18,8 +18,8 @@ const FULL_RANGE = {
 function getRange(error: any) {
 	if (error.fileLocation) {
 		return {
-			start: { line: error.fileLocation.start.line - 1, character: error.fileLocation.start.column },
-			end: { line: error.fileLocation.end.line - 1, character: error.fileLocation.end.column }
+			start: { line: error.fileLocation.start.line - 1, character: error.fileLocation.start.column - 1 },
+			end: { line: error.fileLocation.end.line - 1, character: error.fileLocation.end.column - 1 }
 		};
 	}
 
@@ -89,13 +89,53 @@ export class Diagnostics {
 		this.diagnosticMap[fileName].add(diagnostic);
 	}
 
+	/**
+	 * Pushes a diagnostic onto the diagnosticMap
+	 * @param fileName the uri of the file
+	 * @param diagnostic the diagnostic, with its source set to the type of the diagnostic
+	 */
+	public addDiagnostic(fileName: string, diagnostic: Diagnostic) {
+		if (!this.diagnosticMap[fileName]) {
+			this.diagnosticMap[fileName] = new Set<Diagnostic>();
+		}
+		this.diagnosticMap[fileName].add(diagnostic);
+	}
+
+	/**
+	 * Removes a file that no longer exists from the diagnosticMap,
+	 * clearing its diagnostics in the language client
+	 * @param connection the connection to the language client
+	 * @param fileName the uri of the file
+	 */
+	public removeFile(connection: Connection | null, fileName: string) {
+		if (this.diagnosticMap[fileName]) {
+			delete this.diagnosticMap[fileName];
+			connection?.sendDiagnostics({ uri: fileName, diagnostics: [] });
+		}
+	}
+
+	/**
+	 * Moves the diagnostics of a renamed file
+	 * @param connection the connection to the language client
+	 * @param oldName the previous uri of the file
+	 * @param newName the new uri of the file
+	 */
+	public renameFile(connection: Connection | null, oldName: string, newName: string) {
+		const errors = this.diagnosticMap[oldName];
+		if (errors) {
+			this.removeFile(connection, oldName);
+			this.diagnosticMap[newName] = errors;
+		}
+	}
+
 	/**
 	 * Sends the accumulated diagnostics to the language client
 	 * @param connection 
+	 * @param fileNames the uris of the files to send, all the files by default
 	 */
-	public send(connection:Connection) {
+	public send(connection:Connection, fileNames?: string[]) {
 		// send all the diagnostics we have accumulated back to the client
-		Object.keys(this.diagnosticMap).forEach((key) => {
+		(fileNames ?? Object.keys(this.diagnosticMap)).filter(key => this.diagnosticMap[key]).forEach((key) => {
 			const fileDiagnostics: Set<Diagnostic> = this.diagnosticMap[key];
 			connection.sendDiagnostics({ uri: key, diagnostics: [...fileDiagnostics] });
 		});
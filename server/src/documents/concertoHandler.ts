@@ -17,22 +17,26 @@ import * as path from 'path-browserify';
 import { URI } from 'vscode-uri';
 
 import { Parser } from '@accordproject/concerto-cto';
-import { DiagnosticSeverity, TextDocumentChangeEvent } from 'vscode-languageserver';
+import { IllegalModelException, TypeNotFoundException } from '@accordproject/concerto-core';
+import { CancellationToken, Diagnostic, FileChangeType, FileEvent, TextDocumentChangeEvent } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { LanguageServerState } from '../types';
 import { log } from '../state';
-// import { concertoCompileToTarget } from '../commands/concertoCompile';
+import { lintConcertoDocument } from '../lint/linter';
+import { EXTERNAL_MODEL_SCHEME, findModelFileByUri, getDependentNamespaces, getUserModelFiles } from './modelIndex';
+import { updateExternalModels } from './externalModelCache';
+import { forgetDocument, scanDocument } from './scanner';
+import { getDuplicateNamespaceDiagnostic, getExternalModelsDiagnostics, getModelDiagnostics, getRejectedModelDiagnostic, getSyntaxDiagnostics } from './validation';
 
 /**
  * Gets the root file path for a template, by walking up the directory hierarchy 
  * looking for a package.json file that contains the 'accordproject' key. 
+ * @param boundary the folder where the search stops, such as the workspace folder
  */
-export async function findTemplateRoot(state:LanguageServerState, uri:URI) : Promise<URI|null> {
-	const paths = path.dirname(uri.path).split('/');
-	for(let n=paths.length; n>=0; n--) {
-		const curPath = paths.slice(0,n).join('/');
-		const rootPath = `${uri.scheme}://${uri.authority}/${curPath}`;
-		const packageJson = `${rootPath}/package.json`;
+export async function findTemplateRoot(state:LanguageServerState, uri:URI, boundary?:URI) : Promise<URI|null> {
+	let folder = path.dirname(uri.path);
+	for(;;) {
+		const packageJson = uri.with({ path: path.join(folder, 'package.json') }).toString();
 		if(state.connection) {
 			const exists = await state.connection.sendRequest('vfs/exists', {path: packageJson});
 			if(exists) {
@@ -40,72 +44,295 @@ export async function findTemplateRoot(state:LanguageServerState, uri:URI) : Pro
 				try {
 					const json = JSON.parse(fileContents);
 					if(json.accordproject) {
-						return URI.parse(rootPath);
+						return uri.with({ path: folder });
 					}
 				}
 				catch(error) {
 					// ignore
 				}
 			}
-		}	
+		}
+		const parent = path.dirname(folder);
+		if(parent === folder || folder === boundary?.path) {
+			return null;
+		}
+		folder = parent;
+	}
+}
+
+/**
+ * Returns true if a document uri has a scheme. Documents without a scheme are
+ * in-memory documents, such as the suggestions of the copilot, which replace
+ * the model file of their namespace.
+ */
+export function hasScheme(uri: string) {
+	return /^[a-z][\w+.-]*:/i.test(uri);
+}
+
+/**
+ * Validates the user model files, replacing their model diagnostics
+ * @param state the language server state
+ * @param namespaces the namespaces to validate, all the namespaces by default
+ * @returns the uris of the validated model files
+ */
+export function validateModelFiles(state:LanguageServerState, namespaces?: Set<string>): string[] {
+	const modelFiles = getUserModelFiles(state).filter(mf => !mf.isExternal() && (!namespaces || namespaces.has(mf.getNamespace())));
+	modelFiles.forEach(modelFile => {
+		state.diagnostics.clearErrors(modelFile.getName(), 'model');
+		getModelDiagnostics(state, modelFile).forEach(diagnostic => state.diagnostics.addDiagnostic(modelFile.getName(), diagnostic));
+	});
+	return modelFiles.map(mf => mf.getName());
+}
+
+/**
+ * Validates all the user model files of a project, and lints the valid ones
+ * @param state the language server state, for the project
+ * @returns the uris of the validated model files
+ */
+export async function validateProject(state:LanguageServerState): Promise<string[]> {
+	const changed = validateModelFiles(state);
+	await lintModelFiles(state, changed);
+	return changed;
+}
+
+/**
+ * Lints the open documents of validated model files once they are valid (but
+ * not the suggestions of the copilot), and clears the lint diagnostics of the
+ * invalid ones
+ * @param state the language server state
+ * @param uris the uris of the validated model files
+ * @param edited the changed document, which may not be open
+ */
+async function lintModelFiles(state:LanguageServerState, uris:string[], edited?:TextDocument) {
+	for (const uri of uris) {
+		const document = uri === edited?.uri ? edited : state.documents.get(uri);
+		const modelFile = findModelFileByUri(state, uri);
+		const valid = ![...(state.diagnostics.diagnosticMap[uri] ?? [])].some(d => d.source === 'model');
+		state.diagnostics.clearErrors(uri, 'lint');
+		if (document && modelFile && valid && hasScheme(uri)) {
+			await lintConcertoDocument(state, document, modelFile);
+		}
 	}
-	return null;
 }
 
 /**
- * Handles changes to Concerto documents
+ * Returns true if a document imports external models that are not loaded
+ */
+function hasMissingExternalModels(state:LanguageServerState, document:TextDocument) {
+	return scanDocument(document).imports.some(imp => imp.uri && !state.modelManager.getModelFile(imp.namespace));
+}
+
+/**
+ * Handles changes to Concerto documents. The model files that depend on the
+ * namespace of the document are revalidated.
  * @param change the document change event
+ * @param token cancelled when the document changes again, in which case the
+ * diagnostics are not sent
  */
-export async function handleConcertoDocumentChange(state:LanguageServerState, change:TextDocumentChangeEvent<TextDocument>) {
-	if(change.document.uri.endsWith('.cto')) {
+export async function handleConcertoDocumentChange(state:LanguageServerState, change:TextDocumentChangeEvent<TextDocument>, token?:CancellationToken) {
+	// external models are shown in read-only documents, and are already loaded
+	if(change.document.uri.endsWith('.cto') && !change.document.uri.startsWith(`${EXTERNAL_MODEL_SCHEME}:`)) {
 		log(`CTO document changed: ${change.document.uri}`);
+		const uri = change.document.uri;
 		const modelText = change.document.getText();
-		try {
-			state.diagnostics.clearErrors(change.document.uri, 'model');
-			const ast: any = Parser.parse(modelText, change.document.uri);
-	
-			if (state.modelManager.getModelFile(ast.namespace)) {
-				state.modelManager.updateModelFile(modelText, change.document.uri, true);
-				log(`Updated namespace: ${ast.namespace}`);
+		const changed = [uri];
+		state.diagnostics.clearErrors(uri, 'syntax');
+		state.diagnostics.clearErrors(uri, 'model');
+		state.diagnostics.clearErrors(uri, 'lint');
+
+		const syntaxErrors = getSyntaxDiagnostics(change.document);
+		if (syntaxErrors.length > 0) {
+			syntaxErrors.forEach(diagnostic => state.diagnostics.addDiagnostic(uri, diagnostic));
+			log(`Found ${syntaxErrors.length} syntax errors in ${uri}`);
+		}
+		else {
+			const ast: any = Parser.parse(modelText, uri);
+			const impacted = [ast.namespace];
+			let rejected: Diagnostic | undefined;
+			const duplicate = hasScheme(uri) ? getDuplicateNamespaceDiagnostic(state, change.document, ast.namespace) : undefined;
+			if (duplicate) {
+				state.diagnostics.addDiagnostic(uri, duplicate);
 			}
 			else {
-				state.modelManager.addCTOModel(modelText, change.document.uri, true);
-				log(`Added namespace: ${ast.namespace}`);
-			}
-			try {
-				await state.modelManager.updateExternalModels();
-				log(`Models are valid with changes to ${change.document.uri}`);
-				// const root = await findTemplateRoot(state,  URI.parse(change.document.uri));
-				// if(root) {
-				// 	log(JSON.stringify(root));
-				// 	const tsOutput = root.with({path: `${root.path}/logic`});
-				// 	await concertoCompileToTarget(state, {uri: tsOutput, target: 'typescript'});
-				// 	log('Converted template model to Typescript');
-				// }
-				// else {
-				// 	log('Did not convert model to Typescript (outside project folder)');
-				// }
-			}
-			catch (error: any) {
-				if(!state.isLoading) {
-					// we may be offline? Validate without external models
-					state.modelManager.validateModelFiles();
-					state.diagnostics.pushDiagnostic(DiagnosticSeverity.Warning, change.document, error, 'model');
+				// the document may have declared another namespace before this change
+				getUserModelFiles(state)
+					.filter(mf => mf.getName() === uri && mf.getNamespace() !== ast.namespace)
+					.forEach(mf => {
+						impacted.push(mf.getNamespace());
+						state.modelManager.deleteModelFile(mf.getNamespace());
+					});
+
+				try {
+					if (state.modelManager.getModelFile(ast.namespace)) {
+						state.modelManager.updateModelFile(modelText, uri, true);
+						log(`Updated namespace: ${ast.namespace}`);
+					}
+					else {
+						state.modelManager.addCTOModel(modelText, uri, true);
+						log(`Added namespace: ${ast.namespace}`);
+					}
 				}
-				else {
-					log(`Ignored model validation error while initializing ${change.document.uri}`);
+				catch (error: any) {
+					// the model parses, but is rejected by the model manager
+					log(`Rejected namespace ${ast.namespace}: ${error.message}`);
+					rejected = getRejectedModelDiagnostic(change.document, error);
+					state.diagnostics.addDiagnostic(uri, rejected);
+				}
+				// only download the external models when they are missing
+				if (!rejected && hasMissingExternalModels(state, change.document)) {
+					try {
+						await updateExternalModels(state, uri);
+						log(`Models are valid with changes to ${uri}`);
+					}
+					catch (error: any) {
+						// model errors are reported when validating the model files below
+						if (error instanceof IllegalModelException || error instanceof TypeNotFoundException) {
+							log(`Models are invalid with changes to ${uri}`);
+						}
+						else if(!state.isLoading) {
+							// we may be offline, without a cached or pinned model? Validate without external models
+							log(`Failed to update the external models: ${error.message}`);
+							getExternalModelsDiagnostics(change.document, error).forEach(diagnostic => state.diagnostics.addDiagnostic(uri, diagnostic));
+						}
+					}
 				}
 			}
-		}
-		catch (error: any) {
+			if (token?.isCancellationRequested) {
+				log(`Cancelled the validation of ${uri}`);
+				return;
+			}
 			if(!state.isLoading) {
-				state.diagnostics.pushDiagnostic(DiagnosticSeverity.Error, change.document, error, 'model');	
+				changed.push(...validateModelFiles(state, getDependentNamespaces(state, impacted)));
+				if (rejected) {
+					// the previous version of the namespace may have been validated instead
+					state.diagnostics.clearErrors(uri, 'model');
+					state.diagnostics.addDiagnostic(uri, rejected);
+				}
+				// the usages of the declarations of the dependents may have changed too
+				await lintModelFiles(state, [...new Set(changed)], change.document);
 			}
 			else {
-				log(`Ignored model validation error while initializing ${change.document.uri}`);
+				log(`Ignored model validation while initializing ${uri}`);
 			}
 		}
-	
-		state.diagnostics.send(state.connection!);
+
+		if (token?.isCancellationRequested) {
+			log(`Cancelled the validation of ${uri}`);
+			return;
+		}
+		state.diagnostics.send(state.connection!, [...new Set(changed)]);
 	}
-}
\ No newline at end of file
+}
+
+/**
+ * Returns true if a file is the file or folder of a uri, or is in that folder
+ */
+export function isSameOrChild(fileName:string, uri:string) {
+	return fileName === uri || fileName.startsWith(uri.endsWith('/') ? uri : `${uri}/`);
+}
+
+/**
+ * Revalidates the model files that depend on namespaces, and sends their diagnostics
+ */
+function revalidate(state:LanguageServerState, namespaces:string[]) {
+	if (namespaces.length > 0 && !state.isLoading) {
+		const changed = validateModelFiles(state, getDependentNamespaces(state, namespaces));
+		state.diagnostics.send(state.connection!, changed);
+	}
+}
+
+/**
+ * Handles deleted files (or folders), removing their namespaces from the
+ * model manager and their diagnostics
+ * @param state the language server state
+ * @param uris the uris of the deleted files
+ */
+export async function handleDeletedFiles(state:LanguageServerState, uris:string[]) {
+	const namespaces: string[] = [];
+	uris.forEach(uri => {
+		getUserModelFiles(state)
+			.filter(mf => !mf.isExternal() && isSameOrChild(mf.getName(), uri))
+			.forEach(mf => {
+				namespaces.push(mf.getNamespace());
+				state.modelManager.deleteModelFile(mf.getNamespace());
+				log(`Removed namespace: ${mf.getNamespace()}`);
+			});
+		Object.keys(state.diagnostics.diagnosticMap)
+			.filter(fileName => isSameOrChild(fileName, uri))
+			.forEach(fileName => {
+				state.diagnostics.removeFile(state.connection, fileName);
+				forgetDocument(fileName);
+			});
+	});
+	revalidate(state, namespaces);
+
+	// the namespaces of the deleted files may be declared by other documents
+	const duplicates = state.documents.all().filter(d => [...(state.diagnostics.diagnosticMap[d.uri] ?? [])].some(e => e.code === 'duplicate-namespace'));
+	for (const document of duplicates) {
+		await handleConcertoDocumentChange(state, { document });
+	}
+}
+
+/**
+ * Handles renamed files (or folders), moving their model files and diagnostics
+ * to their new uri
+ * @param state the language server state
+ * @param files the old and new uris of the renamed files
+ */
+export function handleRenamedFiles(state:LanguageServerState, files:{ oldUri:string; newUri:string }[]) {
+	const namespaces: string[] = [];
+	files.forEach(({ oldUri, newUri }) => {
+		getUserModelFiles(state)
+			.filter(mf => !mf.isExternal() && isSameOrChild(mf.getName(), oldUri))
+			.forEach(mf => {
+				const fileName = newUri + mf.getName().substring(oldUri.length);
+				namespaces.push(mf.getNamespace());
+				state.modelManager.deleteModelFile(mf.getNamespace());
+				state.modelManager.addCTOModel(mf.getDefinitions()!, fileName, true);
+				log(`Moved namespace ${mf.getNamespace()} to ${fileName}`);
+			});
+		Object.keys(state.diagnostics.diagnosticMap)
+			.filter(fileName => isSameOrChild(fileName, oldUri))
+			.forEach(fileName => {
+				state.diagnostics.renameFile(state.connection, fileName, newUri + fileName.substring(oldUri.length));
+				forgetDocument(fileName);
+			});
+	});
+	revalidate(state, namespaces);
+}
+
+/**
+ * The version of the documents read from files that are not open
+ */
+let fileVersion = 0;
+
+/**
+ * Handles changes to watched files, made outside of the editor (e.g. by git)
+ * @param state the language server state
+ * @param changes the file events
+ */
+export async function handleWatchedFilesChange(state:LanguageServerState, changes:FileEvent[]) {
+	const deleted = changes.filter(c => c.type === FileChangeType.Deleted).map(c => c.uri);
+	if (deleted.length > 0) {
+		await handleDeletedFiles(state, deleted);
+	}
+	for (const change of changes.filter(c => c.type !== FileChangeType.Deleted && c.uri.endsWith('.cto'))) {
+		// open documents are kept in sync by the editor
+		if (state.documents.get(change.uri) || !state.connection) {
+			continue;
+		}
+		try {
+			const text: string = await state.connection.sendRequest('vfs/readFile', { path: change.uri });
+			const modelFile = findModelFileByUri(state, change.uri);
+			if (modelFile && modelFile.getDefinitions() === text) {
+				continue;
+			}
+			forgetDocument(change.uri);
+			log(`Reloading ${change.uri}`);
+			await handleConcertoDocumentChange(state, { document: TextDocument.create(change.uri, 'concerto', ++fileVersion, text) });
+		}
+		catch (error) {
+			log(`Failed to reload ${change.uri}: ${error}`);
+		}
+	}
+}
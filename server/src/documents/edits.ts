@@ -0,0 +1,98 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as Diff from 'diff';
+import { Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ScannedModel, TextSpan } from './scanner';
+
+/**
+ * Converts a span of offsets to an LSP range
+ * @param document the text document
+ * @param span the span
+ */
+export function toRange(document: TextDocument, span: TextSpan): Range {
+	return {
+		start: document.positionAt(span.start),
+		end: document.positionAt(span.end)
+	};
+}
+
+/**
+ * Creates an edit that imports a type into a document. If the document already
+ * imports types from the namespace using braces, the type is added to that import,
+ * otherwise a new import is added after the last import (or the namespace).
+ *
+ * @param document the text document
+ * @param model the scanned document
+ * @param namespace the namespace of the type
+ * @param name the name of the type
+ * @returns the edit, or undefined if the document has no namespace
+ */
+export function createAddImportEdit(document: TextDocument, model: ScannedModel, namespace: string, name: string): TextEdit | undefined {
+	const existing = model.imports.find(i => i.namespace === namespace && !i.wildcard && i.types.length > 0);
+	if (existing && document.getText().substring(existing.namespaceSpan.end, existing.namespaceSpan.end + 2) === '.{') {
+		const last = existing.types[existing.types.length - 1];
+		const position = document.positionAt(existing.aliases[last.name]?.span.end ?? last.span.end);
+		return TextEdit.insert(position, `, ${name}`);
+	}
+
+	const anchor = model.imports.length > 0
+		? model.imports[model.imports.length - 1].span
+		: model.namespace?.span;
+	if (!anchor) {
+		return undefined;
+	}
+	const end = document.positionAt(anchor.end);
+	const prefix = model.imports.length > 0 ? '\n' : '\n\n';
+	return TextEdit.insert(end, `${prefix}import ${namespace}.${name}`);
+}
+
+/**
+ * Computes the edits that transform a document into a new text, replacing
+ * the lines that changed
+ * @param document the text document
+ * @param newText the new text of the document
+ * @returns the edits, in document order
+ */
+export function getLineEdits(document: TextDocument, newText: string): TextEdit[] {
+	const edits: TextEdit[] = [];
+	let offset = 0;
+	let edit: { start: number; end: number; newText: string } | undefined;
+	const flush = () => {
+		if (edit) {
+			edits.push(TextEdit.replace({ start: document.positionAt(edit.start), end: document.positionAt(edit.end) }, edit.newText));
+			edit = undefined;
+		}
+	};
+	// the removed and added lines of a change are replaced in one edit
+	Diff.diffLines(document.getText(), newText).forEach(change => {
+		if (!change.added && !change.removed) {
+			flush();
+			offset += change.value.length;
+			return;
+		}
+		edit = edit ?? { start: offset, end: offset, newText: '' };
+		if (change.removed) {
+			offset += change.value.length;
+			edit.end = offset;
+		}
+		else {
+			edit.newText += change.value;
+		}
+	});
+	flush();
+	return edits;
+}
@@ -0,0 +1,307 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as path from 'path-browserify';
+import { URI } from 'vscode-uri';
+
+import { Parser } from '@accordproject/concerto-cto';
+import { DefaultFileLoader, FileDownloader } from '@accordproject/concerto-util';
+import { LanguageServerState } from '../types';
+import { ExternalModelSettings, getSettings } from '../settings';
+import { log } from '../state';
+
+/**
+ * The folder of the cache, when it is stored in the workspace folder
+ */
+export const WORKSPACE_CACHE_FOLDER = '.concerto/models';
+
+/**
+ * The file of the cache that maps the urls to the cached model files
+ */
+export const CACHE_INDEX_FILE = 'index.json';
+
+/**
+ * A model file, as loaded by the file loaders of Concerto
+ */
+export type ExternalModelFile = {
+	ast: any;
+	definitions: string;
+	fileName: string;
+}
+
+/**
+ * A cached external model. The name of the file is the versioned
+ * namespace of the model, so the cache is keyed by url and version.
+ */
+export type CacheEntry = {
+	namespace: string;
+	file: string;
+	downloaded: string;
+}
+
+/**
+ * The cached external models, keyed by url
+ */
+export type CacheIndex = Record<string, CacheEntry>;
+
+/**
+ * Loads the model file at a url
+ */
+export type FileLoader = {
+	load(url: string, options?: any): Promise<ExternalModelFile>;
+}
+
+/**
+ * The storage folder of the extension, sent by the client when it initializes the server
+ */
+let extensionStorageUri: string | undefined;
+
+/**
+ * Sets the storage folder of the extension, where the external models are cached by default
+ * @param uri the uri of the folder
+ */
+export function setExtensionStorageUri(uri: string | undefined) {
+	extensionStorageUri = uri;
+}
+
+function processFile(name: string, data: string): ExternalModelFile {
+	return { ast: Parser.parse(data, name), definitions: data, fileName: name };
+}
+
+/**
+ * Returns the urls of the external imports of a model file
+ */
+function getExternalImports(file: ExternalModelFile): Record<string, string> {
+	const uris: Record<string, string> = {};
+	(file.ast.imports ?? []).filter((imp: any) => imp.uri).forEach((imp: any) => {
+		uris[imp.namespace] = imp.uri;
+	});
+	return uris;
+}
+
+/**
+ * Returns the name of the model file downloaded from a url. As with the
+ * file loaders of Concerto, the names of external model files start with @.
+ */
+function getExternalFileName(url: string) {
+	const uri = URI.parse(url);
+	return `@${uri.authority}${uri.path}`.replace(/\//g, '.');
+}
+
+function joinUri(base: string, ...segments: string[]) {
+	const uri = URI.parse(base);
+	return uri.with({ path: path.join(uri.path, ...segments) }).toString();
+}
+
+async function readFile(state: LanguageServerState, uri: string): Promise<string | undefined> {
+	if (!state.connection) {
+		return undefined;
+	}
+	try {
+		const exists = await state.connection.sendRequest('vfs/exists', { path: uri });
+		return exists ? await state.connection.sendRequest('vfs/readFile', { path: uri }) as string : undefined;
+	}
+	catch (error) {
+		log(`Failed to read ${uri}: ${error}`);
+		return undefined;
+	}
+}
+
+async function writeFile(state: LanguageServerState, uri: string, text: string) {
+	if (state.connection) {
+		const content = Array.from(new TextEncoder().encode(text));
+		await state.connection.sendRequest('vfs/writeFile', { path: uri, content });
+	}
+}
+
+/**
+ * Loads external models from their pinned local copy, or downloads them and
+ * caches them. The cached models are used when they cannot be downloaded
+ * (when offline), unless the models are refreshed.
+ */
+export class ExternalModelLoader {
+
+	private index: Promise<CacheIndex> | undefined;
+	private updated = false;
+
+	/**
+	 * @param state the language server state
+	 * @param cacheFolder the uri of the cache folder, or undefined to disable the cache
+	 * @param pinned the uris of the local copies of the external models, keyed by url
+	 * @param refresh true to fail rather than use the cache when a model cannot be downloaded
+	 * @param fileLoader the loader that downloads the models
+	 */
+	public constructor(
+		private state: LanguageServerState,
+		private cacheFolder: string | undefined,
+		private pinned: Record<string, string> = {},
+		private refresh = false,
+		private fileLoader: FileLoader = new DefaultFileLoader(processFile)) {
+	}
+
+	/**
+	 * Loads the model file at a url
+	 * @param url the url of the model
+	 * @param options the options of the file loader
+	 */
+	public async load(url: string, options?: any): Promise<ExternalModelFile> {
+		const pinned = this.pinned[url];
+		if (pinned) {
+			// pinned models are named after their local copy, like the other files of the workspace
+			const text = await readFile(this.state, pinned);
+			if (text === undefined) {
+				throw new Error(`Failed to read ${pinned}, the pinned model of ${url}`);
+			}
+			return processFile(pinned, text);
+		}
+		try {
+			const file = await this.fileLoader.load(url, options);
+			await this.store(url, file);
+			return file;
+		}
+		catch (error: any) {
+			const cached = this.refresh ? undefined : await this.lookup(url);
+			if (!cached) {
+				throw error;
+			}
+			log(`Using the cached model of ${url}: ${error.message ?? error}`);
+			return cached;
+		}
+	}
+
+	/**
+	 * Writes the index of the cache, if models were cached
+	 */
+	public async saveIndex() {
+		if (this.cacheFolder && this.updated) {
+			try {
+				await writeFile(this.state, joinUri(this.cacheFolder, CACHE_INDEX_FILE), JSON.stringify(await this.readIndex(), null, 2));
+				this.updated = false;
+			}
+			catch (error) {
+				log(`Failed to write the index of the external model cache: ${error}`);
+			}
+		}
+	}
+
+	private readIndex(): Promise<CacheIndex> {
+		if (!this.index) {
+			this.index = (async () => {
+				const text = this.cacheFolder ? await readFile(this.state, joinUri(this.cacheFolder, CACHE_INDEX_FILE)) : undefined;
+				try {
+					return text ? JSON.parse(text) : {};
+				}
+				catch (error) {
+					log(`Ignored the invalid index of the external model cache: ${error}`);
+					return {};
+				}
+			})();
+		}
+		return this.index;
+	}
+
+	private async store(url: string, file: ExternalModelFile) {
+		if (!this.cacheFolder || !file.definitions) {
+			return;
+		}
+		const namespace: string = file.ast.namespace;
+		const entry = { namespace, file: `${namespace}.cto`, downloaded: new Date().toISOString() };
+		try {
+			await writeFile(this.state, joinUri(this.cacheFolder, entry.file), file.definitions);
+			(await this.readIndex())[url] = entry;
+			this.updated = true;
+		}
+		catch (error) {
+			log(`Failed to cache the model of ${url}: ${error}`);
+		}
+	}
+
+	private async lookup(url: string): Promise<ExternalModelFile | undefined> {
+		const entry = this.cacheFolder ? (await this.readIndex())[url] : undefined;
+		const text = entry ? await readFile(this.state, joinUri(this.cacheFolder!, entry.file)) : undefined;
+		return text !== undefined ? processFile(getExternalFileName(url), text) : undefined;
+	}
+}
+
+/**
+ * Creates the downloader of the external models of the model manager
+ * @param loader the loader of the models
+ */
+export function createExternalModelDownloader(loader: ExternalModelLoader): FileDownloader {
+	return new FileDownloader(loader, getExternalImports);
+}
+
+/**
+ * Returns the uri of the workspace folder of a document, or of the first workspace folder
+ */
+async function getWorkspaceFolder(state: LanguageServerState, uri?: string): Promise<string | undefined> {
+	const folders = await state.connection?.workspace.getWorkspaceFolders() ?? [];
+	const containing = folders
+		.filter(folder => uri === folder.uri || uri?.startsWith(folder.uri.endsWith('/') ? folder.uri : `${folder.uri}/`))
+		.sort((a, b) => b.uri.length - a.uri.length);
+	return (containing[0] ?? folders[0])?.uri;
+}
+
+/**
+ * Returns the uri of the cache folder, or undefined if there is no folder to store the cache
+ */
+function getCacheFolder(settings: ExternalModelSettings, workspaceFolder?: string): string | undefined {
+	if (settings.cacheLocation === 'workspace') {
+		return workspaceFolder ? joinUri(workspaceFolder, WORKSPACE_CACHE_FOLDER) : undefined;
+	}
+	return extensionStorageUri ? joinUri(extensionStorageUri, 'models') : undefined;
+}
+
+/**
+ * Resolves the local copies of the pinned external models
+ * @param pinned the paths or uris of the local copies, keyed by url
+ * @param workspaceFolder the uri of the workspace folder, to resolve relative paths
+ */
+export function resolvePinnedModels(pinned: Record<string, string>, workspaceFolder?: string): Record<string, string> {
+	const resolved: Record<string, string> = {};
+	Object.entries(pinned).forEach(([url, file]) => {
+		if (/^[a-z][\w+.-]*:/i.test(file)) {
+			resolved[url] = file;
+		}
+		else if (workspaceFolder) {
+			resolved[url] = joinUri(workspaceFolder, file);
+		}
+		else {
+			log(`Ignored the pinned model of ${url}, ${file} is relative and there is no workspace folder`);
+		}
+	});
+	return resolved;
+}
+
+/**
+ * Loads the external models imported by the model files, using their pinned
+ * local copies and the cache of the external models
+ * @param state the language server state
+ * @param uri the uri of the changed document, for folder specific settings
+ * @param refresh true to download all the models again rather than use the cache
+ * @returns the external model files
+ */
+export async function updateExternalModels(state: LanguageServerState, uri?: string, refresh = false) {
+	const settings = (await getSettings(state, uri)).externalModels;
+	const workspaceFolder = await getWorkspaceFolder(state, uri);
+	const loader = new ExternalModelLoader(state, getCacheFolder(settings, workspaceFolder),
+		resolvePinnedModels(settings.pinned, workspaceFolder), refresh);
+	try {
+		return await state.modelManager.updateExternalModels(undefined, createExternalModelDownloader(loader));
+	}
+	finally {
+		await loader.saveIndex();
+	}
+}
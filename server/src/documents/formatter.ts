@@ -0,0 +1,391 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { Parser } from '@accordproject/concerto-cto';
+
+import { scan, ScannedDeclaration, TextSpan } from './scanner';
+import { Token } from './tokenizer';
+
+/**
+ * The options of the formatter
+ */
+export type FormatOptions = {
+	/**
+	 * The indentation of properties, e.g. four spaces or a tab
+	 */
+	indent: string;
+	sortImports: boolean;
+	blankLinesBetweenDeclarations: number;
+}
+
+/**
+ * The comments attached to a list of items (imports, declarations or properties)
+ */
+type AttachedComments = {
+	leading: Token[][];
+	trailing: Token[][];
+	inner: Token[][];
+	/**
+	 * Comments after the last item
+	 */
+	dangling: Token[];
+}
+
+const MM = 'concerto.metamodel@1.0.0';
+
+const DECLARATION_KEYWORDS: Record<string, string> = {
+	[`${MM}.ConceptDeclaration`]: 'concept',
+	[`${MM}.AssetDeclaration`]: 'asset',
+	[`${MM}.ParticipantDeclaration`]: 'participant',
+	[`${MM}.TransactionDeclaration`]: 'transaction',
+	[`${MM}.EventDeclaration`]: 'event',
+	[`${MM}.EnumDeclaration`]: 'enum',
+	[`${MM}.MapDeclaration`]: 'map',
+};
+
+/**
+ * Returns the primitive type of a property, scalar or map entry, from its $class
+ * e.g. concerto.metamodel@1.0.0.StringMapKeyType is a String
+ */
+function getPrimitiveType(node: any): string | undefined {
+	const match = /\.(String|Boolean|DateTime|Double|Integer|Long)(Property|Scalar|MapKeyType|MapValueType)$/.exec(node.$class);
+	return match ? match[1] : undefined;
+}
+
+function printString(value: string) {
+	return JSON.stringify(value);
+}
+
+function printNumber(value: number, isDouble: boolean) {
+	return isDouble && Number.isInteger(value) ? `${value}.0` : `${value}`;
+}
+
+function isDefined(value: any) {
+	return value !== undefined && value !== null;
+}
+
+function printDecorator(decorator: any): string {
+	if (!decorator.arguments) {
+		return `@${decorator.name}`;
+	}
+	const args = decorator.arguments.map((arg: any) => {
+		switch (arg.$class) {
+		case `${MM}.DecoratorString`:
+			return printString(arg.value);
+		case `${MM}.DecoratorTypeReference`:
+			return `${arg.type.name}${arg.isArray ? '[]' : ''}`;
+		default:
+			return `${arg.value}`;
+		}
+	});
+	return `@${decorator.name}(${args.join(', ')})`;
+}
+
+/**
+ * Prints the default value, validators and optional modifier of a property or scalar
+ */
+function printModifiers(node: any): string[] {
+	const type = getPrimitiveType(node);
+	const isDouble = type === 'Double';
+	const result: string[] = [];
+	if (isDefined(node.defaultValue)) {
+		result.push(`default=${typeof node.defaultValue === 'string' ? printString(node.defaultValue) : typeof node.defaultValue === 'number' ? printNumber(node.defaultValue, isDouble) : node.defaultValue}`);
+	}
+	if (node.validator) {
+		if (node.validator.$class === `${MM}.StringRegexValidator`) {
+			result.push(`regex=/${node.validator.pattern}/${node.validator.flags ?? ''}`);
+		}
+		else {
+			const lower = isDefined(node.validator.lower) ? printNumber(node.validator.lower, isDouble) : '';
+			const upper = isDefined(node.validator.upper) ? printNumber(node.validator.upper, isDouble) : '';
+			result.push(`range=[${lower},${upper}]`);
+		}
+	}
+	if (node.lengthValidator) {
+		const min = isDefined(node.lengthValidator.minLength) ? node.lengthValidator.minLength : '';
+		const max = isDefined(node.lengthValidator.maxLength) ? node.lengthValidator.maxLength : '';
+		result.push(`length=[${min},${max}]`);
+	}
+	if (node.isOptional) {
+		result.push('optional');
+	}
+	return result;
+}
+
+function printImport(imp: any, sortTypes: boolean): string {
+	let result = `import ${imp.namespace}.`;
+	switch (imp.$class) {
+	case `${MM}.ImportAll`:
+		result += '*';
+		break;
+	case `${MM}.ImportTypes`: {
+		const aliases: Record<string, string> = {};
+		(imp.aliasedTypes ?? []).forEach((a: any) => aliases[a.name] = a.aliasedName);
+		const types = sortTypes ? [...imp.types].sort() : imp.types;
+		result += `{${types.map((t: string) => aliases[t] ? `${t} as ${aliases[t]}` : t).join(', ')}}`;
+		break;
+	}
+	default:
+		result += imp.name;
+		break;
+	}
+	return imp.uri ? `${result} from ${imp.uri}` : result;
+}
+
+/**
+ * Prints the header of a declaration, e.g. abstract asset Car identified by vin extends Vehicle
+ */
+function printDeclarationHeader(declaration: any): string {
+	if (!DECLARATION_KEYWORDS[declaration.$class]) {
+		const parts = [`scalar ${declaration.name} extends ${getPrimitiveType(declaration)}`, ...printModifiers(declaration)];
+		return parts.join(' ');
+	}
+	const parts = [
+		declaration.isAbstract ? 'abstract' : undefined,
+		DECLARATION_KEYWORDS[declaration.$class],
+		declaration.name,
+		declaration.identified ? (declaration.identified.name ? `identified by ${declaration.identified.name}` : 'identified') : undefined,
+		declaration.superType ? `extends ${declaration.superType.name}` : undefined,
+		'{'
+	];
+	return parts.filter(p => p).join(' ');
+}
+
+/**
+ * Attaches comments to the items they precede or follow. Comments on the same
+ * line as the end of an item trail the item, comments within an item are inner
+ * comments, and other comments lead the next item.
+ */
+function attachComments(text: string, comments: Token[], items: TextSpan[]): AttachedComments {
+	const result: AttachedComments = {
+		leading: items.map(() => []),
+		trailing: items.map(() => []),
+		inner: items.map(() => []),
+		dangling: []
+	};
+	comments.forEach(comment => {
+		const inner = items.findIndex(item => comment.start >= item.start && comment.end <= item.end);
+		if (inner >= 0) {
+			result.inner[inner].push(comment);
+			return;
+		}
+		let previous = -1;
+		items.forEach((item, n) => {
+			if (item.end <= comment.start && (previous < 0 || item.end >= items[previous].end)) {
+				previous = n;
+			}
+		});
+		if (previous >= 0 && !text.substring(items[previous].end, comment.start).includes('\n')) {
+			result.trailing[previous].push(comment);
+			return;
+		}
+		const next = items.findIndex(item => item.start >= comment.end);
+		if (next >= 0) {
+			result.leading[next].push(comment);
+		}
+		else {
+			result.dangling.push(comment);
+		}
+	});
+	return result;
+}
+
+/**
+ * Builds the lines of the formatted document
+ */
+class Printer {
+	lines: string[] = [];
+
+	constructor(private text: string) {}
+
+	/**
+	 * Adds a comment, keeping the relative indentation of the lines of block comments
+	 */
+	comment(comment: Token, indent: string) {
+		const lineStart = this.text.lastIndexOf('\n', comment.start - 1) + 1;
+		const column = comment.start - lineStart;
+		comment.text.split('\n').forEach((line, n) => {
+			if (n === 0) {
+				this.lines.push(`${indent}${line.trimEnd()}`);
+			}
+			else {
+				const whitespace = /^\s*/.exec(line)![0].length;
+				this.lines.push(`${indent}${line.substring(Math.min(whitespace, column)).trimEnd()}`.trimEnd());
+			}
+		});
+	}
+
+	comments(comments: Token[], indent: string) {
+		comments.forEach(c => this.comment(c, indent));
+	}
+
+	/**
+	 * Adds a line, followed by the comments trailing it
+	 */
+	line(line: string, trailing: Token[] = [], indent = '') {
+		if (trailing.length === 0) {
+			this.lines.push(line);
+			return;
+		}
+		const [first, ...others] = trailing;
+		const firstLines = first.text.split('\n');
+		this.lines.push(`${line} ${firstLines[0].trimEnd()}`);
+		if (firstLines.length > 1) {
+			this.comment({ ...first, text: firstLines.slice(1).join('\n'), start: first.start }, indent);
+		}
+		this.comments(others, indent);
+	}
+
+	blank(count = 1) {
+		if (this.lines.length === 0) {
+			return;
+		}
+		while (this.lines.length > 0 && this.lines[this.lines.length - 1] === '') {
+			this.lines.pop();
+		}
+		for (let n = 0; n < count; n++) {
+			this.lines.push('');
+		}
+	}
+}
+
+/**
+ * Prints the properties (or map entries) of a declaration, with their comments, aligning
+ * the names and the modifiers of fields
+ */
+function printBody(printer: Printer, text: string, ast: any, scanned: ScannedDeclaration, comments: Token[], options: FormatOptions, headerTrailing: Token[], closingTrailing: Token[]) {
+	const isMap = ast.$class === `${MM}.MapDeclaration`;
+	const properties: any[] = isMap ? [ast.key, ast.value] : ast.properties;
+	const attached = attachComments(text, comments, scanned.properties.map(p => p.span));
+
+	const rows = properties.map(property => {
+		if (property.$class === `${MM}.EnumProperty`) {
+			return { prefix: `o ${property.name}`, name: '', modifiers: [] as string[] };
+		}
+		const isRelationship = property.$class === `${MM}.RelationshipProperty` || property.$class === `${MM}.RelationshipMapValueType`;
+		const type = getPrimitiveType(property) ?? property.type?.name;
+		const prefix = `${isRelationship ? '-->' : 'o'} ${type}${property.isArray ? '[]' : ''}`;
+		return { prefix, name: isMap ? '' : property.name, modifiers: isMap ? [] : printModifiers(property) };
+	});
+	const named = rows.filter(r => r.name);
+	const prefixWidth = Math.max(0, ...named.map(r => r.prefix.length));
+	const nameWidth = Math.max(0, ...named.filter(r => r.modifiers.length > 0).map(r => r.name.length));
+
+	printer.line(printDeclarationHeader(ast), headerTrailing, options.indent);
+	properties.forEach((property, n) => {
+		const span = scanned.properties[n].span;
+		const previousEnd = n === 0 ? scanned.body!.start : Math.max(scanned.properties[n - 1].span.end, ...attached.trailing[n - 1].map(c => c.end));
+		const firstStart = Math.min(span.start, ...attached.leading[n].map(c => c.start));
+		// keep a blank line between groups of properties
+		if (n > 0 && /\n[^\S\n]*\n/.test(text.substring(previousEnd, firstStart))) {
+			printer.blank();
+		}
+		printer.comments([...attached.leading[n], ...attached.inner[n]], options.indent);
+		(property.decorators ?? []).forEach((d: any) => printer.line(`${options.indent}${printDecorator(d)}`));
+
+		const row = rows[n];
+		let line = row.name ? `${row.prefix.padEnd(prefixWidth)} ${row.name}` : row.prefix;
+		if (row.modifiers.length > 0) {
+			line = `${row.prefix.padEnd(prefixWidth)} ${row.name.padEnd(nameWidth)} ${row.modifiers.join(' ')}`;
+		}
+		printer.line(`${options.indent}${line}`, attached.trailing[n], options.indent);
+	});
+	printer.comments(attached.dangling, options.indent);
+	printer.line('}', closingTrailing);
+}
+
+/**
+ * Formats a CTO document in the canonical style. The document is parsed with the Concerto
+ * parser and printed from its AST. The comments of the document, which are not part of
+ * the AST, are found by the scanner and attached to the closest declaration or property.
+ *
+ * @param text the text of the CTO document
+ * @param options the formatting options
+ * @returns the formatted text, or undefined if the document cannot be parsed
+ */
+export function formatModel(text: string, options: FormatOptions): string | undefined {
+	let ast: any;
+	try {
+		ast = Parser.parse(text);
+	}
+	catch (err) {
+		return undefined;
+	}
+	const scanned = scan(text);
+	const imports: any[] = ast.imports ?? [];
+	// the scanner must agree with the parser, to place the comments
+	if (!scanned.namespace || scanned.imports.length !== imports.length || scanned.declarations.length !== ast.declarations.length
+		|| ast.declarations.some((d: any, n: number) => scanned.declarations[n].name.name !== d.name
+			|| scanned.declarations[n].properties.length !== (d.$class === `${MM}.MapDeclaration` ? 2 : d.properties?.length ?? 0))) {
+		return undefined;
+	}
+
+	const firstToken = scanned.tokens.find(t => t.type !== 'comment')!;
+	const namespaceItem = { start: firstToken.start, end: scanned.namespace.span.end };
+	const items = [namespaceItem, ...scanned.imports.map(i => i.span), ...scanned.declarations.map(d => d.span)];
+	const attached = attachComments(text, scanned.comments, items);
+	const printer = new Printer(text);
+
+	// header, decorators and namespace
+	printer.comments(attached.leading[0], '');
+	if (ast.concertoVersion) {
+		printer.line(`concerto version ${printString(ast.concertoVersion)}`);
+	}
+	(ast.decorators ?? []).forEach((d: any) => printer.line(printDecorator(d)));
+	printer.comments(attached.inner[0], '');
+	printer.line(`namespace ${ast.namespace}`, attached.trailing[0]);
+
+	// imports
+	const importRows = imports.map((imp, n) => ({ text: printImport(imp, options.sortImports), index: n + 1 }));
+	if (options.sortImports) {
+		importRows.sort((a, b) => a.text.localeCompare(b.text));
+	}
+	if (importRows.length > 0) {
+		printer.blank();
+	}
+	importRows.forEach(row => {
+		printer.comments([...attached.leading[row.index], ...attached.inner[row.index]], '');
+		printer.line(row.text, attached.trailing[row.index]);
+	});
+
+	// declarations
+	ast.declarations.forEach((declaration: any, n: number) => {
+		const index = n + 1 + imports.length;
+		const scannedDeclaration = scanned.declarations[n];
+		printer.blank(n === 0 ? 1 : options.blankLinesBetweenDeclarations);
+		printer.comments(attached.leading[index], '');
+		(declaration.decorators ?? []).forEach((d: any) => printer.line(printDecorator(d)));
+
+		const body = scannedDeclaration.body;
+		const inBody = (c: Token) => body !== undefined && c.start >= body.start && c.end <= body.end;
+		// comments on the same line as the opening brace trail the header
+		const headerTrailing = attached.inner[index].filter(c => inBody(c) && !text.substring(body!.start, c.start).includes('\n'));
+		printer.comments(attached.inner[index].filter(c => !inBody(c)), '');
+
+		if (body) {
+			const bodyComments = attached.inner[index].filter(c => inBody(c) && !headerTrailing.includes(c));
+			printBody(printer, text, declaration, scannedDeclaration, bodyComments, options, headerTrailing, attached.trailing[index]);
+		}
+		else {
+			printer.line(printDeclarationHeader(declaration), attached.trailing[index]);
+		}
+	});
+
+	if (attached.dangling.length > 0) {
+		printer.blank();
+		printer.comments(attached.dangling, '');
+	}
+	return `${printer.lines.join('\n')}\n`;
+}
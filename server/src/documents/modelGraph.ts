@@ -0,0 +1,261 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { Location } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from './edits';
+import { getModelFileDocument, getUserModelFiles, resolveTypeName } from './modelIndex';
+import { DeclarationKind, ScannedModel, scanDocument } from './scanner';
+
+export type GraphNodeKind = 'namespace' | DeclarationKind;
+
+export type GraphNode = {
+	/**
+	 * The namespace, or the fully qualified name of a declaration
+	 */
+	id: string;
+	label: string;
+	kind: GraphNodeKind;
+	namespace: string;
+	external: boolean;
+	/**
+	 * true if the namespace or declaration is not in the model manager
+	 */
+	missing: boolean;
+	location?: Location;
+}
+
+export type GraphEdgeKind = 'import' | 'extends' | 'relationship' | 'field';
+
+export type GraphEdge = {
+	source: string;
+	target: string;
+	kind: GraphEdgeKind;
+	/**
+	 * true if the edge is part of a cycle
+	 */
+	cyclic: boolean;
+}
+
+export type Graph = {
+	nodes: GraphNode[];
+	edges: GraphEdge[];
+	/**
+	 * The ids of the nodes of each cycle
+	 */
+	cycles: string[][];
+}
+
+/**
+ * The namespace import graph and the type graph (inheritance, relationships
+ * and fields) of the models of a project
+ */
+export type ModelGraph = {
+	namespaces: Graph;
+	types: Graph;
+	/**
+	 * All the namespaces of the project, to filter the graph
+	 */
+	allNamespaces: string[];
+}
+
+/**
+ * The parameters of the modelGraph request
+ */
+export type ModelGraphParams = {
+	/**
+	 * The uri of a document of the project, the project of the last changed document by default
+	 */
+	uri?: string;
+	/**
+	 * The namespaces to show, with the namespaces and types they depend on. All by default.
+	 */
+	namespaces?: string[];
+}
+
+/**
+ * The edges of the type graph that make a cycle of types impossible to instantiate:
+ * relationships are references, so cycles of relationships are expected
+ */
+const TYPE_CYCLE_EDGES: GraphEdgeKind[] = ['extends', 'field'];
+
+/**
+ * Finds the cycles of a graph, as its strongly connected components
+ * (with more than one node, or a node that depends on itself)
+ * @param ids the ids of the nodes
+ * @param edges the edges
+ * @returns the ids of the nodes of each cycle
+ */
+export function findCycles(ids: string[], edges: { source: string; target: string }[]): string[][] {
+	const successors = new Map<string, string[]>(ids.map(id => [id, []]));
+	edges.forEach(e => successors.get(e.source)?.push(e.target));
+	const index = new Map<string, number>();
+	const lowLink = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const cycles: string[][] = [];
+
+	// Tarjan's algorithm
+	const visit = (id: string) => {
+		index.set(id, index.size);
+		lowLink.set(id, index.get(id)!);
+		stack.push(id);
+		onStack.add(id);
+		(successors.get(id) ?? []).forEach(next => {
+			if (!index.has(next)) {
+				if (successors.has(next)) {
+					visit(next);
+					lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(next)!));
+				}
+			}
+			else if (onStack.has(next)) {
+				lowLink.set(id, Math.min(lowLink.get(id)!, index.get(next)!));
+			}
+		});
+		if (lowLink.get(id) === index.get(id)) {
+			const component: string[] = [];
+			let member: string;
+			do {
+				member = stack.pop()!;
+				onStack.delete(member);
+				component.push(member);
+			} while (member !== id);
+			if (component.length > 1 || successors.get(id)!.includes(id)) {
+				cycles.push(component.reverse());
+			}
+		}
+	};
+	ids.forEach(id => {
+		if (!index.has(id)) {
+			visit(id);
+		}
+	});
+	return cycles;
+}
+
+/**
+ * Finds the cycles of a graph and marks their edges, then keeps the nodes
+ * that are shown, with the nodes they depend on and the cycles they are part of
+ */
+function createGraph(nodes: GraphNode[], edges: GraphEdge[], cycleEdges: GraphEdgeKind[], shown: (node: GraphNode) => boolean): Graph {
+	const cycles = findCycles(nodes.map(n => n.id), edges.filter(e => cycleEdges.includes(e.kind)));
+	const component = new Map<string, number>();
+	cycles.forEach((cycle, n) => cycle.forEach(id => component.set(id, n)));
+	edges.forEach(e => {
+		e.cyclic = cycleEdges.includes(e.kind) && component.has(e.source) && component.get(e.source) === component.get(e.target);
+	});
+
+	const sources = new Set(nodes.filter(shown).map(n => n.id));
+	const kept = edges.filter(e => sources.has(e.source));
+	const ids = new Set([...sources, ...kept.map(e => e.target)]);
+	return {
+		nodes: nodes.filter(n => ids.has(n.id)),
+		edges: kept,
+		cycles: cycles.filter(cycle => cycle.some(id => sources.has(id)))
+	};
+}
+
+/**
+ * Computes the namespace import graph and the type graph of the models of a project.
+ * When namespaces are given, the graphs have the given namespaces and their
+ * declarations, along with the namespaces and types they depend on.
+ * @param state the language server state
+ * @param namespaces the namespaces to show, all by default
+ */
+export function getModelGraph(state: LanguageServerState, namespaces?: string[]): ModelGraph {
+	const models = new Map<string, { document: TextDocument; model: ScannedModel; external: boolean }>();
+	getUserModelFiles(state).forEach(mf => {
+		const document = getModelFileDocument(state, mf);
+		if (document) {
+			models.set(mf.getNamespace(), { document, model: scanDocument(document), external: mf.isExternal() });
+		}
+	});
+	const shown = (node: GraphNode) => !namespaces || namespaces.length === 0 || namespaces.includes(node.namespace);
+
+	const namespaceNodes = new Map<string, GraphNode>();
+	const typeNodes = new Map<string, GraphNode>();
+	const namespaceEdges: GraphEdge[] = [];
+	const typeEdges: GraphEdge[] = [];
+
+	const addNamespaceNode = (namespace: string) => {
+		if (!namespaceNodes.has(namespace)) {
+			const found = models.get(namespace);
+			const span = found?.model.namespace?.span;
+			namespaceNodes.set(namespace, {
+				id: namespace,
+				label: namespace,
+				kind: 'namespace',
+				namespace,
+				external: !!found?.external,
+				missing: !found,
+				location: found && span ? Location.create(found.document.uri, toRange(found.document, span)) : undefined
+			});
+		}
+	};
+	const addTypeNode = (namespace: string, name: string) => {
+		const id = `${namespace}.${name}`;
+		if (!typeNodes.has(id)) {
+			const found = models.get(namespace);
+			const declaration = found?.model.declarations.find(d => d.name.name === name);
+			typeNodes.set(id, {
+				id,
+				label: name,
+				kind: declaration?.kind ?? 'concept',
+				namespace,
+				external: !!found?.external,
+				missing: !declaration,
+				location: found && declaration ? Location.create(found.document.uri, toRange(found.document, declaration.name.span)) : undefined
+			});
+		}
+		return id;
+	};
+
+	models.forEach(({ model }, namespace) => {
+		addNamespaceNode(namespace);
+		new Set(model.imports.map(imp => imp.namespace)).forEach(imported => {
+			addNamespaceNode(imported);
+			namespaceEdges.push({ source: namespace, target: imported, kind: 'import', cyclic: false });
+		});
+
+		model.declarations.forEach(declaration => {
+			const source = addTypeNode(namespace, declaration.name.name);
+			const references: { name: string; kind: GraphEdgeKind }[] = [];
+			if (declaration.superType) {
+				references.push({ name: declaration.superType.name, kind: 'extends' });
+			}
+			declaration.properties.filter(p => p.type).forEach(p => {
+				references.push({ name: p.type!.name, kind: p.kind === 'relationship' ? 'relationship' : 'field' });
+			});
+			references.forEach(reference => {
+				const resolved = resolveTypeName(state, model, reference.name);
+				// the types of the Concerto system model are not shown
+				if (resolved && resolved.namespace !== 'concerto@1.0.0') {
+					const target = addTypeNode(resolved.namespace, resolved.name);
+					if (!typeEdges.some(e => e.source === source && e.target === target && e.kind === reference.kind)) {
+						typeEdges.push({ source, target, kind: reference.kind, cyclic: false });
+					}
+				}
+			});
+		});
+	});
+
+	return {
+		namespaces: createGraph([...namespaceNodes.values()], namespaceEdges, ['import'], shown),
+		types: createGraph([...typeNodes.values()], typeEdges, TYPE_CYCLE_EDGES, shown),
+		allNamespaces: [...models.keys()].sort()
+	};
+}
@@ -0,0 +1,374 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { ModelFile } from '@accordproject/concerto-core';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { LanguageServerState } from '../types';
+import { getDocumentModel } from './parsedModel';
+import { DeclarationKind, PRIMITIVE_TYPES, ScannedDeclaration, ScannedModel, scanDocument } from './scanner';
+
+/**
+ * The uri scheme for read-only documents holding the source of external models
+ */
+export const EXTERNAL_MODEL_SCHEME = 'concerto-external';
+
+/**
+ * A summary of a declaration known to the model manager
+ */
+export type DeclarationSummary = {
+	name: string;
+	namespace: string;
+	kind: DeclarationKind;
+	isAbstract: boolean;
+	identified: boolean;
+	/**
+	 * The name of the model file (the document uri, or @url for external models)
+	 */
+	fileName: string;
+	ast: any;
+}
+
+const DECLARATION_CLASSES: Record<string, DeclarationKind> = {
+	ConceptDeclaration: 'concept',
+	AssetDeclaration: 'asset',
+	ParticipantDeclaration: 'participant',
+	TransactionDeclaration: 'transaction',
+	EventDeclaration: 'event',
+	EnumDeclaration: 'enum',
+	MapDeclaration: 'map',
+};
+
+/**
+ * Returns the kind of a declaration from its metamodel $class
+ * @param ast the AST of the declaration
+ */
+export function getDeclarationKind(ast: any): DeclarationKind {
+	const shortName = ast.$class.substring(ast.$class.lastIndexOf('.') + 1);
+	return DECLARATION_CLASSES[shortName] ?? 'scalar';
+}
+
+/**
+ * Returns the model files in the model manager, excluding the Concerto system models
+ * @param state the language server state
+ */
+export function getUserModelFiles(state: LanguageServerState): ModelFile[] {
+	return state.modelManager.getNamespaces()
+		.map(ns => state.modelManager.getModelFile(ns))
+		.filter(mf => mf && !mf.isSystemModelFile());
+}
+
+/**
+ * Finds the model file that was loaded from a document
+ * @param state the language server state
+ * @param uri the uri of the document
+ */
+export function findModelFileByUri(state: LanguageServerState, uri: string): ModelFile | undefined {
+	return getUserModelFiles(state).find(mf => mf.getName() === uri);
+}
+
+/**
+ * Returns summaries of all the declarations in a namespace
+ * @param state the language server state
+ * @param namespace the namespace
+ */
+export function getNamespaceDeclarations(state: LanguageServerState, namespace: string): DeclarationSummary[] {
+	const modelFile = state.modelManager.getModelFile(namespace);
+	if (!modelFile) {
+		return [];
+	}
+	const ast: any = modelFile.getAst();
+	return (ast.declarations ?? []).map((decl: any) => ({
+		name: decl.name,
+		namespace,
+		kind: getDeclarationKind(decl),
+		isAbstract: !!decl.isAbstract,
+		identified: !!decl.identified,
+		fileName: modelFile.getName(),
+		ast: decl
+	}));
+}
+
+/**
+ * Returns summaries of all the declarations in the user models
+ * @param state the language server state
+ */
+export function getAllDeclarations(state: LanguageServerState): DeclarationSummary[] {
+	return getUserModelFiles(state).flatMap(mf => getNamespaceDeclarations(state, mf.getNamespace()));
+}
+
+/**
+ * Resolves the local name of a type in a document to its namespace, using
+ * the declarations and imports of the document. Primitive types resolve
+ * to undefined.
+ *
+ * @param state the language server state
+ * @param model the scanned document
+ * @param name the local name of the type
+ * @returns the namespace and name of the type, or undefined if it cannot be resolved
+ */
+export function resolveTypeName(state: LanguageServerState, model: ScannedModel, name: string): { namespace: string; name: string } | undefined {
+	if (PRIMITIVE_TYPES.includes(name)) {
+		return undefined;
+	}
+	if (model.namespace && model.declarations.some(d => d.name.name === name)) {
+		return { namespace: model.namespace.name, name };
+	}
+	for (const imp of model.imports) {
+		for (const type of imp.types) {
+			const alias = imp.aliases[type.name];
+			if ((alias ? alias.name : type.name) === name) {
+				return { namespace: imp.namespace, name: type.name };
+			}
+		}
+	}
+	for (const imp of model.imports.filter(i => i.wildcard)) {
+		if (getNamespaceDeclarations(state, imp.namespace).some(d => d.name === name)) {
+			return { namespace: imp.namespace, name };
+		}
+	}
+	const systemFile = state.modelManager.getModelFile('concerto@1.0.0');
+	if (systemFile && systemFile.getLocalType(name)) {
+		return { namespace: systemFile.getNamespace(), name };
+	}
+	return undefined;
+}
+
+/**
+ * A declaration, along with the document that declares it
+ */
+export type LocatedDeclaration = {
+	namespace: string;
+	document: TextDocument;
+	model: ScannedModel;
+	declaration: ScannedDeclaration;
+	external: boolean;
+}
+
+const modelFileDocuments = new Map<string, TextDocument>();
+
+/**
+ * Returns the uri of the read-only document for an external model
+ * @param namespace the namespace of the external model
+ */
+export function getExternalModelUri(namespace: string): string {
+	return `${EXTERNAL_MODEL_SCHEME}:/${encodeURIComponent(namespace)}.cto`;
+}
+
+/**
+ * Returns the document for a model file: the open text document if there is one,
+ * otherwise a document holding the definitions of the model file. External models
+ * use read-only documents, other model files keep the uri of their file.
+ * @param state the language server state
+ * @param modelFile the model file
+ */
+export function getModelFileDocument(state: LanguageServerState, modelFile: ModelFile): TextDocument | undefined {
+	const open = state.documents.get(modelFile.getName());
+	if (open) {
+		return open;
+	}
+	const definitions = modelFile.getDefinitions();
+	if (!definitions) {
+		return undefined;
+	}
+	const uri = modelFile.isExternal() ? getExternalModelUri(modelFile.getNamespace()) : modelFile.getName();
+	const existing = modelFileDocuments.get(uri);
+	if (existing && existing.getText() === definitions) {
+		return existing;
+	}
+	const document = TextDocument.create(uri, 'concerto', (existing?.version ?? 0) + 1, definitions);
+	modelFileDocuments.set(uri, document);
+	return document;
+}
+
+/**
+ * Returns the source of an external model, from the uri of its read-only document
+ * @param state the language server state
+ * @param uri the uri of the read-only document
+ * @returns the source, or undefined if the model has not been downloaded
+ */
+export function getExternalModelSource(state: LanguageServerState, uri: string): string | undefined {
+	const path = URI.parse(uri).path;
+	const modelFile = getUserModelFiles(state).find(mf => mf.isExternal() && `/${mf.getNamespace()}.cto` === path);
+	return modelFile?.getDefinitions() ?? undefined;
+}
+
+/**
+ * Returns all the model documents: the open documents, and the documents for the
+ * other model files in the model manager (including the external models)
+ * @param state the language server state
+ */
+export function getAllModelDocuments(state: LanguageServerState): TextDocument[] {
+	const documents = new Map<string, TextDocument>();
+	state.documents.all()
+		.filter(d => d.uri.endsWith('.cto') && !d.uri.startsWith(`${EXTERNAL_MODEL_SCHEME}:`))
+		.forEach(d => documents.set(d.uri, d));
+	getUserModelFiles(state)
+		.filter(mf => !documents.has(mf.getName()))
+		.forEach(mf => {
+			const document = getModelFileDocument(state, mf);
+			if (document) {
+				documents.set(document.uri, document);
+			}
+		});
+	return [...documents.values()];
+}
+
+/**
+ * Finds the document that declares a namespace. Open documents that are not
+ * in the model manager (because they do not parse) are also searched.
+ * @param state the language server state
+ * @param namespace the namespace
+ */
+export function findNamespaceDocument(state: LanguageServerState, namespace: string): { document: TextDocument; external: boolean } | undefined {
+	const modelFile = state.modelManager.getModelFile(namespace);
+	if (modelFile && !modelFile.isSystemModelFile()) {
+		const document = getModelFileDocument(state, modelFile);
+		if (document) {
+			return { document, external: modelFile.isExternal() };
+		}
+	}
+	const open = state.documents.all().find(d => d.uri.endsWith('.cto') && scanDocument(d).namespace?.name === namespace);
+	return open ? { document: open, external: false } : undefined;
+}
+
+/**
+ * Finds where a declaration is declared
+ * @param state the language server state
+ * @param namespace the namespace of the declaration
+ * @param name the name of the declaration
+ */
+export function locateDeclaration(state: LanguageServerState, namespace: string, name: string): LocatedDeclaration | undefined {
+	const found = findNamespaceDocument(state, namespace);
+	if (!found) {
+		return undefined;
+	}
+	const model = getDocumentModel(found.document);
+	const declaration = model.declarations.find(d => d.name.name === name);
+	return declaration ? { namespace, document: found.document, model, declaration, external: found.external } : undefined;
+}
+
+/**
+ * Returns the fully qualified names of the supertypes of a declaration,
+ * starting with its direct supertype
+ * @param state the language server state
+ * @param located the declaration
+ */
+export function getSuperTypeChain(state: LanguageServerState, located: LocatedDeclaration): string[] {
+	const chain: string[] = [];
+	let current: LocatedDeclaration | undefined = located;
+	while (current && current.declaration.superType) {
+		const superType: string = current.declaration.superType.name;
+		const resolved = resolveTypeName(state, current.model, superType);
+		if (!resolved) {
+			chain.push(superType);
+			break;
+		}
+		const fqn = `${resolved.namespace}.${resolved.name}`;
+		if (chain.includes(fqn)) {
+			break;
+		}
+		chain.push(fqn);
+		current = locateDeclaration(state, resolved.namespace, resolved.name);
+	}
+	return chain;
+}
+
+/**
+ * Returns the namespaces that depend on some namespaces: the namespaces themselves,
+ * and the namespaces that import them (directly or through other namespaces)
+ * @param state the language server state
+ * @param namespaces the namespaces
+ */
+export function getDependentNamespaces(state: LanguageServerState, namespaces: string[]): Set<string> {
+	const importers = new Map<string, string[]>();
+	getUserModelFiles(state).forEach(mf => {
+		const ast: any = mf.getAst();
+		(ast.imports ?? []).forEach((imp: any) => {
+			importers.set(imp.namespace, [...(importers.get(imp.namespace) ?? []), mf.getNamespace()]);
+		});
+	});
+	const result = new Set<string>();
+	const pending = [...namespaces];
+	while (pending.length > 0) {
+		const namespace = pending.pop()!;
+		if (!result.has(namespace)) {
+			result.add(namespace);
+			pending.push(...(importers.get(namespace) ?? []));
+		}
+	}
+	return result;
+}
+
+/**
+ * Returns the namespaces that some namespaces depend on: the namespaces themselves,
+ * and the namespaces they import (directly or through other namespaces), including
+ * the external models
+ * @param state the language server state
+ * @param namespaces the namespaces
+ */
+export function getNamespaceDependencies(state: LanguageServerState, namespaces: string[]): Set<string> {
+	const result = new Set<string>();
+	const pending = [...namespaces];
+	while (pending.length > 0) {
+		const namespace = pending.pop()!;
+		const modelFile = state.modelManager.getModelFile(namespace);
+		if (!result.has(namespace) && modelFile) {
+			result.add(namespace);
+			const ast: any = modelFile.getAst();
+			pending.push(...(ast.imports ?? []).map((imp: any) => imp.namespace));
+		}
+	}
+	return result;
+}
+
+/**
+ * Returns true if a declaration has a @deprecated decorator
+ * @param declaration the declaration
+ */
+export function isDeprecated(declaration: ScannedDeclaration): boolean {
+	return declaration.decorators.some(d => d.name.toLowerCase() === 'deprecated');
+}
+
+/**
+ * Finds a declaration by namespace and name
+ * @param state the language server state
+ * @param namespace the namespace of the declaration
+ * @param name the name of the declaration
+ */
+export function findDeclaration(state: LanguageServerState, namespace: string, name: string): DeclarationSummary | undefined {
+	return getNamespaceDeclarations(state, namespace).find(d => d.name === name);
+}
+
+/**
+ * Returns the names of the decorators used in the user models,
+ * with the number of times each is used
+ * @param state the language server state
+ */
+export function getWorkspaceDecorators(state: LanguageServerState): Map<string, number> {
+	const result = new Map<string, number>();
+	const add = (decorators: any[] | undefined) => {
+		(decorators ?? []).forEach(d => result.set(d.name, (result.get(d.name) ?? 0) + 1));
+	};
+	getUserModelFiles(state).forEach(mf => {
+		const ast: any = mf.getAst();
+		add(ast.decorators);
+		(ast.declarations ?? []).forEach((decl: any) => {
+			add(decl.decorators);
+			(decl.properties ?? []).forEach((prop: any) => add(prop.decorators));
+		});
+	});
+	return result;
+}
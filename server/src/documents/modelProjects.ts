@@ -0,0 +1,160 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as path from 'path-browserify';
+import { URI } from 'vscode-uri';
+import { ModelManager } from '@accordproject/concerto-core';
+
+/**
+ * The root of the model files outside of the workspace folders and templates,
+ * which use the model manager of the language server state
+ */
+export const DEFAULT_PROJECT = '';
+
+function isSameOrChild(uri: string, folder: string) {
+	return uri === folder || uri.startsWith(folder.endsWith('/') ? folder : `${folder}/`);
+}
+
+/**
+ * The projects of the workspace, each with its own model manager. The root of a
+ * project is a template root (a folder with a package.json file that has an
+ * accordproject key) or a workspace folder.
+ */
+export class ModelProjects {
+
+	private modelManagers = new Map<string, ModelManager>();
+	/**
+	 * The root of the project of each folder that contains model files
+	 */
+	private folderRoots = new Map<string, string>();
+	private workspaceFolders: string[] | undefined;
+	/**
+	 * The root of the last changed document, used for in-memory documents
+	 */
+	private activeRoot = DEFAULT_PROJECT;
+
+	/**
+	 * Returns the model manager of a project, creating it if needed
+	 * @param root the root of the project
+	 */
+	public getModelManager(root: string): ModelManager {
+		let modelManager = this.modelManagers.get(root);
+		if (!modelManager) {
+			modelManager = new ModelManager({ strict: true });
+			this.modelManagers.set(root, modelManager);
+		}
+		return modelManager;
+	}
+
+	/**
+	 * Returns the roots of the projects that have a model manager
+	 */
+	public getRoots(): string[] {
+		return [...this.modelManagers.keys()];
+	}
+
+	/**
+	 * Returns the workspace folders, or undefined if they have not been set
+	 */
+	public getWorkspaceFolders(): string[] | undefined {
+		return this.workspaceFolders;
+	}
+
+	public setWorkspaceFolders(folders: string[]) {
+		this.workspaceFolders = folders;
+	}
+
+	/**
+	 * Returns the innermost workspace folder that contains a uri
+	 */
+	public getWorkspaceFolder(uri: string): string | undefined {
+		return (this.workspaceFolders ?? [])
+			.filter(folder => isSameOrChild(uri, folder))
+			.sort((a, b) => b.length - a.length)[0];
+	}
+
+	/**
+	 * Returns the root of the project of a document. The document belongs to the
+	 * project of its folder or of the closest parent folder whose project is known,
+	 * or else to its workspace folder.
+	 * @param uri the uri of the document
+	 */
+	public getRoot(uri: string): string {
+		const parsed = URI.parse(uri);
+		let folder = path.dirname(parsed.path);
+		for (;;) {
+			const root = this.folderRoots.get(parsed.with({ path: folder }).toString());
+			if (root !== undefined) {
+				return root;
+			}
+			const parent = path.dirname(folder);
+			if (parent === folder) {
+				return this.getWorkspaceFolder(uri) ?? DEFAULT_PROJECT;
+			}
+			folder = parent;
+		}
+	}
+
+	/**
+	 * Returns true if the project of the folder of a document has been resolved
+	 * @param uri the uri of the document
+	 */
+	public hasFolderRoot(uri: string): boolean {
+		const parsed = URI.parse(uri);
+		return this.folderRoots.has(parsed.with({ path: path.dirname(parsed.path) }).toString());
+	}
+
+	/**
+	 * Sets the root of the project of the folder of a document
+	 * @param uri the uri of the document
+	 * @param root the root of the project
+	 */
+	public setFolderRoot(uri: string, root: string) {
+		const parsed = URI.parse(uri);
+		this.folderRoots.set(parsed.with({ path: path.dirname(parsed.path) }).toString(), root);
+	}
+
+	/**
+	 * Forgets the roots of the folders in a folder, so that they are resolved
+	 * again, and removes the projects in the folder
+	 * @param uri the uri of the folder (or of a file)
+	 */
+	public forgetFolder(uri: string) {
+		[...this.folderRoots.keys()]
+			.filter(folder => isSameOrChild(folder, uri))
+			.forEach(folder => this.folderRoots.delete(folder));
+		this.getRoots()
+			.filter(root => isSameOrChild(root, uri))
+			.forEach(root => this.modelManagers.delete(root));
+	}
+
+	public getActiveRoot(): string {
+		return this.activeRoot;
+	}
+
+	public setActiveRoot(root: string) {
+		this.activeRoot = root;
+	}
+
+	/**
+	 * Removes all the projects and their model managers
+	 */
+	public clear() {
+		this.modelManagers.clear();
+		this.folderRoots.clear();
+		this.workspaceFolders = undefined;
+		this.activeRoot = DEFAULT_PROJECT;
+	}
+}
@@ -0,0 +1,279 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { Parser } from '@accordproject/concerto-cto';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { DeclarationKind, PropertyKind, ScannedDecorator, ScannedDeclaration, ScannedImport, ScannedModel, ScannedName, ScannedProperty, scanDocument, TypeReferenceRole } from './scanner';
+import { isDocComment, Token, tokenize } from './tokenizer';
+
+const MM = 'concerto.metamodel@1.0.0';
+
+/**
+ * The location of a node of the AST, as returned by the Concerto parser
+ */
+type AstLocation = {
+	start: { offset: number };
+	end: { offset: number };
+}
+
+/**
+ * Returns the index of the first token that starts at or after an offset
+ */
+function firstTokenAt(tokens: Token[], offset: number): number {
+	let low = 0;
+	let high = tokens.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (tokens[mid].start < offset) {
+			low = mid + 1;
+		}
+		else {
+			high = mid;
+		}
+	}
+	return low;
+}
+
+/**
+ * Parses a CTO document with the Concerto parser, and locates the names of its
+ * AST in the text. The structure of the model (its imports, declarations,
+ * properties and type references) is that of the AST, whose nodes have
+ * locations; only the positions of the names within a node are read from
+ * the tokens of the node.
+ *
+ * @param text the text of the CTO document
+ * @param fileName the name of the document, for the errors of the parser
+ * @returns the model, or undefined if the document does not parse
+ */
+export function parseModel(text: string, fileName?: string): ScannedModel | undefined {
+	let ast: any;
+	try {
+		ast = Parser.parse(text, fileName);
+	}
+	catch (error) {
+		return undefined;
+	}
+
+	const allTokens = tokenize(text);
+	const comments = allTokens.filter(t => t.type === 'comment');
+	const tokens = allTokens.filter(t => t.type !== 'comment');
+	const result: ScannedModel = {
+		imports: [],
+		declarations: [],
+		decorators: [],
+		typeReferences: [],
+		comments,
+		tokens: allTokens
+	};
+
+	const toName = (token: Token): ScannedName => ({ name: token.text, span: { start: token.start, end: token.end } });
+	const tokensIn = (start: number, end: number) => tokens.slice(firstTokenAt(tokens, start), firstTokenAt(tokens, end));
+	const nodeTokens = (location: AstLocation) => tokensIn(location.start.offset, location.end.offset);
+
+	const addReference = (name: ScannedName, role: TypeReferenceRole, declaration?: ScannedDeclaration, property?: ScannedProperty) => {
+		result.typeReferences.push({ ...name, role, declaration, property });
+	};
+
+	const toDecorator = (node: any): ScannedDecorator => {
+		const [at, name] = nodeTokens(node.location);
+		const decorator: ScannedDecorator = {
+			name: node.name,
+			span: { start: at.start, end: name.end },
+			fullSpan: { start: node.location.start.offset, end: node.location.end.offset },
+			typeReferences: []
+		};
+		(node.arguments ?? [])
+			.filter((arg: any) => arg.$class === `${MM}.DecoratorTypeReference`)
+			.forEach((arg: any) => {
+				const token = nodeTokens(arg.location).find(t => t.text === arg.type.name);
+				if (token) {
+					decorator.typeReferences.push(toName(token));
+				}
+			});
+		return decorator;
+	};
+
+	const addDecoratorReferences = (decorators: ScannedDecorator[], declaration?: ScannedDeclaration, property?: ScannedProperty) => {
+		decorators.forEach(d => d.typeReferences.forEach(r => addReference(r, 'decorator', declaration, property)));
+	};
+
+	/**
+	 * Returns the tokens of a node after its decorators
+	 */
+	const undecoratedTokens = (node: any, decorators: ScannedDecorator[]) => {
+		const start = decorators.length > 0 ? decorators[decorators.length - 1].fullSpan.end : node.location.start.offset;
+		return tokensIn(start, node.location.end.offset);
+	};
+
+	const readProperty = (node: any, declaration: ScannedDeclaration, kind: PropertyKind) => {
+		const decorators: ScannedDecorator[] = (node.decorators ?? []).map(toDecorator);
+		// o Type[] name, --> Type[] name, or o NAME for enum values
+		const [marker, ...rest] = undecoratedTokens(node, decorators);
+		const property: ScannedProperty = {
+			kind,
+			isArray: !!node.isArray,
+			isOptional: !!node.isOptional,
+			decorators,
+			// the location of a property ends where the next one starts
+			span: { start: node.location.start.offset, end: (rest[rest.length - 1] ?? marker).end }
+		};
+		if (kind === 'enumValue') {
+			property.name = toName(rest[0]);
+		}
+		else {
+			property.type = toName(rest[0]);
+			addReference(property.type, kind as TypeReferenceRole, declaration, property);
+			const name = node.name !== undefined ? rest.slice(1).find(t => t.text === node.name) : undefined;
+			if (name) {
+				property.name = toName(name);
+			}
+		}
+		if (node.defaultValue !== undefined) {
+			const index = rest.findIndex(t => t.text === 'default');
+			const value = rest[index + 2];
+			if (index >= 0 && value) {
+				const unquoted = value.type === 'string' ? value.text.replace(/^["']|["']$/g, '') : value.text;
+				property.defaultValue = { name: unquoted, span: { start: value.start, end: value.end } };
+			}
+		}
+		addDecoratorReferences(decorators, declaration, property);
+		declaration.properties.push(property);
+	};
+
+	const readDeclaration = (node: any) => {
+		const start = node.location.start.offset;
+		const decorators: ScannedDecorator[] = (node.decorators ?? []).map(toDecorator);
+
+		// [abstract] keyword Name [identified [by field]] [extends Type] { ... }
+		const header = undecoratedTokens(node, decorators);
+		const isAbstract = !!node.isAbstract;
+		const open = header.findIndex(t => t.text === '{');
+		const signature = open >= 0 ? header.slice(0, open) : header;
+		const last = header[header.length - 1];
+		const declaration: ScannedDeclaration = {
+			kind: header[isAbstract ? 1 : 0].text as DeclarationKind,
+			name: toName(header[isAbstract ? 2 : 1]),
+			isAbstract,
+			identified: !!node.identified,
+			decorators,
+			properties: [],
+			span: { start, end: last.end }
+		};
+		if (open >= 0) {
+			declaration.body = { start: header[open].end, end: last.start };
+		}
+		const by = signature.findIndex(t => t.text === 'by');
+		if (node.identified?.name && by >= 0) {
+			declaration.identifiedBy = toName(signature[by + 1]);
+		}
+		const extendsIndex = signature.findIndex(t => t.text === 'extends');
+		if (extendsIndex >= 0) {
+			declaration.superType = toName(signature[extendsIndex + 1]);
+			if (declaration.kind !== 'scalar') {
+				addReference(declaration.superType, 'extends', declaration);
+			}
+		}
+		addDecoratorReferences(decorators, declaration);
+
+		// the doc comment is the last comment before the declaration (and its decorators)
+		const docComment = [...comments].reverse().find(c => c.end <= start);
+		if (docComment && isDocComment(docComment) && text.substring(docComment.end, start).trim() === '') {
+			declaration.docComment = docComment;
+		}
+
+		if (declaration.kind === 'map') {
+			readProperty(node.key, declaration, 'mapKey');
+			readProperty(node.value, declaration, 'mapValue');
+		}
+		else {
+			(node.properties ?? []).forEach((property: any) => readProperty(property, declaration, declaration.kind === 'enum' ? 'enumValue' : property.$class === `${MM}.RelationshipProperty` ? 'relationship' : 'field'));
+		}
+		result.declarations.push(declaration);
+	};
+
+	result.decorators = (ast.decorators ?? []).map(toDecorator);
+	addDecoratorReferences(result.decorators);
+	const modelStart = result.decorators.length > 0 ? result.decorators[result.decorators.length - 1].fullSpan.end : 0;
+	const bodyStart = ast.declarations?.[0]?.location.start.offset ?? text.length;
+
+	// namespace org.acme@1.0.0, then the imports
+	const preamble = tokensIn(modelStart, bodyStart);
+	const namespaceToken = preamble[1];
+	result.namespace = { name: ast.namespace, span: { start: namespaceToken.start, end: namespaceToken.start + ast.namespace.length } };
+
+	// the import keywords are not part of a qualified name
+	const importTokens = preamble.filter((t, n) => n > 0 && t.text === 'import' && t.start !== preamble[n - 1].end);
+	(ast.imports ?? []).forEach((node: any, n: number) => {
+		const keyword = importTokens[n];
+		const next = importTokens[n + 1];
+		const importTokensOf = tokensIn(keyword.start, next ? next.start : bodyStart);
+		const namespaceStart = importTokensOf[1].start;
+		const imp: ScannedImport = {
+			namespace: node.namespace,
+			namespaceSpan: { start: namespaceStart, end: namespaceStart + node.namespace.length },
+			types: [],
+			aliases: {},
+			wildcard: node.$class === `${MM}.ImportAll`,
+			span: { start: keyword.start, end: importTokensOf[importTokensOf.length - 1].end }
+		};
+		// the imported types, and their aliases: {A as B, C}
+		const typeTokens = importTokensOf.filter(t => t.start > imp.namespaceSpan.end && t.type === 'identifier' && t.text !== 'from');
+		for (let index = 0; index < typeTokens.length; index++) {
+			const type = toName(typeTokens[index]);
+			imp.types.push(type);
+			if (typeTokens[index + 1]?.text === 'as' && typeTokens[index + 2]) {
+				imp.aliases[type.name] = toName(typeTokens[index + 2]);
+				index += 2;
+			}
+		}
+		const uri = importTokensOf.find(t => t.type === 'uri');
+		if (uri) {
+			imp.uri = toName(uri);
+		}
+		imp.types.forEach(t => addReference(t, 'import'));
+		result.imports.push(imp);
+	});
+
+	(ast.declarations ?? []).forEach(readDeclaration);
+	result.typeReferences.sort((a, b) => a.span.start - b.span.start);
+	return result;
+}
+
+const parseCache = new WeakMap<TextDocument, { version: number; model: ScannedModel | undefined }>();
+
+/**
+ * Parses a text document, caching the result until the document changes
+ * @param document the text document
+ * @returns the model, or undefined if the document does not parse
+ */
+export function parseDocument(document: TextDocument): ScannedModel | undefined {
+	const cached = parseCache.get(document);
+	if (cached && cached.version === document.version) {
+		return cached.model;
+	}
+	const model = parseModel(document.getText(), document.uri);
+	parseCache.set(document, { version: document.version, model });
+	return model;
+}
+
+/**
+ * Returns the model of a document: its parsed model, or its scanned model
+ * when it does not parse (while it is being edited)
+ * @param document the text document
+ */
+export function getDocumentModel(document: TextDocument): ScannedModel {
+	return parseDocument(document) ?? scanDocument(document);
+}
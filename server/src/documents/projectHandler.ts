@@ -0,0 +1,242 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { URI } from 'vscode-uri';
+
+import { ModelManager } from '@accordproject/concerto-core';
+import { CancellationToken, FileChangeType, FileEvent, TextDocumentChangeEvent, TextDocuments } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { FileType, LanguageServerState, ReadDirectoryRecursiveResponse } from '../types';
+import { log } from '../state';
+import { forgetLintConfigFiles, LINT_CONFIG_FILE } from '../lint/linter';
+import { findTemplateRoot, handleConcertoDocumentChange, handleDeletedFiles, handleRenamedFiles, handleWatchedFilesChange, hasScheme, isSameOrChild, validateProject } from './concertoHandler';
+import { EXTERNAL_MODEL_SCHEME } from './modelIndex';
+import { DEFAULT_PROJECT } from './modelProjects';
+
+/**
+ * Returns the root of the project of a document, as known without reading files.
+ * In-memory documents belong to the project of the last changed document, and
+ * read-only external model documents to the project that downloaded them.
+ */
+function getDocumentRoot(state: LanguageServerState, uri: string): string {
+	if (!hasScheme(uri)) {
+		return state.projects.getActiveRoot();
+	}
+	if (uri.startsWith(`${EXTERNAL_MODEL_SCHEME}:`)) {
+		const namespace = URI.parse(uri).path.replace(/^\/(.*)\.cto$/, '$1');
+		const root = [state.projects.getActiveRoot(), DEFAULT_PROJECT, ...state.projects.getRoots()].find(root => {
+			const modelManager = root === DEFAULT_PROJECT ? state.modelManager : state.projects.getModelManager(root);
+			return modelManager.getModelFile(namespace)?.isExternal();
+		});
+		return root ?? state.projects.getActiveRoot();
+	}
+	return state.projects.getRoot(uri);
+}
+
+/**
+ * Returns the state of a project: the language server state with the model
+ * manager and the open documents of the project (the documents of the other
+ * projects are not found)
+ * @param state the language server state
+ * @param root the root of the project
+ */
+function createProjectState(state: LanguageServerState, root: string): LanguageServerState {
+	const modelManager: ModelManager = root === DEFAULT_PROJECT ? state.modelManager : state.projects.getModelManager(root);
+	const documents: TextDocuments<TextDocument> = Object.create(state.documents);
+	documents.all = () => state.documents.all().filter(d => getDocumentRoot(state, d.uri) === root);
+	documents.get = (uri: string) => getDocumentRoot(state, uri) === root ? state.documents.get(uri) : undefined;
+	documents.keys = () => documents.all().map(d => d.uri);
+	// the other properties (such as isLoading) are those of the language server state
+	const projectState: LanguageServerState = Object.create(state);
+	projectState.modelManager = modelManager;
+	projectState.documents = documents;
+	projectState.root = root;
+	return projectState;
+}
+
+/**
+ * Returns the state of the project of a document, whose project is already known
+ * @param state the language server state
+ * @param uri the uri of the document
+ */
+export function getProjectState(state: LanguageServerState, uri: string): LanguageServerState {
+	return createProjectState(state, getDocumentRoot(state, uri));
+}
+
+/**
+ * Returns the state of the project of the last changed document
+ * @param state the language server state
+ */
+export function getActiveProjectState(state: LanguageServerState): LanguageServerState {
+	return createProjectState(state, state.projects.getActiveRoot());
+}
+
+/**
+ * Returns the states of all the projects, including the default project
+ * @param state the language server state
+ */
+export function getProjectStates(state: LanguageServerState): LanguageServerState[] {
+	return [DEFAULT_PROJECT, ...state.projects.getRoots()].map(root => createProjectState(state, root));
+}
+
+/**
+ * Finds the root of the project of a document: the closest template root
+ * in its workspace folder, or else its workspace folder
+ * @param state the language server state
+ * @param uri the uri of the document
+ */
+export async function resolveProjectRoot(state: LanguageServerState, uri: string): Promise<string> {
+	if (hasScheme(uri) && !uri.startsWith(`${EXTERNAL_MODEL_SCHEME}:`) && !state.projects.hasFolderRoot(uri)) {
+		if (!state.projects.getWorkspaceFolders() && state.connection) {
+			const folders = await state.connection.workspace.getWorkspaceFolders();
+			state.projects.setWorkspaceFolders((folders ?? []).map(folder => folder.uri));
+		}
+		const workspaceFolder = state.projects.getWorkspaceFolder(uri);
+		const templateRoot = await findTemplateRoot(state, URI.parse(uri), workspaceFolder ? URI.parse(workspaceFolder) : undefined);
+		const root = templateRoot?.toString() ?? workspaceFolder ?? DEFAULT_PROJECT;
+		state.projects.setFolderRoot(uri, root);
+		log(`Project of ${uri}: ${root || 'default'}`);
+	}
+	return getDocumentRoot(state, uri);
+}
+
+/**
+ * Returns the state of the project of a document, finding the project if needed
+ * @param state the language server state
+ * @param uri the uri of the document
+ */
+export async function resolveProjectState(state: LanguageServerState, uri: string): Promise<LanguageServerState> {
+	return createProjectState(state, await resolveProjectRoot(state, uri));
+}
+
+/**
+ * Handles changes to Concerto documents, within the project of the document
+ * @param state the language server state
+ * @param change the document change event
+ * @param token cancelled when the document changes again
+ */
+export async function handleProjectDocumentChange(state: LanguageServerState, change: TextDocumentChangeEvent<TextDocument>, token?: CancellationToken) {
+	const projectState = await resolveProjectState(state, change.document.uri);
+	if (hasScheme(change.document.uri)) {
+		state.projects.setActiveRoot(projectState.root!);
+	}
+	await handleConcertoDocumentChange(projectState, change, token);
+}
+
+/**
+ * Handles deleted files (or folders), in all the projects
+ * @param state the language server state
+ * @param uris the uris of the deleted files
+ */
+export async function handleProjectFilesDeleted(state: LanguageServerState, uris: string[]) {
+	for (const projectState of getProjectStates(state)) {
+		await handleDeletedFiles(projectState, uris);
+	}
+	uris.forEach(uri => state.projects.forgetFolder(uri));
+}
+
+/**
+ * Returns the model files of a file or folder
+ */
+async function findModelFiles(state: LanguageServerState, uri: string): Promise<string[]> {
+	if (uri.endsWith('.cto') || !state.connection) {
+		return uri.endsWith('.cto') ? [uri] : [];
+	}
+	try {
+		const files: ReadDirectoryRecursiveResponse[] = await state.connection.sendRequest('vfs/readDirectoryRecursive', { path: uri });
+		return files.filter(f => f.type === FileType.File && f.path.endsWith('.cto')).map(f => f.path);
+	}
+	catch (error) {
+		log(`Failed to read ${uri}: ${error}`);
+		return [];
+	}
+}
+
+/**
+ * Handles renamed files (or folders). Files that stay in the same project are moved
+ * within the project, the others are removed from their project and loaded in
+ * their new project.
+ * @param state the language server state
+ * @param files the old and new uris of the renamed files
+ */
+export async function handleProjectFilesRenamed(state: LanguageServerState, files: { oldUri: string; newUri: string }[]) {
+	const renamed = new Map<string, { oldUri: string; newUri: string }[]>();
+	const moved: { oldUri: string; newUri: string }[] = [];
+	for (const file of files) {
+		const oldRoot = state.projects.getRoot(file.oldUri);
+		const hasRoot = state.projects.getRoots().some(root => isSameOrChild(root, file.oldUri));
+		const newRoot = await resolveProjectRoot(state, file.newUri);
+		if (oldRoot === newRoot && !hasRoot) {
+			renamed.set(oldRoot, [...(renamed.get(oldRoot) ?? []), file]);
+		}
+		else {
+			moved.push(file);
+		}
+	}
+	renamed.forEach((group, root) => {
+		handleRenamedFiles(createProjectState(state, root), group);
+		group.forEach(file => state.projects.forgetFolder(file.oldUri));
+	});
+	if (moved.length > 0) {
+		await handleProjectFilesDeleted(state, moved.map(file => file.oldUri));
+		const created: FileEvent[] = [];
+		for (const file of moved) {
+			(await findModelFiles(state, file.newUri)).forEach(uri => created.push({ uri, type: FileChangeType.Created }));
+		}
+		await handleProjectWatchedFiles(state, created);
+	}
+}
+
+/**
+ * Handles changes to watched files, made outside of the editor, within
+ * the project of each file
+ * @param state the language server state
+ * @param changes the file events
+ */
+export async function handleProjectWatchedFiles(state: LanguageServerState, changes: FileEvent[]) {
+	const lintConfigChanged = changes.some(c => c.uri.endsWith(`/${LINT_CONFIG_FILE}`));
+	changes = changes.filter(c => !c.uri.endsWith(`/${LINT_CONFIG_FILE}`));
+	const deleted = changes.filter(c => c.type === FileChangeType.Deleted).map(c => c.uri);
+	if (deleted.length > 0) {
+		await handleProjectFilesDeleted(state, deleted);
+	}
+	const changed = new Map<string, FileEvent[]>();
+	for (const change of changes.filter(c => c.type !== FileChangeType.Deleted)) {
+		const root = await resolveProjectRoot(state, change.uri);
+		changed.set(root, [...(changed.get(root) ?? []), change]);
+	}
+	for (const [root, group] of changed) {
+		await handleWatchedFilesChange(createProjectState(state, root), group);
+	}
+	if (lintConfigChanged) {
+		// lint the model files again, with the new .concertolint.json files
+		forgetLintConfigFiles();
+		for (const projectState of getProjectStates(state)) {
+			const validated = await validateProject(projectState);
+			if (state.connection) {
+				state.diagnostics.send(state.connection, validated);
+			}
+		}
+	}
+}
+
+/**
+ * Removes all the projects and the model files, before the models are loaded again
+ * @param state the language server state
+ */
+export function resetProjects(state: LanguageServerState) {
+	state.projects.clear();
+	state.modelManager = new ModelManager({ strict: true });
+}
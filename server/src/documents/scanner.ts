@@ -0,0 +1,554 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { isDocComment, Token, tokenize } from './tokenizer';
+
+/**
+ * A region of a document, as zero based offsets (end is exclusive)
+ */
+export type TextSpan = {
+	start: number;
+	end: number;
+}
+
+export type ScannedName = {
+	name: string;
+	span: TextSpan;
+}
+
+export type ScannedDecorator = ScannedName & {
+	/**
+	 * Type references used as decorator arguments, e.g. @Foo(Bar)
+	 */
+	typeReferences: ScannedName[];
+	/**
+	 * The span of the whole decorator, including its arguments
+	 */
+	fullSpan: TextSpan;
+}
+
+export type ScannedImport = {
+	namespace: string;
+	namespaceSpan: TextSpan;
+	/**
+	 * The imported types, empty for wildcard imports
+	 */
+	types: ScannedName[];
+	/**
+	 * The local names of aliased imports (import a@1.0.0.{A as B}), keyed by imported name
+	 */
+	aliases: Record<string, ScannedName>;
+	wildcard: boolean;
+	uri?: ScannedName;
+	span: TextSpan;
+}
+
+export type PropertyKind = 'field' | 'relationship' | 'enumValue' | 'mapKey' | 'mapValue';
+
+export type ScannedProperty = {
+	kind: PropertyKind;
+	name?: ScannedName;
+	type?: ScannedName;
+	isArray: boolean;
+	isOptional: boolean;
+	decorators: ScannedDecorator[];
+	/**
+	 * The default value, if one is specified (with quotes removed from strings)
+	 */
+	defaultValue?: ScannedName;
+	span: TextSpan;
+}
+
+export type DeclarationKind = 'concept' | 'asset' | 'participant' | 'transaction' | 'event' | 'enum' | 'map' | 'scalar';
+
+export type ScannedDeclaration = {
+	kind: DeclarationKind;
+	name: ScannedName;
+	isAbstract: boolean;
+	superType?: ScannedName;
+	/**
+	 * true if the declaration is identified, with an optional identifying field
+	 */
+	identified: boolean;
+	identifiedBy?: ScannedName;
+	decorators: ScannedDecorator[];
+	properties: ScannedProperty[];
+	docComment?: Token;
+	/**
+	 * The span between the braces of the body (exclusive), if there is a body
+	 */
+	body?: TextSpan;
+	span: TextSpan;
+}
+
+export type TypeReferenceRole = 'extends' | 'field' | 'relationship' | 'mapKey' | 'mapValue' | 'import' | 'decorator';
+
+/**
+ * A reference to a type, by its local (unqualified) name
+ */
+export type ScannedTypeReference = ScannedName & {
+	role: TypeReferenceRole;
+	declaration?: ScannedDeclaration;
+	property?: ScannedProperty;
+}
+
+export type ScannedModel = {
+	namespace?: ScannedName;
+	imports: ScannedImport[];
+	declarations: ScannedDeclaration[];
+	decorators: ScannedDecorator[];
+	typeReferences: ScannedTypeReference[];
+	comments: Token[];
+	tokens: Token[];
+}
+
+export const DECLARATION_KEYWORDS: DeclarationKind[] = ['concept', 'asset', 'participant', 'transaction', 'event', 'enum', 'map', 'scalar'];
+export const PRIMITIVE_TYPES = ['String', 'Boolean', 'DateTime', 'Double', 'Integer', 'Long'];
+
+/**
+ * Characters that can be part of a qualified name such as org.acme@1.0.0-beta.1.Address
+ */
+const QUALIFIED_NAME_PUNCTUATION = ['.', '@', '-', '+'];
+
+/**
+ * Scans a CTO document to find its namespace, imports, declarations,
+ * properties and type references, along with their positions. The scanner is
+ * error tolerant: it recovers from syntax errors, so that editor features
+ * keep working while a document is being edited.
+ *
+ * @param text the text of the CTO document
+ * @returns the scanned model
+ */
+export function scan(text: string): ScannedModel {
+	const allTokens = tokenize(text);
+	const comments = allTokens.filter(t => t.type === 'comment');
+	const tokens = allTokens.filter(t => t.type !== 'comment');
+	const result: ScannedModel = {
+		imports: [],
+		declarations: [],
+		decorators: [],
+		typeReferences: [],
+		comments,
+		tokens: allTokens
+	};
+
+	let pos = 0;
+	const peek = (offset = 0): Token | undefined => tokens[pos + offset];
+	const isText = (token: Token | undefined, value: string) => token !== undefined && token.text === value;
+	const isIdentifier = (token: Token | undefined) => token !== undefined && token.type === 'identifier';
+	const toName = (token: Token): ScannedName => ({ name: token.text, span: { start: token.start, end: token.end } });
+
+	/**
+	 * Reads adjacent tokens (no whitespace between them) that form a qualified name
+	 */
+	const readQualifiedName = (): { name: string; span: TextSpan; parts: Token[] } | undefined => {
+		const first = peek();
+		if (!first || !(first.type === 'identifier' || first.type === 'number')) {
+			return undefined;
+		}
+		const parts: Token[] = [first];
+		pos++;
+		while (pos < tokens.length) {
+			const next = tokens[pos];
+			const last = parts[parts.length - 1];
+			if (next.start !== last.end) {
+				break;
+			}
+			if (next.type === 'identifier' || next.type === 'number' || QUALIFIED_NAME_PUNCTUATION.includes(next.text)) {
+				parts.push(next);
+				pos++;
+			}
+			else {
+				break;
+			}
+		}
+		return {
+			name: parts.map(p => p.text).join(''),
+			span: { start: first.start, end: parts[parts.length - 1].end },
+			parts
+		};
+	};
+
+	const readDecorator = (): ScannedDecorator | undefined => {
+		const at = peek();
+		const name = peek(1);
+		if (!isText(at, '@') || !isIdentifier(name) || name!.start !== at!.end) {
+			pos++;
+			return undefined;
+		}
+		pos += 2;
+		const decorator: ScannedDecorator = {
+			name: name!.text,
+			span: { start: at!.start, end: name!.end },
+			fullSpan: { start: at!.start, end: name!.end },
+			typeReferences: []
+		};
+		if (isText(peek(), '(')) {
+			let depth = 0;
+			while (pos < tokens.length) {
+				const token = tokens[pos++];
+				if (token.text === '(') {
+					depth++;
+				}
+				else if (token.text === ')') {
+					depth--;
+				}
+				else if (token.type === 'identifier' && !['true', 'false', 'null'].includes(token.text)) {
+					decorator.typeReferences.push(toName(token));
+				}
+				decorator.fullSpan.end = token.end;
+				if (depth === 0 || token.text === '}' || token.text === '{') {
+					break;
+				}
+			}
+		}
+		return decorator;
+	};
+
+	const readDecorators = (): ScannedDecorator[] => {
+		const decorators: ScannedDecorator[] = [];
+		while (isText(peek(), '@')) {
+			const decorator = readDecorator();
+			if (decorator) {
+				decorators.push(decorator);
+			}
+		}
+		return decorators;
+	};
+
+	const addReference = (name: ScannedName, role: TypeReferenceRole, declaration?: ScannedDeclaration, property?: ScannedProperty) => {
+		result.typeReferences.push({ ...name, role, declaration, property });
+	};
+
+	const addDecoratorReferences = (decorators: ScannedDecorator[], declaration?: ScannedDeclaration, property?: ScannedProperty) => {
+		decorators.forEach(d => d.typeReferences.forEach(r => addReference(r, 'decorator', declaration, property)));
+	};
+
+	const readImport = (importToken: Token) => {
+		const qualified = readQualifiedName();
+		if (!qualified) {
+			return;
+		}
+		const imp: ScannedImport = {
+			namespace: qualified.name,
+			namespaceSpan: qualified.span,
+			types: [],
+			aliases: {},
+			wildcard: false,
+			span: { start: importToken.start, end: qualified.span.end }
+		};
+
+		const next = peek();
+		if (qualified.name.endsWith('.') && next && next.start === qualified.span.end && (next.text === '*' || next.text === '{')) {
+			imp.namespace = qualified.name.slice(0, -1);
+			imp.namespaceSpan = { start: qualified.span.start, end: qualified.span.end - 1 };
+			pos++;
+			imp.span.end = next.end;
+			if (next.text === '*') {
+				imp.wildcard = true;
+			}
+			else {
+				while (pos < tokens.length) {
+					const token = tokens[pos];
+					if (token.type === 'identifier') {
+						if (token.text === 'as' && isIdentifier(peek(1)) && imp.types.length > 0) {
+							imp.aliases[imp.types[imp.types.length - 1].name] = toName(peek(1)!);
+							pos += 2;
+							continue;
+						}
+						imp.types.push(toName(token));
+					}
+					else if (token.text !== ',') {
+						if (token.text === '}') {
+							imp.span.end = token.end;
+							pos++;
+						}
+						break;
+					}
+					imp.span.end = token.end;
+					pos++;
+				}
+			}
+		}
+		else {
+			// import org.acme@1.0.0.Type
+			const parts = qualified.parts;
+			const last = parts[parts.length - 1];
+			if (last.type === 'identifier' && parts.length > 2 && parts[parts.length - 2].text === '.') {
+				imp.types.push(toName(last));
+				imp.namespace = qualified.name.substring(0, last.start - qualified.span.start - 1);
+				imp.namespaceSpan = { start: qualified.span.start, end: last.start - 1 };
+			}
+		}
+
+		if (isText(peek(), 'from') && peek(1)?.type === 'uri') {
+			imp.uri = toName(peek(1)!);
+			imp.span.end = imp.uri.span.end;
+			pos += 2;
+		}
+
+		imp.types.forEach(t => addReference(t, 'import'));
+		result.imports.push(imp);
+	};
+
+	/**
+	 * Returns true if the current token starts a new top level element,
+	 * which is used to recover from unterminated declarations
+	 */
+	const atTopLevelStart = () => {
+		const token = peek();
+		if (!isIdentifier(token)) {
+			return false;
+		}
+		if (token!.text === 'abstract') {
+			return isIdentifier(peek(1)) && DECLARATION_KEYWORDS.includes(peek(1)!.text as DeclarationKind);
+		}
+		return (DECLARATION_KEYWORDS.includes(token!.text as DeclarationKind) && isIdentifier(peek(1)))
+			|| token!.text === 'import' || token!.text === 'namespace';
+	};
+
+	const readProperty = (declaration: ScannedDeclaration, decorators: ScannedDecorator[], start: number) => {
+		const marker = tokens[pos++];
+		const property: ScannedProperty = {
+			kind: marker.text === '-->' ? 'relationship' : 'field',
+			isArray: false,
+			isOptional: false,
+			decorators,
+			span: { start, end: marker.end }
+		};
+		let typeIndex = 0;
+		if (declaration.kind === 'enum') {
+			property.kind = 'enumValue';
+		}
+		else if (declaration.kind === 'map') {
+			typeIndex = declaration.properties.filter(p => p.kind === 'mapKey' || p.kind === 'mapValue').length;
+			property.kind = typeIndex === 0 ? 'mapKey' : 'mapValue';
+		}
+
+		if (property.kind === 'enumValue') {
+			if (isIdentifier(peek())) {
+				property.name = toName(tokens[pos++]);
+				property.span.end = property.name.span.end;
+			}
+		}
+		else {
+			if (isIdentifier(peek()) && !atTopLevelStart()) {
+				property.type = toName(tokens[pos++]);
+				property.span.end = property.type.span.end;
+				addReference(property.type, property.kind as TypeReferenceRole, declaration, property);
+			}
+			if (isText(peek(), '[]')) {
+				property.isArray = true;
+				property.span.end = tokens[pos++].end;
+			}
+			// property names must be on the same line as the type
+			const sameLine = !text.substring(property.span.end, peek()?.start ?? text.length).includes('\n');
+			if (property.kind !== 'mapKey' && property.kind !== 'mapValue' && sameLine
+				&& isIdentifier(peek()) && !atTopLevelStart() && peek()!.text !== 'optional' && peek()!.text !== 'default') {
+				property.name = toName(tokens[pos++]);
+				property.span.end = property.name.span.end;
+			}
+		}
+
+		// validators, defaults and modifiers, up to the start of the next property
+		while (pos < tokens.length) {
+			const token = tokens[pos];
+			if (token.text === '}' || token.text === 'o' || token.text === '-->' || token.text === '@' || atTopLevelStart()) {
+				break;
+			}
+			if (token.text === 'optional') {
+				property.isOptional = true;
+			}
+			if (token.text === 'default' && isText(peek(1), '=') && peek(2)) {
+				const value = peek(2)!;
+				const unquoted = value.type === 'string' ? value.text.replace(/^["']|["']$/g, '') : value.text;
+				property.defaultValue = { name: unquoted, span: { start: value.start, end: value.end } };
+			}
+			property.span.end = token.end;
+			pos++;
+		}
+		addDecoratorReferences(decorators, declaration, property);
+		declaration.properties.push(property);
+	};
+
+	const readBody = (declaration: ScannedDeclaration) => {
+		const open = tokens[pos++];
+		declaration.body = { start: open.end, end: open.end };
+		declaration.span.end = open.end;
+		while (pos < tokens.length) {
+			const token = tokens[pos];
+			if (token.text === '}') {
+				declaration.body.end = token.start;
+				declaration.span.end = token.end;
+				pos++;
+				return;
+			}
+			if (atTopLevelStart()) {
+				// unterminated declaration, let the top level take over
+				break;
+			}
+			const decorators = readDecorators();
+			const start = decorators.length > 0 ? decorators[0].span.start : token.start;
+			if (isText(peek(), 'o') || isText(peek(), '-->')) {
+				readProperty(declaration, decorators, start);
+			}
+			else if (decorators.length === 0) {
+				pos++;
+			}
+			declaration.body.end = tokens[pos - 1].end;
+			declaration.span.end = tokens[pos - 1].end;
+		}
+	};
+
+	const readDeclaration = (decorators: ScannedDecorator[], start: number) => {
+		let isAbstract = false;
+		if (isText(peek(), 'abstract')) {
+			isAbstract = true;
+			pos++;
+		}
+		const keyword = tokens[pos++];
+		const nameToken = peek();
+		if (!isIdentifier(nameToken)) {
+			return;
+		}
+		pos++;
+		const declaration: ScannedDeclaration = {
+			kind: keyword.text as DeclarationKind,
+			name: toName(nameToken!),
+			isAbstract,
+			identified: false,
+			decorators,
+			properties: [],
+			span: { start, end: nameToken!.end }
+		};
+
+		// the doc comment is the last comment before the declaration (and its decorators)
+		const docComment = [...comments].reverse().find(c => c.end <= start);
+		if (docComment && isDocComment(docComment) && text.substring(docComment.end, start).trim() === '') {
+			declaration.docComment = docComment;
+		}
+
+		while (pos < tokens.length) {
+			const token = tokens[pos];
+			if (token.text === '{') {
+				readBody(declaration);
+				break;
+			}
+			if (atTopLevelStart() || token.text === '@') {
+				break;
+			}
+			if (token.text === 'identified') {
+				declaration.identified = true;
+				if (isText(peek(1), 'by') && isIdentifier(peek(2))) {
+					declaration.identifiedBy = toName(peek(2)!);
+					pos += 2;
+				}
+			}
+			else if (token.text === 'extends' && isIdentifier(peek(1))) {
+				declaration.superType = toName(peek(1)!);
+				if (declaration.kind !== 'scalar') {
+					addReference(declaration.superType, 'extends', declaration);
+				}
+				pos++;
+			}
+			declaration.span.end = tokens[pos].end;
+			pos++;
+		}
+		addDecoratorReferences(decorators, declaration);
+		result.declarations.push(declaration);
+	};
+
+	while (pos < tokens.length) {
+		const token = tokens[pos];
+		if (token.text === '@') {
+			const decorators = readDecorators();
+			if (atTopLevelStart() && !isText(peek(), 'import') && !isText(peek(), 'namespace')) {
+				readDeclaration(decorators, decorators.length > 0 ? decorators[0].span.start : token.start);
+			}
+			else {
+				// decorators on the model itself
+				result.decorators.push(...decorators);
+				addDecoratorReferences(decorators);
+			}
+		}
+		else if (token.text === 'namespace' && !result.namespace) {
+			pos++;
+			const qualified = readQualifiedName();
+			if (qualified) {
+				result.namespace = { name: qualified.name, span: qualified.span };
+			}
+		}
+		else if (token.text === 'import') {
+			pos++;
+			readImport(token);
+		}
+		else if (atTopLevelStart()) {
+			readDeclaration([], token.start);
+		}
+		else {
+			pos++;
+		}
+	}
+
+	return result;
+}
+
+const scanCache = new Map<string, { version: number; model: ScannedModel }>();
+
+/**
+ * Scans a text document, caching the result until the document changes
+ * @param document the text document
+ * @returns the scanned model
+ */
+export function scanDocument(document: TextDocument): ScannedModel {
+	const cached = scanCache.get(document.uri);
+	if (cached && cached.version === document.version) {
+		return cached.model;
+	}
+	const model = scan(document.getText());
+	scanCache.set(document.uri, { version: document.version, model });
+	return model;
+}
+
+/**
+ * Removes a document from the scan cache
+ * @param uri the uri of the document
+ */
+export function forgetDocument(uri: string) {
+	scanCache.delete(uri);
+}
+
+/**
+ * Returns true if the span contains the offset (inclusive of the end,
+ * so that a cursor placed right after a word is considered inside it)
+ */
+export function spanContains(span: TextSpan, offset: number): boolean {
+	return offset >= span.start && offset <= span.end;
+}
+
+/**
+ * Returns the text of a doc comment, without the comment markers
+ * @param comment the doc comment token
+ */
+export function getDocCommentText(comment: Token): string {
+	return comment.text
+		.replace(/^\/\*\*/, '')
+		.replace(/\*\/$/, '')
+		.split('\n')
+		.map(line => line.replace(/^\s*\*\s?/, '').trimEnd())
+		.join('\n')
+		.trim();
+}
@@ -0,0 +1,110 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { LanguageServerState } from '../types';
+import { resolveTypeName } from './modelIndex';
+import { PRIMITIVE_TYPES, ScannedDeclaration, ScannedDecorator, ScannedImport, ScannedModel, ScannedProperty, ScannedTypeReference, spanContains, TextSpan } from './scanner';
+
+/**
+ * The symbol at a position in a document
+ */
+export type SymbolAtPosition =
+	| { kind: 'declaration'; span: TextSpan; namespace?: string; declaration: ScannedDeclaration }
+	| { kind: 'typeReference'; span: TextSpan; namespace?: string; name: string; reference: ScannedTypeReference }
+	| { kind: 'property'; span: TextSpan; declaration: ScannedDeclaration; property: ScannedProperty }
+	| { kind: 'namespace'; span: TextSpan; namespace: string; import?: ScannedImport }
+	| { kind: 'decorator'; span: TextSpan; decorator: ScannedDecorator }
+	| { kind: 'primitive'; span: TextSpan; name: string; reference: ScannedTypeReference };
+
+/**
+ * Finds the symbol at an offset in a scanned document. Type references are resolved
+ * to the namespace that declares them, using the imports of the document.
+ *
+ * @param state the language server state
+ * @param model the scanned document
+ * @param offset the offset in the document
+ * @returns the symbol, or undefined if there is no symbol at the offset
+ */
+export function getSymbolAt(state: LanguageServerState, model: ScannedModel, offset: number): SymbolAtPosition | undefined {
+	const namespace = model.namespace?.name;
+
+	if (model.namespace && spanContains(model.namespace.span, offset)) {
+		return { kind: 'namespace', span: model.namespace.span, namespace: model.namespace.name };
+	}
+
+	for (const imp of model.imports) {
+		if (spanContains(imp.namespaceSpan, offset)) {
+			return { kind: 'namespace', span: imp.namespaceSpan, namespace: imp.namespace, import: imp };
+		}
+		if (imp.uri && spanContains(imp.uri.span, offset)) {
+			return { kind: 'namespace', span: imp.uri.span, namespace: imp.namespace, import: imp };
+		}
+		// an alias refers to the imported type
+		for (const [name, alias] of Object.entries(imp.aliases)) {
+			if (spanContains(alias.span, offset)) {
+				const reference = imp.types.find(t => t.name === name)!;
+				return { kind: 'typeReference', span: alias.span, namespace: imp.namespace, name, reference: { ...reference, role: 'import' } };
+			}
+		}
+	}
+
+	const reference = model.typeReferences.find(r => spanContains(r.span, offset));
+	if (reference) {
+		if (reference.role === 'import') {
+			const imp = model.imports.find(i => i.types.some(t => t.span.start === reference.span.start));
+			return { kind: 'typeReference', span: reference.span, namespace: imp?.namespace, name: reference.name, reference };
+		}
+		const resolved = resolveTypeName(state, model, reference.name);
+		if (!resolved && PRIMITIVE_TYPES.includes(reference.name)) {
+			return { kind: 'primitive', span: reference.span, name: reference.name, reference };
+		}
+		return { kind: 'typeReference', span: reference.span, namespace: resolved?.namespace, name: resolved?.name ?? reference.name, reference };
+	}
+
+	for (const declaration of model.declarations) {
+		if (!spanContains(declaration.span, offset)) {
+			continue;
+		}
+		if (spanContains(declaration.name.span, offset)) {
+			return { kind: 'declaration', span: declaration.name.span, namespace, declaration };
+		}
+		if (declaration.superType && declaration.kind === 'scalar' && spanContains(declaration.superType.span, offset)) {
+			return { kind: 'primitive', span: declaration.superType.span, name: declaration.superType.name, reference: { ...declaration.superType, role: 'extends', declaration } };
+		}
+		const decorator = [...declaration.decorators, ...declaration.properties.flatMap(p => p.decorators)].find(d => spanContains(d.span, offset));
+		if (decorator) {
+			return { kind: 'decorator', span: decorator.span, decorator };
+		}
+		for (const property of declaration.properties) {
+			if (property.name && spanContains(property.name.span, offset)) {
+				return { kind: 'property', span: property.name.span, declaration, property };
+			}
+		}
+		// the identifying field refers to a property
+		if (declaration.identifiedBy && spanContains(declaration.identifiedBy.span, offset)) {
+			const property = declaration.properties.find(p => p.name?.name === declaration.identifiedBy!.name);
+			if (property) {
+				return { kind: 'property', span: declaration.identifiedBy.span, declaration, property };
+			}
+		}
+	}
+
+	const decorator = model.decorators.find(d => spanContains(d.span, offset));
+	if (decorator) {
+		return { kind: 'decorator', span: decorator.span, decorator };
+	}
+
+	return undefined;
+}
@@ -0,0 +1,196 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+export type TokenType = 'identifier' | 'number' | 'string' | 'regex' | 'uri' | 'comment' | 'punctuation';
+
+/**
+ * A lexical token from a CTO document. Offsets are zero based
+ * and the end offset is exclusive.
+ */
+export type Token = {
+	type: TokenType;
+	text: string;
+	start: number;
+	end: number;
+}
+
+const IDENTIFIER_START = /[\p{L}\p{Nl}$_]/u;
+const IDENTIFIER_PART = /[\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}$_\u200C\u200D]/u;
+const DIGIT = /[0-9]/;
+const WHITESPACE = /\s/;
+
+/**
+ * Splits the text of a CTO document into tokens. Unlike the Concerto parser
+ * the tokenizer never fails, so it can be used on documents that are
+ * being edited and are not (yet) valid.
+ *
+ * @param text the text of the document
+ * @returns the tokens, including comments
+ */
+export function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	let pos = 0;
+
+	const push = (type: TokenType, start: number, end: number) => {
+		tokens.push({ type, text: text.substring(start, end), start, end });
+		pos = end;
+	};
+
+	const previous = () => {
+		for (let n = tokens.length - 1; n >= 0; n--) {
+			if (tokens[n].type !== 'comment') {
+				return tokens[n];
+			}
+		}
+		return undefined;
+	};
+
+	while (pos < text.length) {
+		const ch = text[pos];
+
+		if (WHITESPACE.test(ch)) {
+			pos++;
+			continue;
+		}
+
+		const start = pos;
+
+		// comments
+		if (text.startsWith('//', pos)) {
+			const eol = text.indexOf('\n', pos);
+			push('comment', start, eol === -1 ? text.length : eol);
+			continue;
+		}
+		if (text.startsWith('/*', pos)) {
+			const close = text.indexOf('*/', pos + 2);
+			push('comment', start, close === -1 ? text.length : close + 2);
+			continue;
+		}
+
+		// the uri of an import is everything up to the next whitespace
+		const prev = previous();
+		if (prev && prev.type === 'identifier' && prev.text === 'from') {
+			let end = pos;
+			while (end < text.length && !WHITESPACE.test(text[end])) {
+				end++;
+			}
+			push('uri', start, end);
+			continue;
+		}
+
+		// strings, which may be unterminated while the user is typing
+		if (ch === '"' || ch === '\'') {
+			let end = pos + 1;
+			while (end < text.length && text[end] !== ch && text[end] !== '\n') {
+				end += text[end] === '\\' ? 2 : 1;
+			}
+			push('string', start, Math.min(text.length, end < text.length && text[end] === ch ? end + 1 : end));
+			continue;
+		}
+
+		// regular expressions only appear as the value of a regex validator
+		if (ch === '/' && prev && prev.text === '=') {
+			let end = pos + 1;
+			while (end < text.length && text[end] !== '/' && text[end] !== '\n') {
+				end += text[end] === '\\' ? 2 : 1;
+			}
+			if (end < text.length && text[end] === '/') {
+				end++;
+				while (end < text.length && /[a-z]/i.test(text[end])) {
+					end++;
+				}
+			}
+			push('regex', start, Math.min(text.length, end));
+			continue;
+		}
+
+		if (IDENTIFIER_START.test(ch)) {
+			let end = pos + 1;
+			while (end < text.length && IDENTIFIER_PART.test(text[end])) {
+				end++;
+			}
+			push('identifier', start, end);
+			continue;
+		}
+
+		// numbers, including dotted versions such as 1.0.0
+		if (DIGIT.test(ch)) {
+			let end = pos + 1;
+			while (end < text.length && (DIGIT.test(text[end]) || (text[end] === '.' && DIGIT.test(text[end + 1] ?? '')))) {
+				end++;
+			}
+			if (end < text.length && /[eE]/.test(text[end]) && /[-+0-9]/.test(text[end + 1] ?? '')) {
+				end += 2;
+				while (end < text.length && DIGIT.test(text[end])) {
+					end++;
+				}
+			}
+			push('number', start, end);
+			continue;
+		}
+
+		if (text.startsWith('-->', pos)) {
+			push('punctuation', start, pos + 3);
+			continue;
+		}
+		if (text.startsWith('[]', pos)) {
+			push('punctuation', start, pos + 2);
+			continue;
+		}
+
+		push('punctuation', start, pos + 1);
+	}
+
+	return tokens;
+}
+
+/**
+ * Finds the index of the token that contains an offset, or that ends
+ * exactly at the offset (the token the cursor is touching).
+ *
+ * @param tokens the tokens of the document
+ * @param offset the offset in the document
+ * @returns the index of the token, or -1 if the offset is in whitespace
+ */
+export function findTokenIndexAt(tokens: Token[], offset: number): number {
+	let low = 0;
+	let high = tokens.length - 1;
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		const token = tokens[mid];
+		if (offset < token.start) {
+			high = mid - 1;
+		}
+		else if (offset > token.end) {
+			low = mid + 1;
+		}
+		else {
+			// prefer the token that starts at the offset over the one that ends there
+			if (offset === token.end && mid + 1 < tokens.length && tokens[mid + 1].start === offset) {
+				return mid + 1;
+			}
+			return mid;
+		}
+	}
+	return -1;
+}
+
+/**
+ * Returns true if the token is a doc comment (a block comment starting with a double asterisk)
+ * @param token the token
+ */
+export function isDocComment(token: Token): boolean {
+	return token.type === 'comment' && token.text.startsWith('/**') && token.text !== '/**/';
+}
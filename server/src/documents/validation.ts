@@ -0,0 +1,369 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { ModelFile } from '@accordproject/concerto-core';
+import { Parser } from '@accordproject/concerto-cto';
+import { Diagnostic, DiagnosticRelatedInformation, DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from './edits';
+import { getModelFileDocument, locateDeclaration, resolveTypeName } from './modelIndex';
+import { ScannedDeclaration, ScannedModel, ScannedName, ScannedProperty, scanDocument, spanContains, TextSpan } from './scanner';
+
+/**
+ * The codes of the diagnostics reported for Concerto models
+ */
+export type ModelDiagnosticCode =
+	'syntax-error' |
+	'unknown-namespace' |
+	'unknown-import' |
+	'conflicting-import-versions' |
+	'duplicate-namespace' |
+	'duplicate-name' |
+	'undeclared-type' |
+	'invalid-super-type' |
+	'invalid-identifier' |
+	'external-models' |
+	'invalid-namespace' |
+	'invalid-model';
+
+/**
+ * The codes of the errors thrown by Concerto, from their message
+ */
+const ERROR_CODES: [RegExp, ModelDiagnosticCode][] = [
+	[/more than one field|Duplicate/i, 'duplicate-name'],
+	[/identif/i, 'invalid-identifier'],
+	[/super ?type|super ?class|extend/i, 'invalid-super-type'],
+	[/Undeclared type|not defined in namespace|No registered namespace|Type not found/i, 'undeclared-type'],
+];
+
+/**
+ * The fully qualified name of a property, in the context of Concerto errors
+ */
+const PROPERTY_CONTEXT = /"property [^"]*\.([^".]+)\.([^".]+)"/;
+
+function createDiagnostic(document: TextDocument, span: TextSpan, message: string, code: ModelDiagnosticCode, source: string, relatedInformation?: DiagnosticRelatedInformation[]): Diagnostic {
+	const diagnostic: Diagnostic = {
+		severity: code === 'external-models' ? DiagnosticSeverity.Warning : DiagnosticSeverity.Error,
+		range: toRange(document, span),
+		message,
+		code,
+		source
+	};
+	if (relatedInformation && relatedInformation.length > 0) {
+		diagnostic.relatedInformation = relatedInformation;
+	}
+	return diagnostic;
+}
+
+function related(document: TextDocument, span: TextSpan, message: string): DiagnosticRelatedInformation {
+	return { location: { uri: document.uri, range: toRange(document, span) }, message };
+}
+
+function mentions(message: string, name: string) {
+	const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+	return new RegExp(`(^|[^\\w$])${escaped}($|[^\\w$])`).test(message);
+}
+
+/**
+ * Returns the syntax errors of a CTO document. The parser stops at the first error,
+ * so the namespace and imports are also parsed on their own, and with each of the
+ * declarations after the first error, to report the errors of the other declarations.
+ * @param document the text document
+ * @returns the diagnostics, or no diagnostics if the document parses
+ */
+export function getSyntaxDiagnostics(document: TextDocument): Diagnostic[] {
+	const text = document.getText();
+	// the errors of a candidate text, at the offset of the document where the candidate starts
+	const parseError = (candidate: string, shift = 0, from = 0) => {
+		try {
+			Parser.parse(candidate, document.uri);
+			return undefined;
+		}
+		catch (error: any) {
+			const toOffset = (offset: number) => offset < from ? offset : offset + shift;
+			const start: number = error.fileLocation?.start?.offset ?? 0;
+			const end: number = error.fileLocation?.end?.offset ?? start;
+			return { message: error.shortMessage ?? error.message, start: toOffset(start), end: toOffset(end) };
+		}
+	};
+
+	const first = parseError(text);
+	if (!first) {
+		return [];
+	}
+	const model = scanDocument(document);
+	const errors: ReturnType<typeof parseError>[] = [first];
+	if (model.declarations.length > 0) {
+		// each declaration (and the text before it) is parsed after the namespace and imports
+		const preamble = text.substring(0, model.declarations[0].span.start);
+		errors.push(parseError(preamble));
+		model.declarations.forEach((declaration, n) => {
+			const start = n === 0 ? preamble.length : model.declarations[n - 1].span.end;
+			// the declarations before the first error parse
+			if (declaration.span.end > first.start) {
+				errors.push(parseError(preamble + text.substring(start, declaration.span.end), start - preamble.length, preamble.length));
+			}
+		});
+	}
+
+	const diagnostics = new Map<number, Diagnostic>();
+	errors.forEach(error => {
+		if (!error || diagnostics.has(error.start)) {
+			return;
+		}
+		const { start } = error;
+		let end = error.end;
+		if (end <= start) {
+			// highlight the token where the error was found
+			const token = model.tokens.find(t => t.start <= start && start < t.end);
+			end = token ? token.end : start;
+		}
+		diagnostics.set(start, createDiagnostic(document, { start, end }, error.message, 'syntax-error', 'syntax'));
+	});
+	return [...diagnostics.values()].sort((a, b) => document.offsetAt(a.range.start) - document.offsetAt(b.range.start));
+}
+
+/**
+ * Returns the diagnostic for a document declaring a namespace that is already
+ * declared by another document in the model manager
+ * @param state the language server state
+ * @param document the text document
+ * @param namespace the namespace declared by the document
+ * @returns the diagnostic, or undefined if the namespace is not declared by another document
+ */
+export function getDuplicateNamespaceDiagnostic(state: LanguageServerState, document: TextDocument, namespace: string): Diagnostic | undefined {
+	const modelFile = state.modelManager.getModelFile(namespace);
+	if (!modelFile || modelFile.isExternal() || modelFile.isSystemModelFile() || modelFile.getName() === document.uri) {
+		return undefined;
+	}
+	const other = getModelFileDocument(state, modelFile);
+	const otherNamespace = other ? scanDocument(other).namespace : undefined;
+	if (!other || !otherNamespace || otherNamespace.name !== namespace) {
+		return undefined;
+	}
+	const span = scanDocument(document).namespace?.span ?? { start: 0, end: 0 };
+	return createDiagnostic(document, span, `Namespace ${namespace} is already declared in ${other.uri}`, 'duplicate-namespace', 'model',
+		[related(other, otherNamespace.span, `${namespace} is declared here`)]);
+}
+
+/**
+ * Returns the diagnostic of a model that parses but is rejected by the model
+ * manager, such as an unversioned namespace in strict mode
+ * @param document the text document
+ * @param error the error thrown by the model manager
+ */
+export function getRejectedModelDiagnostic(document: TextDocument, error: any): Diagnostic {
+	const span = scanDocument(document).namespace?.span ?? { start: 0, end: 0 };
+	return createDiagnostic(document, span, error.shortMessage ?? error.message, 'invalid-namespace', 'model');
+}
+
+/**
+ * Returns the code of an error thrown by Concerto
+ * @param message the message of the error
+ */
+function getErrorCode(message: string): ModelDiagnosticCode {
+	return ERROR_CODES.find(([pattern]) => pattern.test(message))?.[1] ?? 'invalid-model';
+}
+
+/**
+ * Checks the imports of a model, reporting every unknown namespace and type
+ */
+function checkImports(state: LanguageServerState, document: TextDocument, model: ScannedModel): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	const versions = new Map<string, { version: string | undefined; span: TextSpan }>();
+	model.imports.forEach(imp => {
+		const [name, version] = imp.namespace.split('@');
+		const seen = versions.get(name);
+		if (seen && seen.version !== version && name !== 'concerto') {
+			diagnostics.push(createDiagnostic(document, imp.namespaceSpan, `Namespace ${name} is imported with versions ${seen.version} and ${version}`, 'conflicting-import-versions', 'model',
+				[related(document, seen.span, 'Also imported here')]));
+		}
+		else if (!seen) {
+			versions.set(name, { version, span: imp.namespaceSpan });
+		}
+
+		const importedFile = state.modelManager.getModelFile(imp.namespace);
+		if (!importedFile) {
+			diagnostics.push(createDiagnostic(document, imp.namespaceSpan, `No registered namespace for "${imp.namespace}"`, 'unknown-namespace', 'model'));
+			return;
+		}
+		imp.types
+			.filter(type => !importedFile.getLocalType(type.name))
+			.forEach(type => diagnostics.push(createDiagnostic(document, type.span, `Type "${type.name}" is not defined in namespace "${imp.namespace}"`, 'unknown-import', 'model')));
+	});
+	return diagnostics;
+}
+
+/**
+ * Checks that the names of the declarations of a model are unique
+ */
+function checkDeclarationNames(document: TextDocument, model: ScannedModel): Diagnostic[] {
+	const diagnostics: Diagnostic[] = [];
+	const seen = new Map<string, ScannedName>();
+	model.declarations.forEach(declaration => {
+		const first = seen.get(declaration.name.name);
+		if (first) {
+			diagnostics.push(createDiagnostic(document, declaration.name.span, `Duplicate class name ${model.namespace?.name}.${declaration.name.name}`, 'duplicate-name', 'model',
+				[related(document, first.span, `${first.name} is first declared here`)]));
+		}
+		else {
+			seen.set(declaration.name.name, declaration.name);
+		}
+	});
+	return diagnostics;
+}
+
+/**
+ * Converts an error thrown by Concerto while validating a model to a diagnostic,
+ * ranging over the part of the declaration the error is about
+ * @param state the language server state
+ * @param document the document of the model file
+ * @param model the scanned document
+ * @param error the error
+ * @param context the declaration and property being validated, when the error has no location
+ */
+function toModelDiagnostic(state: LanguageServerState, document: TextDocument, model: ScannedModel, error: any, context: { declaration?: ScannedDeclaration; property?: ScannedProperty }): Diagnostic {
+	const message: string = error.shortMessage ?? error.message;
+	const code = getErrorCode(message);
+	let declaration = context.declaration;
+	let property = context.property;
+
+	// errors located in the document take precedence over the context, as
+	// validating a declaration may fail on another declaration
+	const offset = error.fileName === document.uri ? error.fileLocation?.start?.offset : undefined;
+	if (offset !== undefined) {
+		declaration = model.declarations.find(d => spanContains(d.span, offset)) ?? declaration;
+		property = declaration?.properties.find(p => p.span.start === offset);
+	}
+	const propertyContext = message.match(PROPERTY_CONTEXT);
+	if (propertyContext) {
+		declaration = model.declarations.find(d => d.name.name === propertyContext[1]) ?? declaration;
+		property = declaration?.properties.find(p => p.name?.name === propertyContext[2]) ?? property;
+	}
+
+	let target: ScannedName | undefined;
+	const relatedInformation: DiagnosticRelatedInformation[] = [];
+	if (property) {
+		target = property.type && mentions(message, property.type.name) ? property.type : property.name;
+	}
+	else if (declaration) {
+		const duplicate = declaration.properties.filter(p => p.name && mentions(message, `"${p.name.name}"`));
+		if (code === 'duplicate-name' && duplicate.length > 1) {
+			target = duplicate[duplicate.length - 1].name;
+			relatedInformation.push(related(document, duplicate[0].name!.span, `${duplicate[0].name!.name} is first declared here`));
+		}
+		else if (code === 'invalid-super-type' && declaration.superType) {
+			target = declaration.superType;
+		}
+		else if (code === 'invalid-identifier' && declaration.identifiedBy) {
+			target = declaration.identifiedBy;
+		}
+		else {
+			target = declaration.name;
+		}
+	}
+	else {
+		target = model.typeReferences.find(r => mentions(message, `"${r.name}"`) || message.includes(`.${r.name}"`)) ?? model.namespace;
+	}
+
+	// point at the declaration of the type the error is about
+	let type: ScannedName | undefined;
+	if (target && (target === declaration?.superType || target === property?.type)) {
+		type = target;
+	}
+	else if (declaration?.superType && mentions(message, declaration.superType.name)) {
+		type = declaration.superType;
+	}
+	if (type) {
+		const resolved = resolveTypeName(state, model, type.name);
+		const located = resolved ? locateDeclaration(state, resolved.namespace, resolved.name) : undefined;
+		if (located) {
+			relatedInformation.push(related(located.document, located.declaration.name.span, `${located.declaration.name.name} is declared here`));
+		}
+	}
+	return createDiagnostic(document, target?.span ?? { start: 0, end: 0 }, message, code, 'model', relatedInformation);
+}
+
+/**
+ * Returns the errors of a model file. Concerto stops validating a model file at its
+ * first error, so the imports, declarations and properties are validated separately.
+ * @param state the language server state
+ * @param modelFile the model file
+ * @returns the diagnostics, for the document of the model file
+ */
+export function getModelDiagnostics(state: LanguageServerState, modelFile: ModelFile): Diagnostic[] {
+	const document = getModelFileDocument(state, modelFile);
+	if (!document) {
+		return [];
+	}
+	const model = scanDocument(document);
+	const diagnostics = [...checkImports(state, document, model), ...checkDeclarationNames(document, model)];
+	const report = (error: any, context: { declaration?: ScannedDeclaration; property?: ScannedProperty }) => {
+		diagnostics.push(toModelDiagnostic(state, document, model, error, context));
+	};
+
+	modelFile.getAllDeclarations().forEach((classDeclaration: any) => {
+		const declaration = model.declarations.find(d => d.name.name === classDeclaration.getName());
+		try {
+			classDeclaration.validate();
+		}
+		catch (error) {
+			report(error, { declaration });
+		}
+		// the properties cannot be listed when the supertype is missing
+		let properties: any[] = [];
+		try {
+			properties = classDeclaration.getOwnProperties?.() ?? [];
+		}
+		catch (error) {
+			report(error, { declaration });
+		}
+		properties.forEach(p => {
+			try {
+				p.validate(classDeclaration);
+			}
+			catch (error) {
+				report(error, { declaration, property: declaration?.properties.find(sp => sp.name?.name === p.getName()) });
+			}
+		});
+	});
+
+	// the same error may be reported by a declaration and by its properties
+	const keys = new Set<string>();
+	return diagnostics.filter(d => {
+		const key = `${d.message}|${d.range.start.line}:${d.range.start.character}`;
+		if (keys.has(key)) {
+			return false;
+		}
+		keys.add(key);
+		return true;
+	});
+}
+
+/**
+ * Returns the diagnostic reported when the external models cannot be downloaded,
+ * on the imports of a document that use a uri
+ * @param document the text document
+ * @param error the download error
+ */
+export function getExternalModelsDiagnostics(document: TextDocument, error: any): Diagnostic[] {
+	const model = scanDocument(document);
+	const message = `Failed to download the external models: ${error.message ?? error}`;
+	return model.imports
+		.filter(imp => imp.uri)
+		.map(imp => createDiagnostic(document, imp.uri!.span, message, 'external-models', 'model'));
+}
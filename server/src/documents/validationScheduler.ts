@@ -0,0 +1,85 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { CancellationToken, CancellationTokenSource } from 'vscode-languageserver';
+import { log } from '../state';
+
+/**
+ * The delay, in milliseconds, between the last change to a document and its validation
+ */
+export const VALIDATION_DELAY = 300;
+
+type PendingValidation = {
+	timer: ReturnType<typeof setTimeout>;
+	source: CancellationTokenSource;
+}
+
+/**
+ * Schedules the validation of documents once they stop changing. Scheduling
+ * a validation cancels the pending (or running) validation of the document.
+ */
+export class ValidationScheduler {
+
+	private pending = new Map<string, PendingValidation>();
+
+	public constructor(private delay: number = VALIDATION_DELAY) {
+	}
+
+	/**
+	 * Schedules the validation of a document
+	 * @param uri the uri of the document
+	 * @param validate the validation, which should stop when its token is cancelled
+	 */
+	public schedule(uri: string, validate: (token: CancellationToken) => Promise<void>) {
+		this.cancel(uri);
+		const source = new CancellationTokenSource();
+		const timer = setTimeout(async () => {
+			try {
+				await validate(source.token);
+			}
+			catch (error) {
+				log(`Failed to validate ${uri}: ${error}`);
+			}
+			finally {
+				if (this.pending.get(uri)?.source === source) {
+					this.pending.delete(uri);
+				}
+				source.dispose();
+			}
+		}, this.delay);
+		this.pending.set(uri, { timer, source });
+	}
+
+	/**
+	 * Cancels the validation of a document
+	 * @param uri the uri of the document
+	 */
+	public cancel(uri: string) {
+		const pending = this.pending.get(uri);
+		if (pending) {
+			clearTimeout(pending.timer);
+			pending.source.cancel();
+			this.pending.delete(uri);
+		}
+	}
+
+	/**
+	 * Returns true if the validation of a document is scheduled or running
+	 * @param uri the uri of the document
+	 */
+	public isPending(uri: string): boolean {
+		return this.pending.has(uri);
+	}
+}
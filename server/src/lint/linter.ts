@@ -0,0 +1,170 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as path from 'path-browserify';
+import { ModelFile } from '@accordproject/concerto-core';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+
+import { LanguageServerState } from '../types';
+import { getSettings, LintSettings, LintSeverity } from '../settings';
+import { log } from '../state';
+import { scanDocument } from '../documents/scanner';
+import { LINT_RULES, LintRuleId } from './rules';
+
+/**
+ * The name of the file configuring the lint rules of a folder and its subfolders
+ */
+export const LINT_CONFIG_FILE = '.concertolint.json';
+
+/**
+ * The severity of each lint rule
+ */
+export type LintConfig = Record<LintRuleId, LintSeverity>;
+
+const SEVERITIES: Record<Exclude<LintSeverity, 'off'>, DiagnosticSeverity> = {
+	error: DiagnosticSeverity.Error,
+	warning: DiagnosticSeverity.Warning,
+	information: DiagnosticSeverity.Information,
+	hint: DiagnosticSeverity.Hint,
+};
+
+/**
+ * Combines the lint settings and the contents of a .concertolint.json file
+ * (which has the same shape as the settings and takes precedence) with the
+ * default severities of the rules
+ * @param settings the lint settings
+ * @param file the parsed .concertolint.json file, if there is one
+ */
+export function getLintConfig(settings: LintSettings, file?: Partial<LintSettings>): LintConfig {
+	const enabled = file?.enabled ?? settings.enabled;
+	const rules: Record<string, unknown> = { ...settings.rules, ...file?.rules };
+	const isSeverity = (value: unknown): value is LintSeverity => value === 'off' || (typeof value === 'string' && value in SEVERITIES);
+	const config = {} as LintConfig;
+	LINT_RULES.forEach(rule => {
+		const severity = rules[rule.id];
+		if (severity !== undefined && !isSeverity(severity)) {
+			log(`Ignored invalid severity for lint rule ${rule.id}: ${severity}`);
+		}
+		config[rule.id] = !enabled ? 'off' : isSeverity(severity) ? severity : rule.defaultSeverity;
+	});
+	return config;
+}
+
+/**
+ * The .concertolint.json files found for the folders of the documents, until
+ * a .concertolint.json file changes
+ */
+const lintConfigFiles = new Map<string, Promise<Partial<LintSettings> | undefined>>();
+
+/**
+ * Forgets the .concertolint.json files that were read, when one of them changes
+ */
+export function forgetLintConfigFiles() {
+	lintConfigFiles.clear();
+}
+
+/**
+ * Finds and reads the .concertolint.json file of a folder, in the folder or
+ * the closest parent folder within its workspace folder
+ */
+async function findLintConfigFile(state: LanguageServerState, folderUri: URI, boundary?: URI): Promise<Partial<LintSettings> | undefined> {
+	let folder = folderUri.path;
+	for (;;) {
+		const file = folderUri.with({ path: path.join(folder, LINT_CONFIG_FILE) }).toString();
+		try {
+			const exists = await state.connection!.sendRequest('vfs/exists', { path: file });
+			if (exists) {
+				const contents: string = await state.connection!.sendRequest('vfs/readFile', { path: file });
+				return JSON.parse(contents);
+			}
+		}
+		catch (error) {
+			log(`Failed to read ${file}: ${error}`);
+			return undefined;
+		}
+		const parent = path.dirname(folder);
+		if (parent === folder || folder === boundary?.path) {
+			return undefined;
+		}
+		folder = parent;
+	}
+}
+
+/**
+ * Returns the .concertolint.json file of a document, in its folder or the
+ * closest parent folder within its workspace folder
+ * @param state the language server state
+ * @param uri the uri of the document
+ * @returns the parsed file, or undefined if there is none
+ */
+export async function readLintConfigFile(state: LanguageServerState, uri: string): Promise<Partial<LintSettings> | undefined> {
+	if (!state.connection) {
+		return undefined;
+	}
+	const documentUri = URI.parse(uri);
+	const folderUri = documentUri.with({ path: path.dirname(documentUri.path) });
+	const key = folderUri.toString();
+	let file = lintConfigFiles.get(key);
+	if (!file) {
+		const workspaceFolder = state.projects.getWorkspaceFolder(uri);
+		file = findLintConfigFile(state, folderUri, workspaceFolder ? URI.parse(workspaceFolder) : undefined);
+		lintConfigFiles.set(key, file);
+	}
+	return file;
+}
+
+/**
+ * Lints a valid CTO document
+ * @param state the language server state
+ * @param document the text document
+ * @param modelFile the model file of the document
+ * @param config the severity of each rule
+ * @returns the diagnostics, with lint as their source and the rule id as their code
+ */
+export function lintDocument(state: LanguageServerState, document: TextDocument, modelFile: ModelFile, config: LintConfig): Diagnostic[] {
+	const context = { state, document, model: scanDocument(document), modelFile };
+	return LINT_RULES.filter(rule => config[rule.id] !== 'off').flatMap(rule => {
+		const severity = SEVERITIES[config[rule.id] as Exclude<LintSeverity, 'off'>];
+		return rule.check(context).map(problem => {
+			const diagnostic: Diagnostic = {
+				severity,
+				range: { start: document.positionAt(problem.span.start), end: document.positionAt(problem.span.end) },
+				message: problem.message,
+				code: rule.id,
+				source: 'lint'
+			};
+			if (rule.tag) {
+				diagnostic.tags = [rule.tag];
+			}
+			return diagnostic;
+		});
+	});
+}
+
+/**
+ * Lints a valid CTO document using the settings and .concertolint.json file
+ * of the document, replacing its lint diagnostics
+ * @param state the language server state
+ * @param document the text document
+ * @param modelFile the model file of the document
+ */
+export async function lintConcertoDocument(state: LanguageServerState, document: TextDocument, modelFile: ModelFile) {
+	const settings = await getSettings(state, document.uri);
+	const config = getLintConfig(settings.lint, await readLintConfigFile(state, document.uri));
+	state.diagnostics.clearErrors(document.uri, 'lint');
+	lintDocument(state, document, modelFile, config).forEach(diagnostic => state.diagnostics.addDiagnostic(document.uri, diagnostic));
+}
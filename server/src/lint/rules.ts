@@ -0,0 +1,187 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { ModelFile } from '@accordproject/concerto-core';
+import { DiagnosticTag } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { LintSeverity } from '../settings';
+import { isDeprecated, locateDeclaration, resolveTypeName } from '../documents/modelIndex';
+import { ScannedModel, TextSpan } from '../documents/scanner';
+import { findTypeReferences } from '../providers/referencesProvider';
+
+export type LintRuleId =
+	'naming-convention' |
+	'unused-import' |
+	'unused-declaration' |
+	'missing-doc-comment' |
+	'optional-identifier' |
+	'broad-string' |
+	'deprecated';
+
+/**
+ * The document being linted
+ */
+export type LintContext = {
+	state: LanguageServerState;
+	document: TextDocument;
+	model: ScannedModel;
+	/**
+	 * The model file of the document, which is valid
+	 */
+	modelFile: ModelFile;
+}
+
+export type LintProblem = {
+	span: TextSpan;
+	message: string;
+}
+
+export type LintRule = {
+	id: LintRuleId;
+	description: string;
+	defaultSeverity: LintSeverity;
+	tag?: DiagnosticTag;
+	check: (context: LintContext) => LintProblem[];
+}
+
+const PASCAL_CASE = /^[A-Z][A-Za-z0-9]*$/;
+const CAMEL_CASE = /^[a-z][A-Za-z0-9]*$/;
+
+/**
+ * The types suggested for string fields, from the words of their names
+ */
+const STRING_SUGGESTIONS: [(words: string[]) => boolean, string][] = [
+	[words => ['date', 'time', 'timestamp'].includes(words[0]) || (words.length > 1 && ['date', 'time', 'timestamp', 'at'].includes(words[words.length - 1])), 'DateTime'],
+	[words => ['count', 'quantity', 'amount', 'age', 'total'].includes(words[words.length - 1]), 'Integer, Long or Double'],
+	[words => ['is', 'has'].includes(words[0]) && words.length > 1, 'Boolean'],
+	[words => ['email', 'url', 'uri', 'phone'].includes(words[words.length - 1]), 'a scalar or a regex validator'],
+];
+
+function checkNamingConvention({ model }: LintContext): LintProblem[] {
+	const problems: LintProblem[] = [];
+	model.declarations.forEach(declaration => {
+		if (!PASCAL_CASE.test(declaration.name.name)) {
+			problems.push({ span: declaration.name.span, message: `Declaration "${declaration.name.name}" should be named in PascalCase` });
+		}
+		declaration.properties
+			.filter(p => p.name && (p.kind === 'field' || p.kind === 'relationship') && !CAMEL_CASE.test(p.name.name))
+			.forEach(p => problems.push({ span: p.name!.span, message: `Property "${p.name!.name}" should be named in camelCase` }));
+	});
+	return problems;
+}
+
+function checkUnusedImports({ state, model }: LintContext): LintProblem[] {
+	const problems: LintProblem[] = [];
+	const used = model.typeReferences.filter(r => r.role !== 'import');
+	model.imports.forEach(imp => {
+		if (imp.wildcard) {
+			if (!used.some(r => resolveTypeName(state, model, r.name)?.namespace === imp.namespace)) {
+				problems.push({ span: imp.namespaceSpan, message: `No type of ${imp.namespace} is used` });
+			}
+			return;
+		}
+		imp.types.forEach(type => {
+			const local = imp.aliases[type.name] ?? type;
+			if (!used.some(r => r.name === local.name)) {
+				problems.push({ span: type.span, message: `"${local.name}" is imported but never used` });
+			}
+		});
+	});
+	return problems;
+}
+
+/**
+ * Reports the declarations that are only useful when used by other declarations
+ * (abstract declarations, enums, scalars and maps), and are never used
+ */
+function checkUnusedDeclarations({ state, document, model }: LintContext): LintProblem[] {
+	const namespace = model.namespace?.name;
+	if (!namespace) {
+		return [];
+	}
+	return model.declarations
+		.filter(d => d.isAbstract || d.kind === 'enum' || d.kind === 'scalar' || d.kind === 'map')
+		.filter(d => !findTypeReferences(state, namespace, d.name.name).some(r =>
+			r.reference?.role !== 'import' && !(r.document.uri === document.uri && r.reference?.declaration?.name.name === d.name.name)))
+		.map(d => ({ span: d.name.span, message: `"${d.name.name}" is never used` }));
+}
+
+function checkDocComments({ model }: LintContext): LintProblem[] {
+	return model.declarations
+		.filter(d => !d.docComment)
+		.map(d => ({ span: d.name.span, message: `"${d.name.name}" has no doc comment` }));
+}
+
+function checkOptionalIdentifiers({ model }: LintContext): LintProblem[] {
+	const problems: LintProblem[] = [];
+	model.declarations.filter(d => d.identifiedBy).forEach(declaration => {
+		declaration.properties
+			.filter(p => p.name?.name === declaration.identifiedBy!.name && p.isOptional)
+			.forEach(p => problems.push({ span: p.name!.span, message: `The identifying field "${p.name!.name}" should not be optional` }));
+	});
+	return problems;
+}
+
+/**
+ * Reports the string fields without validators whose name suggests a more specific type
+ */
+function checkBroadStrings({ model, modelFile }: LintContext): LintProblem[] {
+	const problems: LintProblem[] = [];
+	const ast: any = modelFile.getAst();
+	model.declarations.forEach(declaration => {
+		const declarationAst = (ast.declarations ?? []).find((d: any) => d.name === declaration.name.name);
+		declaration.properties
+			.filter(p => p.kind === 'field' && p.name && p.type?.name === 'String' && !p.isArray)
+			.forEach(p => {
+				const propertyAst = (declarationAst?.properties ?? []).find((prop: any) => prop.name === p.name!.name);
+				if (propertyAst?.validator || propertyAst?.lengthValidator || p.name!.name === declaration.identifiedBy?.name) {
+					return;
+				}
+				const words = p.name!.name.split(/(?=[A-Z])/).map(w => w.toLowerCase());
+				const suggestion = STRING_SUGGESTIONS.find(([matches]) => matches(words));
+				if (suggestion) {
+					problems.push({ span: p.type!.span, message: `"${p.name!.name}" is a String, consider using ${suggestion[1]}` });
+				}
+			});
+	});
+	return problems;
+}
+
+function checkDeprecatedUsage({ state, model }: LintContext): LintProblem[] {
+	const problems: LintProblem[] = [];
+	model.typeReferences.filter(r => r.role !== 'import').forEach(reference => {
+		const resolved = resolveTypeName(state, model, reference.name);
+		const located = resolved ? locateDeclaration(state, resolved.namespace, resolved.name) : undefined;
+		if (located && isDeprecated(located.declaration) && reference.declaration?.name.name !== resolved!.name) {
+			problems.push({ span: reference.span, message: `"${reference.name}" is deprecated` });
+		}
+	});
+	return problems;
+}
+
+/**
+ * The lint rules, which can be configured in the settings or a .concertolint.json file
+ */
+export const LINT_RULES: LintRule[] = [
+	{ id: 'naming-convention', description: 'Declarations are named in PascalCase and properties in camelCase', defaultSeverity: 'warning', check: checkNamingConvention },
+	{ id: 'unused-import', description: 'Imported types are used', defaultSeverity: 'warning', tag: DiagnosticTag.Unnecessary, check: checkUnusedImports },
+	{ id: 'unused-declaration', description: 'Abstract declarations, enums, scalars and maps are used', defaultSeverity: 'warning', tag: DiagnosticTag.Unnecessary, check: checkUnusedDeclarations },
+	{ id: 'missing-doc-comment', description: 'Declarations have a doc comment', defaultSeverity: 'information', check: checkDocComments },
+	{ id: 'optional-identifier', description: 'Identifying fields are not optional', defaultSeverity: 'warning', check: checkOptionalIdentifiers },
+	{ id: 'broad-string', description: 'String fields that hold dates, numbers or flags use a more specific type', defaultSeverity: 'information', check: checkBroadStrings },
+	{ id: 'deprecated', description: 'Deprecated declarations are not used', defaultSeverity: 'warning', tag: DiagnosticTag.Deprecated, check: checkDeprecatedUsage },
+];
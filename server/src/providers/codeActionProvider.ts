@@ -0,0 +1,206 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { CodeAction, CodeActionKind, CodeActionParams, Diagnostic, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { createAddImportEdit, toRange } from '../documents/edits';
+import { getAllDeclarations, getUserModelFiles } from '../documents/modelIndex';
+import { ScannedImport, ScannedModel, scanDocument, spanContains } from '../documents/scanner';
+
+/**
+ * The code actions of this provider, the others are contributed by the copilot
+ */
+export const CODE_ACTION_KINDS = [CodeActionKind.QuickFix, CodeActionKind.RefactorRewrite];
+
+function quickFix(title: string, document: TextDocument, edits: TextEdit[], diagnostics: Diagnostic[], isPreferred = false): CodeAction {
+	return {
+		title,
+		kind: CodeActionKind.QuickFix,
+		diagnostics,
+		isPreferred,
+		edit: { changes: { [document.uri]: edits } }
+	};
+}
+
+/**
+ * Imports an undeclared type from the other namespaces that declare it
+ */
+function getAddImportFixes(state: LanguageServerState, document: TextDocument, model: ScannedModel, diagnostic: Diagnostic, name: string): CodeAction[] {
+	const candidates = getAllDeclarations(state).filter(d => d.name === name && d.namespace !== model.namespace?.name);
+	return candidates.flatMap(candidate => {
+		const edit = createAddImportEdit(document, model, candidate.namespace, name);
+		return edit ? [quickFix(`Import ${name} from ${candidate.namespace}`, document, [edit], [diagnostic], candidates.length === 1)] : [];
+	});
+}
+
+/**
+ * Declares an undeclared type at the end of the document. Supertypes are declared
+ * as abstract declarations of the same kind, and relationship targets are identified.
+ */
+function getCreateDeclarationFix(document: TextDocument, model: ScannedModel, diagnostic: Diagnostic, name: string): CodeAction | undefined {
+	const offset = document.offsetAt(diagnostic.range.start);
+	const reference = model.typeReferences.find(r => r.span.start === offset && r.name === name);
+	if (!reference || model.declarations.some(d => d.name.name === name)) {
+		return undefined;
+	}
+	let header = `concept ${name}`;
+	if (reference.role === 'extends' && reference.declaration) {
+		header = `abstract ${reference.declaration.kind} ${name}`;
+	}
+	else if (reference.role === 'relationship') {
+		header = `concept ${name} identified`;
+	}
+	const text = document.getText();
+	const separator = text.endsWith('\n') ? '\n' : '\n\n';
+	const end = document.positionAt(text.length);
+	return quickFix(`Create ${header}`, document,
+		[TextEdit.insert(end, `${separator}${header} {\n}\n`)], [diagnostic]);
+}
+
+/**
+ * Replaces the version of an imported namespace by the versions declared in the workspace
+ */
+function getNamespaceVersionFixes(state: LanguageServerState, document: TextDocument, imp: ScannedImport, diagnostic: Diagnostic): CodeAction[] {
+	const name = imp.namespace.split('@')[0];
+	return getUserModelFiles(state)
+		.map(mf => mf.getNamespace())
+		.filter(ns => ns !== imp.namespace && ns.split('@')[0] === name)
+		.filter(ns => imp.types.every(t => state.modelManager.getModelFile(ns).getLocalType(t.name)))
+		.map((ns, n, all) => quickFix(`Change the import to ${ns}`, document, [TextEdit.replace(toRange(document, imp.namespaceSpan), ns)], [diagnostic], all.length === 1));
+}
+
+/**
+ * Returns the edit removing types from an import, or the whole import
+ * when none of its types are left
+ */
+function createRemoveImportEdit(document: TextDocument, imp: ScannedImport, removed: string[]): TextEdit {
+	const remaining = imp.types.filter(t => !removed.includes(t.name));
+	if (imp.wildcard || remaining.length === 0) {
+		// remove the line of the import
+		const start = document.offsetAt({ line: document.positionAt(imp.span.start).line, character: 0 });
+		const end = document.offsetAt({ line: document.positionAt(imp.span.end).line + 1, character: 0 });
+		return TextEdit.del(toRange(document, { start, end }));
+	}
+	const text = document.getText();
+	const last = imp.types[imp.types.length - 1];
+	const span = { start: imp.types[0].span.start, end: imp.aliases[last.name]?.span.end ?? last.span.end };
+	const types = remaining.map(t => imp.aliases[t.name] ? text.substring(t.span.start, imp.aliases[t.name].span.end) : t.name);
+	return TextEdit.replace(toRange(document, span), types.join(', '));
+}
+
+function getRemoveImportFixes(document: TextDocument, model: ScannedModel, diagnostic: Diagnostic, unused: Diagnostic[]): CodeAction[] {
+	const offset = document.offsetAt(diagnostic.range.start);
+	const imp = model.imports.find(i => spanContains(i.span, offset));
+	if (!imp) {
+		return [];
+	}
+	const name = document.getText(diagnostic.range);
+	const actions = [quickFix(imp.wildcard ? `Remove the import of ${imp.namespace}` : `Remove the unused import ${name}`, document,
+		[createRemoveImportEdit(document, imp, imp.wildcard ? [] : [name])], [diagnostic], true)];
+
+	if (unused.length > 1) {
+		const edits: TextEdit[] = [];
+		model.imports.forEach(i => {
+			const removed = unused.filter(d => spanContains(i.span, document.offsetAt(d.range.start)));
+			if (removed.length > 0) {
+				edits.push(createRemoveImportEdit(document, i, i.wildcard ? [] : removed.map(d => document.getText(d.range))));
+			}
+		});
+		actions.push(quickFix('Remove all the unused imports', document, edits, unused));
+	}
+	return actions;
+}
+
+/**
+ * Makes the field at a range optional
+ */
+function getMakeOptionalAction(document: TextDocument, model: ScannedModel, range: Range): CodeAction | undefined {
+	const offset = document.offsetAt(range.start);
+	const declaration = model.declarations.find(d => spanContains(d.span, offset));
+	const property = declaration?.properties.find(p => spanContains(p.span, offset));
+	if (!declaration || !property || !property.name || property.isOptional || (property.kind !== 'field' && property.kind !== 'relationship') || property.name.name === declaration.identifiedBy?.name) {
+		return undefined;
+	}
+	const span = property.span;
+	const last = model.tokens.filter(t => t.type !== 'comment' && t.start >= span.start && t.end <= span.end).pop();
+	if (!last) {
+		return undefined;
+	}
+	return {
+		title: `Make ${property.name.name} optional`,
+		kind: CodeActionKind.RefactorRewrite,
+		edit: { changes: { [document.uri]: [TextEdit.insert(document.positionAt(last.end), ' optional')] } }
+	};
+}
+
+/**
+ * Computes the code actions for a range of a CTO document
+ * @param state the language server state
+ * @param document the text document
+ * @param range the range of the code actions
+ * @param diagnostics the diagnostics at the range
+ */
+export function getCodeActions(state: LanguageServerState, document: TextDocument, range: Range, diagnostics: Diagnostic[]): CodeAction[] {
+	const model = scanDocument(document);
+	const actions: CodeAction[] = [];
+	const unusedImports = [...(state.diagnostics?.diagnosticMap[document.uri] ?? [])].filter(d => d.code === 'unused-import');
+
+	diagnostics.forEach(diagnostic => {
+		const name = document.getText(diagnostic.range);
+		const imp = model.imports.find(i => spanContains(i.span, document.offsetAt(diagnostic.range.start)));
+		switch (diagnostic.code) {
+		case 'undeclared-type':
+		case 'invalid-super-type': {
+			actions.push(...getAddImportFixes(state, document, model, diagnostic, name));
+			const create = getCreateDeclarationFix(document, model, diagnostic, name);
+			if (create) {
+				actions.push(create);
+			}
+			break;
+		}
+		case 'unknown-namespace':
+		case 'unknown-import':
+		case 'conflicting-import-versions':
+			if (imp) {
+				actions.push(...getNamespaceVersionFixes(state, document, imp, diagnostic));
+			}
+			break;
+		case 'unused-import':
+			actions.push(...getRemoveImportFixes(document, model, diagnostic, unusedImports.length > 0 ? unusedImports : [diagnostic]));
+			break;
+		}
+	});
+
+	const optional = getMakeOptionalAction(document, model, range);
+	if (optional) {
+		actions.push(optional);
+	}
+	return actions;
+}
+
+/**
+ * Handles textDocument/codeAction requests
+ * @param state the language server state
+ * @param params the code action parameters
+ */
+export function handleCodeAction(state: LanguageServerState, params: CodeActionParams): CodeAction[] {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	return getCodeActions(state, document, params.range, params.context.diagnostics);
+}
@@ -0,0 +1,160 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { ClassDeclaration } from '@accordproject/concerto-core';
+import { CodeLens, CodeLensParams, Command, Location } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { getUserModelFiles, locateDeclaration } from '../documents/modelIndex';
+import { scanDocument } from '../documents/scanner';
+
+/**
+ * A declaration that uses a type, with the property that refers to the type,
+ * or no property for a subtype
+ */
+type TypeUsage = {
+	namespace: string;
+	name: string;
+	property?: string;
+}
+
+/**
+ * The declarations that use each type, keyed by fully qualified name
+ */
+export type TypeUsages = {
+	references: Map<string, TypeUsage[]>;
+	subtypes: Map<string, TypeUsage[]>;
+}
+
+/**
+ * Returns the result of a function, or undefined if the type it resolves is not found
+ */
+function tryResolve(resolve: () => string | null): string | undefined {
+	try {
+		return resolve() ?? undefined;
+	}
+	catch {
+		return undefined;
+	}
+}
+
+function addUsage(usages: Map<string, TypeUsage[]>, fqn: string | undefined, usage: TypeUsage) {
+	if (fqn) {
+		usages.set(fqn, [...(usages.get(fqn) ?? []), usage]);
+	}
+}
+
+/**
+ * Finds the types used by the fields and relationships of the models, and
+ * the supertypes of the declarations, as resolved by the model manager
+ * @param state the language server state
+ */
+export function getTypeUsages(state: LanguageServerState): TypeUsages {
+	const usages: TypeUsages = { references: new Map(), subtypes: new Map() };
+	getUserModelFiles(state).forEach(mf => {
+		const namespace = mf.getNamespace();
+		mf.getAllDeclarations().forEach(declaration => {
+			const name = declaration.getName();
+			if (declaration.isClassDeclaration()) {
+				const classDeclaration = declaration as ClassDeclaration;
+				addUsage(usages.subtypes, tryResolve(() => classDeclaration.getSuperType()), { namespace, name });
+				classDeclaration.getOwnProperties()
+					.filter(p => !p.isPrimitive())
+					.forEach(p => addUsage(usages.references, tryResolve(() => p.getFullyQualifiedTypeName()), { namespace, name, property: p.getName() }));
+			}
+		});
+	});
+	return usages;
+}
+
+/**
+ * Returns the location of a usage of a type, in the documents of the models
+ */
+function locateUsage(state: LanguageServerState, usage: TypeUsage): Location | undefined {
+	const located = locateDeclaration(state, usage.namespace, usage.name);
+	if (!located) {
+		return undefined;
+	}
+	let span = located.declaration.name.span;
+	if (usage.property) {
+		span = located.declaration.properties.find(p => p.name?.name === usage.property)?.name?.span ?? span;
+	}
+	return Location.create(located.document.uri, toRange(located.document, span));
+}
+
+function plural(count: number, word: string) {
+	return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Shows the locations of some usages, or nothing if there are none
+ */
+function showUsagesCommand(state: LanguageServerState, location: Location, title: string, usages: TypeUsage[]): Command {
+	if (usages.length === 0) {
+		return Command.create(title, '');
+	}
+	const locations = usages.map(u => locateUsage(state, u)).filter((l): l is Location => !!l);
+	return Command.create(title, 'cicero-vscode-extension.showLocations', location.uri, location.range.start, locations);
+}
+
+/**
+ * Computes the code lenses of a CTO document: above each declaration, the
+ * number of references and subtypes, and actions to generate a sample instance
+ * and to show the declaration in a diagram
+ * @param state the language server state
+ * @param document the text document
+ */
+export function getCodeLenses(state: LanguageServerState, document: TextDocument): CodeLens[] {
+	const model = scanDocument(document);
+	const namespace = model.namespace?.name;
+	if (!namespace) {
+		return [];
+	}
+	const usages = getTypeUsages(state);
+	const lenses: CodeLens[] = [];
+	model.declarations.forEach(declaration => {
+		const fqn = `${namespace}.${declaration.name.name}`;
+		const range = toRange(document, declaration.name.span);
+		const location = Location.create(document.uri, range);
+		const isClass = !['enum', 'map', 'scalar'].includes(declaration.kind);
+
+		const references = usages.references.get(fqn) ?? [];
+		lenses.push({ range, command: showUsagesCommand(state, location, plural(references.length, 'reference'), references) });
+		if (isClass) {
+			const subtypes = usages.subtypes.get(fqn) ?? [];
+			lenses.push({ range, command: showUsagesCommand(state, location, plural(subtypes.length, 'subtype'), subtypes) });
+		}
+		if (isClass && !declaration.isAbstract) {
+			lenses.push({ range, command: Command.create('Generate sample JSON', 'cicero-vscode-extension.generateSampleJson', document.uri, fqn) });
+		}
+		lenses.push({ range, command: Command.create('Show in diagram', 'cicero-vscode-extension.previewModelDiagram', document.uri) });
+	});
+	return lenses;
+}
+
+/**
+ * Handles textDocument/codeLens requests
+ * @param state the language server state
+ * @param params the code lens parameters
+ */
+export function handleCodeLens(state: LanguageServerState, params: CodeLensParams): CodeLens[] {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	return getCodeLenses(state, document);
+}
@@ -0,0 +1,352 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { CompletionItem, CompletionItemKind, CompletionParams, InsertTextFormat, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { createAddImportEdit } from '../documents/edits';
+import { findDeclaration, getNamespaceDeclarations, getUserModelFiles, getWorkspaceDecorators, resolveTypeName, DeclarationSummary } from '../documents/modelIndex';
+import { DECLARATION_KEYWORDS, DeclarationKind, PRIMITIVE_TYPES, ScannedDeclaration, ScannedModel, scanDocument, spanContains } from '../documents/scanner';
+import { findTokenIndexAt } from '../documents/tokenizer';
+
+export const COMPLETION_TRIGGER_CHARACTERS = ['@', '.', '{', ',', '"', '>'];
+
+/**
+ * Sort prefixes, so that the types closest in scope are listed first
+ */
+const RANK = {
+	LOCAL: '0',
+	IMPORTED: '1',
+	PRIMITIVE: '2',
+	KEYWORD: '3',
+	WORKSPACE: '4',
+};
+
+const DECLARATION_COMPLETION_KINDS: Record<DeclarationKind, CompletionItemKind> = {
+	concept: CompletionItemKind.Class,
+	asset: CompletionItemKind.Class,
+	participant: CompletionItemKind.Class,
+	transaction: CompletionItemKind.Event,
+	event: CompletionItemKind.Event,
+	enum: CompletionItemKind.Enum,
+	map: CompletionItemKind.Struct,
+	scalar: CompletionItemKind.TypeParameter,
+};
+
+const CLASS_KINDS: DeclarationKind[] = ['concept', 'asset', 'participant', 'transaction', 'event'];
+
+const PROPERTY_MODIFIERS = ['optional', 'default=', 'regex=', 'range=', 'length='];
+
+type TypeFilter = (kind: DeclarationKind) => boolean;
+
+function keyword(label: string, snippet?: string): CompletionItem {
+	return {
+		label,
+		kind: snippet ? CompletionItemKind.Snippet : CompletionItemKind.Keyword,
+		insertText: snippet ?? label,
+		insertTextFormat: snippet ? InsertTextFormat.Snippet : InsertTextFormat.PlainText,
+		sortText: `${RANK.KEYWORD}${label}`
+	};
+}
+
+function declarationItem(decl: DeclarationSummary, rank: string, label = decl.name): CompletionItem {
+	return {
+		label,
+		kind: DECLARATION_COMPLETION_KINDS[decl.kind],
+		detail: `${decl.isAbstract ? 'abstract ' : ''}${decl.kind} ${decl.namespace}.${decl.name}`,
+		sortText: `${rank}${label}`
+	};
+}
+
+/**
+ * Returns completions for types that are in scope (local, imported and primitive)
+ * and for types from other namespaces, which are imported when selected
+ */
+function getTypeCompletions(state: LanguageServerState, document: TextDocument, model: ScannedModel, filter: TypeFilter, includePrimitives: boolean, exclude?: string, preferredKind?: DeclarationKind): CompletionItem[] {
+	const items: CompletionItem[] = [];
+	const inScope = new Set<string>();
+	const namespace = model.namespace?.name;
+	// types of the preferred kind are listed before all others
+	const rankOf = (rank: string, kind: DeclarationKind) => preferredKind && kind !== preferredKind ? `9${rank}` : rank;
+
+	// declarations in this document, from the text so that they are up to date
+	model.declarations.forEach(decl => {
+		if (decl.name.name !== exclude && filter(decl.kind) && namespace) {
+			inScope.add(decl.name.name);
+			items.push(declarationItem({
+				name: decl.name.name,
+				namespace,
+				kind: decl.kind,
+				isAbstract: decl.isAbstract,
+				identified: decl.identified,
+				fileName: document.uri,
+				ast: null
+			}, rankOf(RANK.LOCAL, decl.kind)));
+		}
+	});
+
+	// imported declarations
+	model.imports.forEach(imp => {
+		const candidates = imp.wildcard
+			? getNamespaceDeclarations(state, imp.namespace).map(d => ({ decl: d, label: d.name }))
+			: imp.types.map(t => ({ decl: findDeclaration(state, imp.namespace, t.name), label: imp.aliases[t.name]?.name ?? t.name }));
+		candidates.forEach(({ decl, label }) => {
+			if (decl && filter(decl.kind) && !inScope.has(label)) {
+				inScope.add(label);
+				items.push(declarationItem(decl, rankOf(RANK.IMPORTED, decl.kind), label));
+			}
+		});
+	});
+
+	if (includePrimitives) {
+		PRIMITIVE_TYPES.forEach(type => {
+			inScope.add(type);
+			items.push({
+				label: type,
+				kind: CompletionItemKind.Keyword,
+				detail: 'primitive type',
+				sortText: `${RANK.PRIMITIVE}${type}`
+			});
+		});
+	}
+
+	// declarations in other namespaces, which need to be imported
+	getUserModelFiles(state)
+		.filter(mf => mf.getNamespace() !== namespace)
+		.flatMap(mf => getNamespaceDeclarations(state, mf.getNamespace()))
+		.filter(decl => filter(decl.kind) && !inScope.has(decl.name))
+		.forEach(decl => {
+			const item = declarationItem(decl, rankOf(RANK.WORKSPACE, decl.kind));
+			const edit = createAddImportEdit(document, model, decl.namespace, decl.name);
+			if (edit) {
+				item.additionalTextEdits = [edit];
+			}
+			items.push(item);
+		});
+
+	return items;
+}
+
+function getDecoratorCompletions(state: LanguageServerState, model: ScannedModel): CompletionItem[] {
+	const decorators = getWorkspaceDecorators(state);
+	const all = [model.decorators, ...model.declarations.map(d => d.decorators), ...model.declarations.flatMap(d => d.properties.map(p => p.decorators))];
+	all.flat().forEach(d => {
+		if (!decorators.has(d.name)) {
+			decorators.set(d.name, 1);
+		}
+	});
+	return [...decorators.entries()].map(([name, count]) => ({
+		label: name,
+		kind: CompletionItemKind.Property,
+		detail: `decorator (used ${count} time${count === 1 ? '' : 's'})`,
+		// the most used decorators first
+		sortText: `${String(100000 - count).padStart(6, '0')}${name}`
+	}));
+}
+
+function getImportCompletions(state: LanguageServerState, model: ScannedModel, importText: string, range: Range): CompletionItem[] {
+	const namespaces = getUserModelFiles(state)
+		.map(mf => mf.getNamespace())
+		.filter(ns => ns !== model.namespace?.name);
+
+	// import org.acme@1.0.0.{A, B
+	const braces = importText.indexOf('.{');
+	if (braces > 0) {
+		const namespace = importText.substring(0, braces);
+		const listed = importText.substring(braces + 2).split(',').map(s => s.trim());
+		return getNamespaceDeclarations(state, namespace)
+			.filter(d => !listed.includes(d.name))
+			.map(d => declarationItem(d, RANK.IMPORTED));
+	}
+
+	// import org.acme@1.0.0.A
+	const dot = importText.lastIndexOf('.');
+	const namespace = dot > 0 ? importText.substring(0, dot) : undefined;
+	if (namespace && namespaces.includes(namespace)) {
+		return [
+			...getNamespaceDeclarations(state, namespace).map(d => declarationItem(d, RANK.IMPORTED)),
+			{ ...keyword('*'), detail: 'import all types' },
+			{ ...keyword('{', '{$1}'), detail: 'import several types' },
+		];
+	}
+
+	// namespaces contain dots, so replace the whole text typed after 'import'
+	return namespaces.map(ns => ({
+		label: ns,
+		kind: CompletionItemKind.Module,
+		sortText: `${RANK.IMPORTED}${ns}`,
+		filterText: ns,
+		textEdit: TextEdit.replace(range, ns)
+	}));
+}
+
+function getEnumValueCompletions(state: LanguageServerState, model: ScannedModel, typeName: string): CompletionItem[] {
+	const resolved = resolveTypeName(state, model, typeName);
+	const local = model.declarations.find(d => d.name.name === typeName && d.kind === 'enum');
+	const values = local
+		? local.properties.map(p => p.name?.name).filter((n): n is string => !!n)
+		: (resolved ? findDeclaration(state, resolved.namespace, resolved.name) : undefined)?.ast?.properties?.map((p: any) => p.name) ?? [];
+	return values.map((value: string, index: number) => ({
+		label: value,
+		kind: CompletionItemKind.EnumMember,
+		detail: `${typeName}.${value}`,
+		sortText: String(index).padStart(4, '0')
+	}));
+}
+
+function getTopLevelCompletions(model: ScannedModel): CompletionItem[] {
+	const items: CompletionItem[] = [];
+	if (!model.namespace) {
+		items.push(keyword('namespace', 'namespace ${1:org.example}@${2:1.0.0}'));
+	}
+	items.push(keyword('import', 'import ${1:namespace}.${2:Type}'));
+	items.push(keyword('abstract'));
+	DECLARATION_KEYWORDS.forEach(kw => {
+		if (kw === 'scalar') {
+			items.push(keyword(kw, 'scalar ${1:Name} extends ${2:String}'));
+		}
+		else if (kw === 'map') {
+			items.push(keyword(kw, 'map ${1:Name} {\n\to ${2:String}\n\to ${3:String}\n}'));
+		}
+		else {
+			items.push(keyword(kw, `${kw} \${1:Name} {\n\t$0\n}`));
+		}
+	});
+	return items;
+}
+
+function findEnclosingDeclaration(model: ScannedModel, offset: number): ScannedDeclaration | undefined {
+	return model.declarations.find(d => spanContains(d.span, offset));
+}
+
+/**
+ * Computes completions for a position in a CTO document, based on the
+ * syntactic context of the position and the state of the model manager.
+ *
+ * @param state the language server state
+ * @param document the text document
+ * @param offset the offset of the cursor
+ * @returns the completion items
+ */
+export function getCompletions(state: LanguageServerState, document: TextDocument, offset: number): CompletionItem[] {
+	const text = document.getText();
+	const model = scanDocument(document);
+	const tokens = model.tokens;
+
+	const index = findTokenIndexAt(tokens, offset);
+	const current = index >= 0 ? tokens[index] : undefined;
+	if (current && current.type === 'comment' && offset > current.start) {
+		return [];
+	}
+
+	// the word being completed starts at the current identifier (if any)
+	const wordStart = current && current.type === 'identifier' ? current.start : offset;
+	const previous = tokens.filter(t => t.end <= wordStart && t.type !== 'comment');
+	const prev1 = previous[previous.length - 1];
+	const prev2 = previous[previous.length - 2];
+	const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+	const linePrefix = text.substring(lineStart, wordStart);
+	const declaration = findEnclosingDeclaration(model, offset);
+	const inBody = declaration?.body && offset >= declaration.body.start && offset <= declaration.body.end;
+
+	// default values of enum typed fields: o State state default="
+	if (current && current.type === 'string' && offset > current.start) {
+		if (prev1?.text === '=' && prev2?.text === 'default' && inBody) {
+			const property = declaration!.properties.find(p => spanContains(p.span, offset));
+			if (property?.type) {
+				return getEnumValueCompletions(state, model, property.type.name);
+			}
+		}
+		return [];
+	}
+
+	if (prev1 && prev1.text === '@' && prev1.end === wordStart) {
+		return getDecoratorCompletions(state, model);
+	}
+
+	// the import statement is parsed from the text, as it is usually incomplete
+	const importMatch = /^\s*import\s+([^\s{]*(\{[^}]*)?)$/.exec(text.substring(lineStart, offset));
+	if (importMatch) {
+		const range = { start: document.positionAt(offset - importMatch[1].length), end: document.positionAt(offset) };
+		return getImportCompletions(state, model, importMatch[1], range);
+	}
+
+	if (prev1?.text === 'namespace' || prev1?.type === 'uri') {
+		return [];
+	}
+
+	// the cursor may be past the end of an incomplete declaration header
+	const extended = prev1?.text === 'extends' ? findEnclosingDeclaration(model, prev1.start) : undefined;
+	if (extended) {
+		if (extended.kind === 'scalar') {
+			return PRIMITIVE_TYPES.map(type => ({ label: type, kind: CompletionItemKind.Keyword, sortText: `${RANK.PRIMITIVE}${type}` }));
+		}
+		// prefer supertypes of the same kind (a concept extends a concept)
+		return getTypeCompletions(state, document, model, kind => CLASS_KINDS.includes(kind), false, extended.name.name, extended.kind);
+	}
+
+	if (inBody) {
+		if (prev1 && (prev1.text === 'o' || prev1.text === '-->') && /^\s*(@.*\s)?(o|-->)\s*$/.test(linePrefix)) {
+			if (declaration!.kind === 'enum') {
+				return [];
+			}
+			if (prev1.text === '-->') {
+				return getTypeCompletions(state, document, model, kind => CLASS_KINDS.includes(kind), false);
+			}
+			return getTypeCompletions(state, document, model, () => true, true);
+		}
+		if (/^\s*(@\S+\s+)*$/.test(linePrefix)) {
+			const items = [keyword('o', 'o ${1:String} ${2:name}')];
+			if (declaration!.kind !== 'enum' && declaration!.kind !== 'map') {
+				items.push(keyword('-->', '--> ${1:Type} ${2:name}'));
+			}
+			return items;
+		}
+		if (/^\s*(o|-->)\s+\S+\s+\S+\s/.test(linePrefix) && declaration!.kind !== 'enum') {
+			return PROPERTY_MODIFIERS.map(m => keyword(m));
+		}
+		return [];
+	}
+
+	// declaration header: concept Foo |
+	const header = /^\s*(abstract\s+)?(concept|asset|participant|transaction|event|scalar)\s+\S+\s+(identified(\s+by\s+\S+)?\s+)?$/.exec(linePrefix);
+	if (header) {
+		const items = [keyword('extends')];
+		if (header[2] !== 'scalar' && !header[3]) {
+			items.push(keyword('identified by', 'identified by ${1:id}'), keyword('identified'));
+		}
+		return items;
+	}
+
+	if (linePrefix.trim() === '' || linePrefix.trim() === 'abstract') {
+		return getTopLevelCompletions(model);
+	}
+
+	return [];
+}
+
+/**
+ * Handles textDocument/completion requests
+ * @param state the language server state
+ * @param params the completion parameters
+ */
+export function handleCompletion(state: LanguageServerState, params: CompletionParams): CompletionItem[] {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	return getCompletions(state, document, document.offsetAt(params.position));
+}
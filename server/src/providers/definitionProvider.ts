@@ -0,0 +1,84 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { DefinitionParams, Location } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { findNamespaceDocument, locateDeclaration, resolveTypeName } from '../documents/modelIndex';
+import { getDocumentModel } from '../documents/parsedModel';
+import { getSymbolAt } from '../documents/symbols';
+
+/**
+ * Computes the definition of the symbol at a position in a CTO document.
+ * Types declared in external models resolve to read-only documents
+ * holding the downloaded source of the model.
+ *
+ * @param state the language server state
+ * @param document the text document
+ * @param offset the offset of the cursor
+ * @returns the location of the definition, or null
+ */
+export function getDefinition(state: LanguageServerState, document: TextDocument, offset: number): Location | null {
+	const model = getDocumentModel(document);
+	const symbol = getSymbolAt(state, model, offset);
+	if (!symbol) {
+		return null;
+	}
+
+	let target: { namespace: string; name: string } | undefined;
+	switch (symbol.kind) {
+	case 'typeReference':
+		target = symbol.namespace ? { namespace: symbol.namespace, name: symbol.name } : undefined;
+		break;
+	case 'property':
+		// the identifying field of a declaration refers to the property
+		if (symbol.property.name && symbol.span.start !== symbol.property.name.span.start) {
+			return Location.create(document.uri, toRange(document, symbol.property.name.span));
+		}
+		target = symbol.property.type ? resolveTypeName(state, model, symbol.property.type.name) : undefined;
+		break;
+	case 'namespace': {
+		if (!symbol.import) {
+			return null;
+		}
+		const found = findNamespaceDocument(state, symbol.namespace);
+		const declared = found ? getDocumentModel(found.document).namespace : undefined;
+		return found && declared ? Location.create(found.document.uri, toRange(found.document, declared.span)) : null;
+	}
+	default:
+		return null;
+	}
+
+	if (!target) {
+		return null;
+	}
+	const located = locateDeclaration(state, target.namespace, target.name);
+	return located ? Location.create(located.document.uri, toRange(located.document, located.declaration.name.span)) : null;
+}
+
+/**
+ * Handles textDocument/definition requests
+ * @param state the language server state
+ * @param params the definition parameters
+ */
+export function handleDefinition(state: LanguageServerState, params: DefinitionParams): Location | null {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return null;
+	}
+	return getDefinition(state, document, document.offsetAt(params.position));
+}
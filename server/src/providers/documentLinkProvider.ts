@@ -0,0 +1,108 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import * as path from 'path-browserify';
+import { DocumentLink, DocumentLinkParams } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { hasScheme } from '../documents/concertoHandler';
+import { EXTERNAL_MODEL_SCHEME, findNamespaceDocument, getExternalModelUri } from '../documents/modelIndex';
+import { DEFAULT_PROJECT } from '../documents/modelProjects';
+import { scanDocument } from '../documents/scanner';
+
+/**
+ * Strings that look like relative file paths, such as "text/grammar.tem.md"
+ */
+const RELATIVE_PATH = /^(\.\/)?[\w@-][\w@.-]*(\/[\w@.-]+)*\.\w+$/;
+
+/**
+ * Links the strings of a model that are paths relative to its project root
+ * (the folder of the package.json file of its template, or else its workspace
+ * folder) to the files
+ */
+async function getTemplatePathLinks(state: LanguageServerState, document: TextDocument): Promise<DocumentLink[]> {
+	const paths = scanDocument(document).tokens
+		.filter(t => t.type === 'string')
+		.map(t => ({ token: t, value: t.text.substring(1, t.text.length - 1) }))
+		.filter(p => RELATIVE_PATH.test(p.value));
+	if (paths.length === 0 || !state.connection) {
+		return [];
+	}
+	// the project of the document was found when the document was opened
+	const projectRoot = state.projects.getRoot(document.uri);
+	if (projectRoot === DEFAULT_PROJECT) {
+		return [];
+	}
+	const root = URI.parse(projectRoot);
+	const links: DocumentLink[] = [];
+	for (const { token, value } of paths) {
+		const target = root.with({ path: path.join(root.path, value) }).toString();
+		if (await state.connection.sendRequest('vfs/exists', { path: target })) {
+			// the quotes are not part of the link
+			const range = toRange(document, { start: token.start + 1, end: token.end - 1 });
+			links.push({ range, target, tooltip: `Open ${value} in the template` });
+		}
+	}
+	return links;
+}
+
+/**
+ * Computes the links of a CTO document: imported namespaces link to the model
+ * files that declare them, and the urls of external imports to the read-only
+ * documents of the downloaded models. Paths relative to the project root are
+ * linked to the files of the project.
+ * @param state the language server state
+ * @param document the text document
+ */
+export async function getDocumentLinks(state: LanguageServerState, document: TextDocument): Promise<DocumentLink[]> {
+	const links: DocumentLink[] = [];
+	scanDocument(document).imports.forEach(imp => {
+		const found = findNamespaceDocument(state, imp.namespace);
+		if (found && found.document.uri !== document.uri) {
+			links.push({
+				range: toRange(document, imp.namespaceSpan),
+				target: found.document.uri,
+				tooltip: `Open the model of ${imp.namespace}`
+			});
+		}
+		if (imp.uri) {
+			links.push({
+				range: toRange(document, imp.uri.span),
+				target: getExternalModelUri(imp.namespace),
+				tooltip: `Open the external model ${imp.namespace}, downloaded from ${imp.uri.name}`
+			});
+		}
+	});
+	if (hasScheme(document.uri) && !document.uri.startsWith(`${EXTERNAL_MODEL_SCHEME}:`)) {
+		links.push(...await getTemplatePathLinks(state, document));
+	}
+	return links;
+}
+
+/**
+ * Handles textDocument/documentLink requests
+ * @param state the language server state
+ * @param params the document link parameters
+ */
+export async function handleDocumentLinks(state: LanguageServerState, params: DocumentLinkParams): Promise<DocumentLink[]> {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	return getDocumentLinks(state, document);
+}
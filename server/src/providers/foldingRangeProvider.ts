@@ -0,0 +1,101 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { FoldingRange, FoldingRangeKind, FoldingRangeParams } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { getDocumentModel } from '../documents/parsedModel';
+import { ScannedDecorator, TextSpan } from '../documents/scanner';
+
+/**
+ * Folds the lines of a span, when it spans several lines
+ */
+function foldSpan(document: TextDocument, span: TextSpan, kind?: FoldingRangeKind): FoldingRange | undefined {
+	const startLine = document.positionAt(span.start).line;
+	const endLine = document.positionAt(span.end).line;
+	return endLine > startLine ? FoldingRange.create(startLine, endLine, undefined, undefined, kind) : undefined;
+}
+
+function foldDecorators(document: TextDocument, decorators: ScannedDecorator[]): FoldingRange | undefined {
+	return decorators.length > 0
+		? foldSpan(document, { start: decorators[0].fullSpan.start, end: decorators[decorators.length - 1].fullSpan.end })
+		: undefined;
+}
+
+/**
+ * Computes the folding ranges of a CTO document, from its parsed model (or its
+ * scanned model while it does not parse): the
+ * bodies of declarations (keeping the closing brace visible), groups of
+ * imports, blocks of decorators and multi-line comments
+ * @param document the text document
+ */
+export function getFoldingRanges(document: TextDocument): FoldingRange[] {
+	const model = getDocumentModel(document);
+	const text = document.getText();
+	const ranges: (FoldingRange | undefined)[] = [];
+
+	if (model.imports.length > 0) {
+		ranges.push(foldSpan(document, { start: model.imports[0].span.start, end: model.imports[model.imports.length - 1].span.end }, FoldingRangeKind.Imports));
+	}
+
+	ranges.push(foldDecorators(document, model.decorators));
+	model.declarations.forEach(declaration => {
+		ranges.push(foldDecorators(document, declaration.decorators));
+		declaration.properties.forEach(property => ranges.push(foldDecorators(document, property.decorators)));
+
+		const end = declaration.span.end;
+		const closed = text.charAt(end - 1) === '}';
+		const range = foldSpan(document, { start: declaration.name.span.start, end });
+		if (range && closed) {
+			range.endLine--;
+		}
+		if (range && range.endLine > range.startLine) {
+			ranges.push(range);
+		}
+	});
+
+	// consecutive line comments are folded together
+	let group: TextSpan | undefined;
+	model.comments.forEach((comment, n) => {
+		if (comment.text.startsWith('/*')) {
+			ranges.push(foldSpan(document, comment, FoldingRangeKind.Comment));
+			return;
+		}
+		group = group ?? { start: comment.start, end: comment.end };
+		group.end = comment.end;
+		const next = model.comments[n + 1];
+		const adjacent = next && next.text.startsWith('//') && document.positionAt(next.start).line === document.positionAt(comment.end).line + 1;
+		if (!adjacent) {
+			ranges.push(foldSpan(document, group, FoldingRangeKind.Comment));
+			group = undefined;
+		}
+	});
+
+	return ranges.filter((r): r is FoldingRange => !!r).sort((a, b) => a.startLine - b.startLine);
+}
+
+/**
+ * Handles textDocument/foldingRange requests
+ * @param state the language server state
+ * @param params the folding range parameters
+ */
+export function handleFoldingRanges(state: LanguageServerState, params: FoldingRangeParams): FoldingRange[] {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	return getFoldingRanges(document);
+}
@@ -0,0 +1,89 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { DocumentFormattingParams, DocumentRangeFormattingParams, FormattingOptions, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { getLineEdits } from '../documents/edits';
+import { FormatOptions, formatModel } from '../documents/formatter';
+import { FormattingSettings, getSettings } from '../settings';
+import { log } from '../state';
+
+/**
+ * Combines the formatting settings of the extension with the options of the editor
+ * @param settings the formatting settings
+ * @param options the formatting options of the editor
+ */
+export function getFormatOptions(settings: FormattingSettings, options: FormattingOptions): FormatOptions {
+	const size = settings.indentSize ?? options.tabSize;
+	return {
+		indent: options.insertSpaces ? ' '.repeat(size) : '\t',
+		sortImports: settings.sortImports,
+		blankLinesBetweenDeclarations: Math.max(0, settings.blankLinesBetweenDeclarations)
+	};
+}
+
+/**
+ * Computes the edits formatting a CTO document
+ * @param document the text document
+ * @param options the format options
+ * @param range the range to format, or undefined to format the whole document
+ * @returns the edits, or no edits if the document cannot be parsed
+ */
+export function getFormattingEdits(document: TextDocument, options: FormatOptions, range?: Range): TextEdit[] {
+	const formatted = formatModel(document.getText(), options);
+	if (formatted === undefined) {
+		log(`Cannot format ${document.uri} as it has syntax errors`);
+		return [];
+	}
+	const edits = getLineEdits(document, formatted);
+	if (!range) {
+		return edits;
+	}
+	// only keep the edits of the lines in the range
+	return edits.filter(edit => {
+		const lastLine = edit.range.end.character === 0 ? Math.max(edit.range.start.line, edit.range.end.line - 1) : edit.range.end.line;
+		return edit.range.start.line <= range.end.line && lastLine >= range.start.line;
+	});
+}
+
+/**
+ * Handles textDocument/formatting requests
+ * @param state the language server state
+ * @param params the formatting parameters
+ */
+export async function handleFormatting(state: LanguageServerState, params: DocumentFormattingParams): Promise<TextEdit[]> {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	const settings = await getSettings(state, document.uri);
+	return getFormattingEdits(document, getFormatOptions(settings.formatting, params.options));
+}
+
+/**
+ * Handles textDocument/rangeFormatting requests
+ * @param state the language server state
+ * @param params the range formatting parameters
+ */
+export async function handleRangeFormatting(state: LanguageServerState, params: DocumentRangeFormattingParams): Promise<TextEdit[]> {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	const settings = await getSettings(state, document.uri);
+	return getFormattingEdits(document, getFormatOptions(settings.formatting, params.options), params.range);
+}
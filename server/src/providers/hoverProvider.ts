@@ -0,0 +1,224 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { Hover, HoverParams, MarkupKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { findNamespaceDocument, getSuperTypeChain, locateDeclaration, LocatedDeclaration, resolveTypeName } from '../documents/modelIndex';
+import { getDocCommentText, ScannedDeclaration, ScannedModel, ScannedProperty, scanDocument } from '../documents/scanner';
+import { getSymbolAt } from '../documents/symbols';
+
+/**
+ * The maximum number of lines of an external model to show in a hover
+ */
+const MAX_SOURCE_LINES = 15;
+
+const PRIMITIVE_DESCRIPTIONS: Record<string, string> = {
+	String: 'A sequence of characters',
+	Boolean: 'true or false',
+	DateTime: 'An ISO-8601 date and time',
+	Double: 'A double precision floating point number',
+	Integer: 'A 32 bit signed integer',
+	Long: 'A 64 bit signed integer',
+};
+
+function codeBlock(code: string) {
+	return ['```concerto', code, '```'].join('\n');
+}
+
+/**
+ * Returns the source of a declaration header, e.g. abstract asset Vehicle identified by vin extends Thing
+ */
+function getDeclarationHeader(text: string, declaration: ScannedDeclaration) {
+	const decorators = declaration.decorators.map(d => text.substring(d.fullSpan.start, d.fullSpan.end));
+	const parts = [
+		declaration.isAbstract ? 'abstract' : undefined,
+		declaration.kind,
+		declaration.name.name,
+		declaration.identifiedBy ? `identified by ${declaration.identifiedBy.name}` : declaration.identified ? 'identified' : undefined,
+		declaration.superType ? `extends ${declaration.superType.name}` : undefined,
+	];
+	return [...decorators, parts.filter(p => p).join(' ')].join('\n');
+}
+
+function getIdentifyingField(state: LanguageServerState, located: LocatedDeclaration): string | undefined {
+	if (located.declaration.identifiedBy) {
+		return located.declaration.identifiedBy.name;
+	}
+	for (const fqn of getSuperTypeChain(state, located)) {
+		const dot = fqn.lastIndexOf('.');
+		const superType = locateDeclaration(state, fqn.substring(0, dot), fqn.substring(dot + 1));
+		if (superType?.declaration.identifiedBy) {
+			return superType.declaration.identifiedBy.name;
+		}
+	}
+	return undefined;
+}
+
+/**
+ * Returns the markdown describing a declaration
+ * @param state the language server state
+ * @param located the declaration
+ */
+export function describeDeclaration(state: LanguageServerState, located: LocatedDeclaration): string {
+	const { declaration, document } = located;
+	const sections = [
+		codeBlock(getDeclarationHeader(document.getText(), declaration)),
+		`${declaration.kind} \`${located.namespace}.${declaration.name.name}\``
+	];
+
+	const details: string[] = [];
+	const chain = getSuperTypeChain(state, located);
+	if (chain.length > 0) {
+		details.push(`Extends: ${chain.map(s => `\`${s}\``).join(' → ')}`);
+	}
+	const identifier = getIdentifyingField(state, located);
+	if (identifier) {
+		details.push(`Identified by: \`${identifier}\``);
+	}
+	if (declaration.decorators.length > 0) {
+		details.push(`Decorators: ${declaration.decorators.map(d => `\`@${d.name}\``).join(', ')}`);
+	}
+	if (located.external) {
+		details.push('Declared in an external model');
+	}
+	if (details.length > 0) {
+		sections.push(details.join('  \n'));
+	}
+
+	if (declaration.docComment) {
+		sections.push(getDocCommentText(declaration.docComment));
+	}
+	return sections.join('\n\n');
+}
+
+function describeProperty(state: LanguageServerState, document: TextDocument, model: ScannedModel, declaration: ScannedDeclaration, property: ScannedProperty): string {
+	const text = document.getText();
+	const sections = [
+		codeBlock(text.substring(property.span.start, property.span.end).trim()),
+	];
+	const parent = `${model.namespace?.name}.${declaration.name.name}`;
+	if (property.kind === 'enumValue') {
+		sections.push(`value of enum \`${parent}\``);
+	}
+	else {
+		const type = property.type ? resolveTypeName(state, model, property.type.name) : undefined;
+		const typeName = type ? `${type.namespace}.${type.name}` : property.type?.name;
+		const kind = property.kind === 'relationship' ? 'relationship' : 'field';
+		const isIdentifier = declaration.identifiedBy?.name === property.name?.name;
+		sections.push(`${isIdentifier ? 'identifying ' : ''}${kind} of \`${parent}\`, of type \`${typeName}${property.isArray ? '[]' : ''}\`${property.isOptional ? ' (optional)' : ''}`);
+	}
+	return sections.join('\n\n');
+}
+
+function describeNamespace(state: LanguageServerState, namespace: string, uri?: string): string {
+	const sections = [codeBlock(`namespace ${namespace}`)];
+	const found = findNamespaceDocument(state, namespace);
+	if (uri) {
+		sections.push(`Source: [${uri}](${uri})`);
+	}
+	else if (found && !found.external) {
+		sections.push(`Declared in \`${found.document.uri}\``);
+	}
+	if (found) {
+		const declarations = scanDocument(found.document).declarations;
+		if (declarations.length > 0) {
+			sections.push(`Declares: ${declarations.map(d => `\`${d.name.name}\``).join(', ')}`);
+		}
+		// show the downloaded source of external models
+		if (found.external) {
+			const lines = found.document.getText().split('\n');
+			const preview = lines.slice(0, MAX_SOURCE_LINES).join('\n') + (lines.length > MAX_SOURCE_LINES ? '\n...' : '');
+			sections.push(codeBlock(preview.trim()));
+		}
+	}
+	else if (uri) {
+		sections.push('The external model has not been downloaded.');
+	}
+	return sections.join('\n\n');
+}
+
+/**
+ * Computes the hover for a position in a CTO document
+ * @param state the language server state
+ * @param document the text document
+ * @param offset the offset of the cursor
+ * @returns the hover, or null if there is nothing to show
+ */
+export function getHover(state: LanguageServerState, document: TextDocument, offset: number): Hover | null {
+	const model = scanDocument(document);
+	const symbol = getSymbolAt(state, model, offset);
+	if (!symbol) {
+		return null;
+	}
+
+	let value: string | undefined;
+	switch (symbol.kind) {
+	case 'declaration': {
+		if (model.namespace) {
+			value = describeDeclaration(state, { namespace: model.namespace.name, document, model, declaration: symbol.declaration, external: false });
+		}
+		break;
+	}
+	case 'typeReference': {
+		const located = symbol.namespace ? locateDeclaration(state, symbol.namespace, symbol.name) : undefined;
+		if (located) {
+			value = describeDeclaration(state, located);
+		}
+		else if (symbol.namespace) {
+			value = `${codeBlock(symbol.name)}\n\n\`${symbol.namespace}.${symbol.name}\``;
+		}
+		else {
+			value = `${codeBlock(symbol.name)}\n\nThe type \`${symbol.name}\` is not declared or imported.`;
+		}
+		break;
+	}
+	case 'primitive':
+		value = `${codeBlock(symbol.name)}\n\nprimitive type: ${PRIMITIVE_DESCRIPTIONS[symbol.name]}`;
+		break;
+	case 'property':
+		value = describeProperty(state, document, model, symbol.declaration, symbol.property);
+		break;
+	case 'namespace':
+		value = describeNamespace(state, symbol.namespace, symbol.import?.uri?.name);
+		break;
+	case 'decorator':
+		value = codeBlock(document.getText().substring(symbol.decorator.fullSpan.start, symbol.decorator.fullSpan.end));
+		break;
+	}
+
+	if (!value) {
+		return null;
+	}
+	return {
+		contents: { kind: MarkupKind.Markdown, value },
+		range: toRange(document, symbol.span)
+	};
+}
+
+/**
+ * Handles textDocument/hover requests
+ * @param state the language server state
+ * @param params the hover parameters
+ */
+export function handleHover(state: LanguageServerState, params: HoverParams): Hover | null {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return null;
+	}
+	return getHover(state, document, document.offsetAt(params.position));
+}
@@ -0,0 +1,148 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { Location, ReferenceParams } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { getAllModelDocuments, locateDeclaration, resolveTypeName } from '../documents/modelIndex';
+import { getDocumentModel } from '../documents/parsedModel';
+import { ScannedTypeReference, TextSpan } from '../documents/scanner';
+import { getSymbolAt } from '../documents/symbols';
+
+/**
+ * A reference to a type or namespace in a document
+ */
+export type ReferenceLocation = {
+	document: TextDocument;
+	span: TextSpan;
+	reference?: ScannedTypeReference;
+}
+
+/**
+ * Finds all the references to a declaration, in all the model documents
+ * @param state the language server state
+ * @param namespace the namespace of the declaration
+ * @param name the name of the declaration
+ * @returns the references (excluding the declaration itself)
+ */
+export function findTypeReferences(state: LanguageServerState, namespace: string, name: string): ReferenceLocation[] {
+	const result: ReferenceLocation[] = [];
+	getAllModelDocuments(state).forEach(document => {
+		const model = getDocumentModel(document);
+		// skip documents that cannot refer to the namespace
+		if (model.namespace?.name !== namespace && !model.imports.some(i => i.namespace === namespace)) {
+			return;
+		}
+		model.typeReferences.forEach(reference => {
+			if (reference.role === 'import') {
+				const imp = model.imports.find(i => i.types.some(t => t.span.start === reference.span.start));
+				if (imp?.namespace === namespace && reference.name === name) {
+					result.push({ document, span: reference.span, reference });
+				}
+				return;
+			}
+			const resolved = resolveTypeName(state, model, reference.name);
+			if (resolved && resolved.namespace === namespace && resolved.name === name) {
+				result.push({ document, span: reference.span, reference });
+			}
+		});
+	});
+	return result;
+}
+
+/**
+ * Finds all the imports of a namespace, in all the model documents
+ * @param state the language server state
+ * @param namespace the namespace
+ */
+export function findNamespaceReferences(state: LanguageServerState, namespace: string): ReferenceLocation[] {
+	const result: ReferenceLocation[] = [];
+	getAllModelDocuments(state).forEach(document => {
+		getDocumentModel(document).imports
+			.filter(i => i.namespace === namespace)
+			.forEach(i => result.push({ document, span: i.namespaceSpan }));
+	});
+	return result;
+}
+
+/**
+ * Computes the references for a position in a CTO document
+ * @param state the language server state
+ * @param document the text document
+ * @param offset the offset of the cursor
+ * @param includeDeclaration true to include the declaration in the results
+ */
+export function getReferences(state: LanguageServerState, document: TextDocument, offset: number, includeDeclaration: boolean): Location[] {
+	const model = getDocumentModel(document);
+	const symbol = getSymbolAt(state, model, offset);
+	if (!symbol) {
+		return [];
+	}
+
+	const toLocation = (r: ReferenceLocation) => Location.create(r.document.uri, toRange(r.document, r.span));
+
+	if (symbol.kind === 'namespace') {
+		const references = findNamespaceReferences(state, symbol.namespace).map(toLocation);
+		const declaringDocument = getAllModelDocuments(state).find(d => getDocumentModel(d).namespace?.name === symbol.namespace);
+		const declared = declaringDocument ? getDocumentModel(declaringDocument).namespace : undefined;
+		if (includeDeclaration && declaringDocument && declared) {
+			references.unshift(Location.create(declaringDocument.uri, toRange(declaringDocument, declared.span)));
+		}
+		return references;
+	}
+
+	let namespace: string | undefined;
+	let name: string | undefined;
+	if (symbol.kind === 'declaration') {
+		namespace = symbol.namespace;
+		name = symbol.declaration.name.name;
+	}
+	else if (symbol.kind === 'typeReference') {
+		namespace = symbol.namespace;
+		name = symbol.name;
+	}
+	else if (symbol.kind === 'property' && symbol.property.type) {
+		const resolved = resolveTypeName(state, model, symbol.property.type.name);
+		namespace = resolved?.namespace;
+		name = resolved?.name;
+	}
+	if (!namespace || !name) {
+		return [];
+	}
+
+	const references = findTypeReferences(state, namespace, name).map(toLocation);
+	if (includeDeclaration) {
+		const located = locateDeclaration(state, namespace, name);
+		if (located) {
+			references.unshift(Location.create(located.document.uri, toRange(located.document, located.declaration.name.span)));
+		}
+	}
+	return references;
+}
+
+/**
+ * Handles textDocument/references requests
+ * @param state the language server state
+ * @param params the reference parameters
+ */
+export function handleReferences(state: LanguageServerState, params: ReferenceParams): Location[] {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	return getReferences(state, document, document.offsetAt(params.position), params.context.includeDeclaration);
+}
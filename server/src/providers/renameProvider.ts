@@ -0,0 +1,278 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { ErrorCodes, PrepareRenameParams, Range, RenameParams, ResponseError, TextEdit, WorkspaceEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { EXTERNAL_MODEL_SCHEME, findNamespaceDocument, getAllModelDocuments, getSuperTypeChain, locateDeclaration, LocatedDeclaration, resolveTypeName } from '../documents/modelIndex';
+import { ScannedProperty, scanDocument, TextSpan } from '../documents/scanner';
+import { getSymbolAt } from '../documents/symbols';
+import { findNamespaceReferences, findTypeReferences } from './referencesProvider';
+
+const IDENTIFIER = /^[\p{L}_$][\p{L}\p{N}_$]*$/u;
+const NAMESPACE = /^[\p{L}_$][\p{L}\p{N}_$]*(\.[\p{L}_$][\p{L}\p{N}_$]*)*(@\S+)?$/u;
+
+/**
+ * The symbol being renamed
+ */
+type RenameTarget =
+	| { kind: 'declaration'; span: TextSpan; located: LocatedDeclaration }
+	| { kind: 'property'; span: TextSpan; located: LocatedDeclaration; property: ScannedProperty }
+	| { kind: 'namespace'; span: TextSpan; namespace: string; document: TextDocument };
+
+function renameError(message: string): ResponseError<void> {
+	return new ResponseError(ErrorCodes.InvalidRequest, message);
+}
+
+function isReadOnly(document: TextDocument) {
+	return document.uri.startsWith(`${EXTERNAL_MODEL_SCHEME}:`);
+}
+
+/**
+ * Finds the symbol to rename at an offset of a document
+ * @throws {ResponseError} if the symbol at the offset cannot be renamed
+ */
+function getRenameTarget(state: LanguageServerState, document: TextDocument, offset: number): RenameTarget {
+	const model = scanDocument(document);
+	const symbol = getSymbolAt(state, model, offset);
+	if (!symbol) {
+		throw renameError('You cannot rename this element.');
+	}
+	if (isReadOnly(document)) {
+		throw renameError('External models cannot be renamed.');
+	}
+
+	let located: LocatedDeclaration | undefined;
+	switch (symbol.kind) {
+	case 'declaration':
+		located = model.namespace ? { namespace: model.namespace.name, document, model, declaration: symbol.declaration, external: false } : undefined;
+		break;
+	case 'typeReference': {
+		if (!symbol.namespace) {
+			throw renameError(`The type ${symbol.name} is not declared or imported.`);
+		}
+		if (document.getText().substring(symbol.span.start, symbol.span.end) !== symbol.name) {
+			throw renameError('Aliases of imported types cannot be renamed.');
+		}
+		located = locateDeclaration(state, symbol.namespace, symbol.name);
+		if (!located) {
+			throw renameError(`The declaration of ${symbol.namespace}.${symbol.name} cannot be found.`);
+		}
+		break;
+	}
+	case 'property': {
+		if (!model.namespace) {
+			break;
+		}
+		const owner = { namespace: model.namespace.name, document, model, declaration: symbol.declaration, external: false };
+		return { kind: 'property', span: symbol.span, located: owner, property: symbol.property };
+	}
+	case 'namespace': {
+		if (symbol.import?.uri) {
+			throw renameError('External models cannot be renamed.');
+		}
+		const found = findNamespaceDocument(state, symbol.namespace);
+		if (!found) {
+			throw renameError(`The namespace ${symbol.namespace} cannot be found.`);
+		}
+		if (found.external) {
+			throw renameError('External models cannot be renamed.');
+		}
+		return { kind: 'namespace', span: symbol.span, namespace: symbol.namespace, document: found.document };
+	}
+	case 'primitive':
+		throw renameError('Primitive types cannot be renamed.');
+	default:
+		break;
+	}
+
+	if (!located) {
+		throw renameError('You cannot rename this element.');
+	}
+	if (located.external || isReadOnly(located.document)) {
+		throw renameError('Types declared in external models cannot be renamed.');
+	}
+	return { kind: 'declaration', span: symbol.span, located };
+}
+
+/**
+ * Collects text edits, grouped by document uri
+ */
+class EditCollector {
+	private changes: Record<string, TextEdit[]> = {};
+	private seen = new Set<string>();
+
+	add(document: TextDocument, span: TextSpan, newText: string) {
+		const key = `${document.uri}#${span.start}`;
+		if (isReadOnly(document) || this.seen.has(key)) {
+			return;
+		}
+		this.seen.add(key);
+		(this.changes[document.uri] ??= []).push(TextEdit.replace(toRange(document, span), newText));
+	}
+
+	toWorkspaceEdit(): WorkspaceEdit {
+		return { changes: this.changes };
+	}
+}
+
+function renameDeclaration(state: LanguageServerState, located: LocatedDeclaration, newName: string, edits: EditCollector) {
+	const oldName = located.declaration.name.name;
+	if (!IDENTIFIER.test(newName)) {
+		throw renameError(`'${newName}' is not a valid type name.`);
+	}
+	if (located.model.declarations.some(d => d.name.name === newName) || locateDeclaration(state, located.namespace, newName)) {
+		throw renameError(`The namespace ${located.namespace} already declares ${newName}.`);
+	}
+
+	edits.add(located.document, located.declaration.name.span, newName);
+	findTypeReferences(state, located.namespace, oldName)
+		// references through an alias keep the alias
+		.filter(r => r.reference?.name === oldName)
+		.forEach(r => edits.add(r.document, r.span, newName));
+}
+
+function renameProperty(state: LanguageServerState, located: LocatedDeclaration, property: ScannedProperty, newName: string, edits: EditCollector) {
+	const oldName = property.name!.name;
+	if (!IDENTIFIER.test(newName)) {
+		throw renameError(`'${newName}' is not a valid property name.`);
+	}
+	if (located.declaration.properties.some(p => p.name?.name === newName)) {
+		throw renameError(`${located.declaration.name.name} already has a property named ${newName}.`);
+	}
+
+	const owner = `${located.namespace}.${located.declaration.name.name}`;
+	edits.add(located.document, property.name!.span, newName);
+
+	getAllModelDocuments(state).forEach(document => {
+		const model = scanDocument(document);
+		if (!model.namespace) {
+			return;
+		}
+		model.declarations.forEach(declaration => {
+			// the identifying field of the declaration and its subtypes
+			if (declaration.identifiedBy?.name === oldName) {
+				const candidate = { namespace: model.namespace!.name, document, model, declaration, external: false };
+				const fqn = `${candidate.namespace}.${declaration.name.name}`;
+				if (fqn === owner || getSuperTypeChain(state, candidate).includes(owner)) {
+					edits.add(document, declaration.identifiedBy.span, newName);
+				}
+			}
+			// default values of fields using a renamed enum value
+			if (property.kind === 'enumValue') {
+				declaration.properties
+					.filter(p => p.defaultValue?.name === oldName && p.type)
+					.filter(p => {
+						const type = resolveTypeName(state, model, p.type!.name);
+						return type && `${type.namespace}.${type.name}` === owner;
+					})
+					.forEach(p => {
+						const quote = document.getText().charAt(p.defaultValue!.span.start);
+						edits.add(document, p.defaultValue!.span, quote === '"' || quote === '\'' ? `${quote}${newName}${quote}` : newName);
+					});
+			}
+		});
+	});
+}
+
+function renameNamespace(state: LanguageServerState, namespace: string, document: TextDocument, newName: string, edits: EditCollector) {
+	// keep the version when only the name is changed
+	const version = namespace.includes('@') ? namespace.substring(namespace.indexOf('@')) : '';
+	const newNamespace = newName.includes('@') ? newName : `${newName}${version}`;
+	if (!NAMESPACE.test(newNamespace)) {
+		throw renameError(`'${newName}' is not a valid namespace.`);
+	}
+	if (newNamespace === namespace) {
+		return;
+	}
+	if (state.modelManager.getModelFile(newNamespace) || findNamespaceDocument(state, newNamespace)) {
+		throw renameError(`The namespace ${newNamespace} already exists.`);
+	}
+
+	const declared = scanDocument(document).namespace;
+	if (declared) {
+		edits.add(document, declared.span, newNamespace);
+	}
+	findNamespaceReferences(state, namespace).forEach(r => edits.add(r.document, r.span, newNamespace));
+}
+
+/**
+ * Checks that the symbol at a position can be renamed
+ * @param state the language server state
+ * @param document the text document
+ * @param offset the offset of the cursor
+ * @returns the range of the symbol, and its current name
+ * @throws {ResponseError} if the symbol cannot be renamed
+ */
+export function prepareRename(state: LanguageServerState, document: TextDocument, offset: number): { range: Range; placeholder: string } {
+	const target = getRenameTarget(state, document, offset);
+	return {
+		range: toRange(document, target.span),
+		placeholder: document.getText().substring(target.span.start, target.span.end)
+	};
+}
+
+/**
+ * Computes the edits renaming a declaration, property or namespace in every model file
+ * @param state the language server state
+ * @param document the text document
+ * @param offset the offset of the cursor
+ * @param newName the new name
+ * @throws {ResponseError} if the symbol cannot be renamed, or the new name is invalid
+ */
+export function getRenameEdits(state: LanguageServerState, document: TextDocument, offset: number, newName: string): WorkspaceEdit {
+	const target = getRenameTarget(state, document, offset);
+	const edits = new EditCollector();
+	switch (target.kind) {
+	case 'declaration':
+		renameDeclaration(state, target.located, newName.trim(), edits);
+		break;
+	case 'property':
+		renameProperty(state, target.located, target.property, newName.trim(), edits);
+		break;
+	case 'namespace':
+		renameNamespace(state, target.namespace, target.document, newName.trim(), edits);
+		break;
+	}
+	return edits.toWorkspaceEdit();
+}
+
+/**
+ * Handles textDocument/prepareRename requests
+ * @param state the language server state
+ * @param params the prepare rename parameters
+ */
+export function handlePrepareRename(state: LanguageServerState, params: PrepareRenameParams): { range: Range; placeholder: string } | null {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return null;
+	}
+	return prepareRename(state, document, document.offsetAt(params.position));
+}
+
+/**
+ * Handles textDocument/rename requests
+ * @param state the language server state
+ * @param params the rename parameters
+ */
+export function handleRename(state: LanguageServerState, params: RenameParams): WorkspaceEdit | null {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return null;
+	}
+	return getRenameEdits(state, document, document.offsetAt(params.position), params.newName);
+}
@@ -0,0 +1,104 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { SelectionRange, SelectionRangeParams } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { getDocumentModel } from '../documents/parsedModel';
+import { spanContains, TextSpan } from '../documents/scanner';
+
+/**
+ * Returns the spans that contain an offset, from the smallest to the largest:
+ * the word, the qualified name, the decorator, the property, the declaration
+ * or import, and the whole model
+ */
+function getEnclosingSpans(document: TextDocument, offset: number): TextSpan[] {
+	const model = getDocumentModel(document);
+	const spans: TextSpan[] = [];
+
+	const token = model.tokens.find(t => t.type !== 'punctuation' && t.type !== 'comment' && spanContains(t, offset));
+	if (token) {
+		spans.push({ start: token.start, end: token.end });
+	}
+	const qualifiedName = [
+		...model.typeReferences,
+		...model.imports.map(i => ({ span: i.namespaceSpan })),
+		...(model.namespace ? [model.namespace] : [])
+	].find(r => spanContains(r.span, offset));
+	if (qualifiedName) {
+		spans.push(qualifiedName.span);
+	}
+
+	const declaration = model.declarations.find(d => spanContains(d.span, offset));
+	const property = declaration?.properties.find(p => spanContains(p.span, offset));
+	const decorator = [...model.decorators, ...(declaration?.decorators ?? []), ...(property?.decorators ?? [])]
+		.find(d => spanContains(d.fullSpan, offset));
+	if (decorator) {
+		spans.push(decorator.fullSpan);
+	}
+	if (property) {
+		spans.push(property.span);
+	}
+	if (declaration) {
+		spans.push(declaration.span);
+	}
+	const imp = model.imports.find(i => spanContains(i.span, offset));
+	if (imp) {
+		spans.push(imp.span);
+	}
+	spans.push({ start: 0, end: document.getText().length });
+
+	// keep the spans that grow the selection
+	const result: TextSpan[] = [];
+	spans.sort((a, b) => (a.end - a.start) - (b.end - b.start)).forEach(span => {
+		const last = result[result.length - 1];
+		if (!last || (span.start <= last.start && span.end >= last.end && (span.start !== last.start || span.end !== last.end))) {
+			result.push(span);
+		}
+	});
+	return result;
+}
+
+/**
+ * Computes the selection ranges of positions in a CTO document, to expand the
+ * selection from a word to its property, declaration and namespace
+ * @param document the text document
+ * @param offsets the offsets of the cursors
+ */
+export function getSelectionRanges(document: TextDocument, offsets: number[]): SelectionRange[] {
+	return offsets.map(offset => {
+		const spans = getEnclosingSpans(document, offset);
+		let range: SelectionRange | undefined;
+		for (let n = spans.length - 1; n >= 0; n--) {
+			range = SelectionRange.create(toRange(document, spans[n]), range);
+		}
+		return range ?? SelectionRange.create(toRange(document, { start: offset, end: offset }));
+	});
+}
+
+/**
+ * Handles textDocument/selectionRange requests
+ * @param state the language server state
+ * @param params the selection range parameters
+ */
+export function handleSelectionRanges(state: LanguageServerState, params: SelectionRangeParams): SelectionRange[] {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	return getSelectionRanges(document, params.positions.map(p => document.offsetAt(p)));
+}
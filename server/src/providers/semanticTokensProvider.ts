@@ -0,0 +1,206 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { SemanticTokens, SemanticTokensBuilder, SemanticTokensDelta, SemanticTokensDeltaParams, SemanticTokensLegend, SemanticTokensParams } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { isDeprecated, locateDeclaration, LocatedDeclaration, resolveTypeName } from '../documents/modelIndex';
+import { getDocumentModel } from '../documents/parsedModel';
+import { DeclarationKind, PRIMITIVE_TYPES, ScannedDeclaration, ScannedModel, TextSpan } from '../documents/scanner';
+
+const TOKEN_TYPES = ['namespace', 'class', 'enum', 'struct', 'type', 'enumMember', 'property', 'decorator'] as const;
+const TOKEN_MODIFIERS = ['declaration', 'abstract', 'deprecated', 'defaultLibrary', 'imported', 'unresolved'] as const;
+
+type TokenType = typeof TOKEN_TYPES[number];
+type TokenModifier = typeof TOKEN_MODIFIERS[number];
+
+/**
+ * The legend of the semantic tokens. The imported and unresolved modifiers
+ * are contributed by the extension, in package.json
+ */
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+	tokenTypes: [...TOKEN_TYPES],
+	tokenModifiers: [...TOKEN_MODIFIERS]
+};
+
+const DECLARATION_TOKEN_TYPES: Record<DeclarationKind, TokenType> = {
+	concept: 'class',
+	asset: 'class',
+	participant: 'class',
+	transaction: 'class',
+	event: 'class',
+	enum: 'enum',
+	map: 'struct',
+	scalar: 'type',
+};
+
+const SYSTEM_NAMESPACE = 'concerto@1.0.0';
+
+export type SemanticToken = {
+	span: TextSpan;
+	type: TokenType;
+	modifiers: TokenModifier[];
+}
+
+/**
+ * The token builders of the documents, used to compute deltas
+ */
+const builders = new Map<string, SemanticTokensBuilder>();
+
+function declarationModifiers(declaration: ScannedDeclaration): TokenModifier[] {
+	const modifiers: TokenModifier[] = [];
+	if (declaration.isAbstract) {
+		modifiers.push('abstract');
+	}
+	if (isDeprecated(declaration)) {
+		modifiers.push('deprecated');
+	}
+	return modifiers;
+}
+
+/**
+ * Classifies a type using its declaration: its kind, and whether it is deprecated,
+ * imported from another namespace or cannot be found
+ */
+function classifyType(state: LanguageServerState, model: ScannedModel, type: { namespace: string; name: string }, cache: Map<string, LocatedDeclaration | undefined>): [TokenType, TokenModifier[]] {
+	const imported = type.namespace !== model.namespace?.name;
+	if (type.namespace === SYSTEM_NAMESPACE) {
+		return ['class', ['defaultLibrary']];
+	}
+	const fqn = `${type.namespace}.${type.name}`;
+	if (!cache.has(fqn)) {
+		cache.set(fqn, locateDeclaration(state, type.namespace, type.name));
+	}
+	const located = cache.get(fqn);
+	const modifiers: TokenModifier[] = located ? declarationModifiers(located.declaration) : ['unresolved'];
+	if (imported) {
+		modifiers.push('imported');
+	}
+	return [located ? DECLARATION_TOKEN_TYPES[located.declaration.kind] : 'type', modifiers];
+}
+
+/**
+ * Computes the semantic tokens of a CTO document, sorted by position, from its
+ * parsed model (or its scanned model while it does not parse)
+ * @param state the language server state
+ * @param document the text document
+ */
+export function getSemanticTokens(state: LanguageServerState, document: TextDocument): SemanticToken[] {
+	const model = getDocumentModel(document);
+	const tokens: SemanticToken[] = [];
+	const cache = new Map<string, LocatedDeclaration | undefined>();
+
+	if (model.namespace) {
+		tokens.push({ span: model.namespace.span, type: 'namespace', modifiers: ['declaration'] });
+	}
+	model.imports.forEach(imp => tokens.push({ span: imp.namespaceSpan, type: 'namespace', modifiers: ['imported'] }));
+	[...model.decorators, ...model.declarations.flatMap(d => [...d.decorators, ...d.properties.flatMap(p => p.decorators)])]
+		.forEach(d => tokens.push({ span: d.span, type: 'decorator', modifiers: [] }));
+
+	model.declarations.forEach(declaration => {
+		tokens.push({ span: declaration.name.span, type: DECLARATION_TOKEN_TYPES[declaration.kind], modifiers: ['declaration', ...declarationModifiers(declaration)] });
+		if (declaration.kind === 'scalar' && declaration.superType) {
+			tokens.push({ span: declaration.superType.span, type: 'type', modifiers: ['defaultLibrary'] });
+		}
+		if (declaration.identifiedBy) {
+			tokens.push({ span: declaration.identifiedBy.span, type: 'property', modifiers: [] });
+		}
+		declaration.properties.filter(p => p.name).forEach(property => {
+			const type = property.kind === 'enumValue' ? 'enumMember' : 'property';
+			tokens.push({ span: property.name!.span, type, modifiers: ['declaration'] });
+		});
+	});
+
+	model.typeReferences.forEach(reference => {
+		let type: { namespace: string; name: string } | undefined;
+		if (reference.role === 'import') {
+			// imported types are resolved in the namespace of the import
+			const imp = model.imports.find(i => i.types.some(t => t.span.start === reference.span.start));
+			type = imp ? { namespace: imp.namespace, name: reference.name } : undefined;
+		}
+		else {
+			type = resolveTypeName(state, model, reference.name);
+		}
+		if (type) {
+			const [tokenType, modifiers] = classifyType(state, model, type, cache);
+			tokens.push({ span: reference.span, type: tokenType, modifiers });
+		}
+		else if (PRIMITIVE_TYPES.includes(reference.name)) {
+			tokens.push({ span: reference.span, type: 'type', modifiers: ['defaultLibrary'] });
+		}
+		else {
+			tokens.push({ span: reference.span, type: 'type', modifiers: ['unresolved'] });
+		}
+	});
+
+	// tokens cannot overlap
+	tokens.sort((a, b) => a.span.start - b.span.start);
+	return tokens.filter((token, n) => n === 0 || token.span.start >= tokens[n - 1].span.end);
+}
+
+function buildTokens(state: LanguageServerState, document: TextDocument, builder: SemanticTokensBuilder) {
+	getSemanticTokens(state, document).forEach(token => {
+		const start = document.positionAt(token.span.start);
+		const modifiers = token.modifiers.reduce((bits, m) => bits | (1 << TOKEN_MODIFIERS.indexOf(m)), 0);
+		builder.push(start.line, start.character, token.span.end - token.span.start, TOKEN_TYPES.indexOf(token.type), modifiers);
+	});
+}
+
+/**
+ * Removes the semantic tokens of a closed document
+ * @param uri the uri of the document
+ */
+export function forgetSemanticTokens(uri: string) {
+	builders.delete(uri);
+}
+
+/**
+ * Handles textDocument/semanticTokens/full requests
+ * @param state the language server state
+ * @param params the semantic tokens parameters
+ */
+export function handleSemanticTokens(state: LanguageServerState, params: SemanticTokensParams): SemanticTokens {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return { data: [] };
+	}
+	const builder = new SemanticTokensBuilder();
+	builders.set(document.uri, builder);
+	buildTokens(state, document, builder);
+	return builder.build();
+}
+
+/**
+ * Handles textDocument/semanticTokens/full/delta requests
+ * @param state the language server state
+ * @param params the semantic tokens delta parameters
+ */
+export function handleSemanticTokensDelta(state: LanguageServerState, params: SemanticTokensDeltaParams): SemanticTokens | SemanticTokensDelta {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return { data: [] };
+	}
+	let builder = builders.get(document.uri);
+	if (builder) {
+		builder.previousResult(params.previousResultId);
+	}
+	else {
+		builder = new SemanticTokensBuilder();
+		builders.set(document.uri, builder);
+	}
+	buildTokens(state, document, builder);
+	return builder.buildEdits();
+}
@@ -0,0 +1,136 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { DocumentSymbol, DocumentSymbolParams, SymbolInformation, SymbolKind, WorkspaceSymbolParams } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { getAllModelDocuments } from '../documents/modelIndex';
+import { DeclarationKind, PropertyKind, ScannedDeclaration, ScannedProperty, scanDocument } from '../documents/scanner';
+
+export const DECLARATION_SYMBOL_KINDS: Record<DeclarationKind, SymbolKind> = {
+	concept: SymbolKind.Class,
+	asset: SymbolKind.Class,
+	participant: SymbolKind.Class,
+	transaction: SymbolKind.Function,
+	event: SymbolKind.Event,
+	enum: SymbolKind.Enum,
+	map: SymbolKind.Struct,
+	scalar: SymbolKind.TypeParameter,
+};
+
+const PROPERTY_SYMBOL_KINDS: Record<PropertyKind, SymbolKind> = {
+	field: SymbolKind.Field,
+	relationship: SymbolKind.Property,
+	enumValue: SymbolKind.EnumMember,
+	mapKey: SymbolKind.Field,
+	mapValue: SymbolKind.Field,
+};
+
+function getDeclarationDetail(declaration: ScannedDeclaration) {
+	const parts = [
+		declaration.isAbstract ? 'abstract' : undefined,
+		declaration.kind,
+		declaration.superType ? `extends ${declaration.superType.name}` : undefined,
+	];
+	return parts.filter(p => p).join(' ');
+}
+
+function getPropertySymbol(document: TextDocument, property: ScannedProperty): DocumentSymbol | undefined {
+	// map entries have no name, they are named after their role
+	const selection = property.name ?? property.type;
+	if (!selection) {
+		return undefined;
+	}
+	const name = property.kind === 'mapKey' ? 'key' : property.kind === 'mapValue' ? 'value' : selection.name;
+	const detail = property.type ? `${property.kind === 'relationship' ? '--> ' : ''}${property.type.name}${property.isArray ? '[]' : ''}${property.isOptional ? ' optional' : ''}` : undefined;
+	return DocumentSymbol.create(name, detail, PROPERTY_SYMBOL_KINDS[property.kind], toRange(document, property.span), toRange(document, selection.span));
+}
+
+/**
+ * Computes the outline of a CTO document: the namespace, its declarations and their properties
+ * @param document the text document
+ */
+export function getDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+	const model = scanDocument(document);
+	const declarations = model.declarations.map(declaration => {
+		const children = declaration.properties
+			.map(p => getPropertySymbol(document, p))
+			.filter((s): s is DocumentSymbol => s !== undefined);
+		return DocumentSymbol.create(declaration.name.name, getDeclarationDetail(declaration), DECLARATION_SYMBOL_KINDS[declaration.kind],
+			toRange(document, declaration.span), toRange(document, declaration.name.span), children);
+	});
+	if (!model.namespace) {
+		return declarations;
+	}
+	const range = toRange(document, { start: 0, end: document.getText().length });
+	return [DocumentSymbol.create(model.namespace.name, undefined, SymbolKind.Namespace, range, toRange(document, model.namespace.span), declarations)];
+}
+
+/**
+ * Returns true if the characters of a query appear in order in a text, ignoring case
+ */
+function fuzzyMatch(query: string, text: string) {
+	const lowerText = text.toLowerCase();
+	let pos = 0;
+	for (const c of query.toLowerCase()) {
+		pos = lowerText.indexOf(c, pos);
+		if (pos < 0) {
+			return false;
+		}
+		pos++;
+	}
+	return true;
+}
+
+/**
+ * Searches the declarations of all the model files
+ * @param state the language server state
+ * @param query the query, matched fuzzily against declaration names and fully qualified names
+ */
+export function getWorkspaceSymbols(state: LanguageServerState, query: string): SymbolInformation[] {
+	const result: SymbolInformation[] = [];
+	getAllModelDocuments(state).forEach(document => {
+		const model = scanDocument(document);
+		const namespace = model.namespace?.name;
+		model.declarations
+			.filter(d => fuzzyMatch(query, d.name.name) || (namespace && fuzzyMatch(query, `${namespace}.${d.name.name}`)))
+			.forEach(d => result.push(SymbolInformation.create(d.name.name, DECLARATION_SYMBOL_KINDS[d.kind], toRange(document, d.name.span), document.uri, namespace)));
+	});
+	return result;
+}
+
+/**
+ * Handles textDocument/documentSymbol requests
+ * @param state the language server state
+ * @param params the document symbol parameters
+ */
+export function handleDocumentSymbol(state: LanguageServerState, params: DocumentSymbolParams): DocumentSymbol[] {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return [];
+	}
+	return getDocumentSymbols(document);
+}
+
+/**
+ * Handles workspace/symbol requests
+ * @param state the language server state
+ * @param params the workspace symbol parameters
+ */
+export function handleWorkspaceSymbol(state: LanguageServerState, params: WorkspaceSymbolParams): SymbolInformation[] {
+	return getWorkspaceSymbols(state, params.query);
+}
@@ -0,0 +1,144 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { Range, SymbolKind, SymbolTag, TextDocumentPositionParams } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+
+import { LanguageServerState } from '../types';
+import { toRange } from '../documents/edits';
+import { isDeprecated, locateDeclaration, LocatedDeclaration, resolveTypeName } from '../documents/modelIndex';
+import { DeclarationKind, scanDocument } from '../documents/scanner';
+import { getSymbolAt } from '../documents/symbols';
+import { getTypeUsages } from './codeLensProvider';
+import { DECLARATION_SYMBOL_KINDS } from './symbolProvider';
+
+/**
+ * The type hierarchy requests of LSP 3.17, which the language server
+ * library does not support yet: the client sends them as custom requests
+ */
+export const PREPARE_TYPE_HIERARCHY_REQUEST = 'textDocument/prepareTypeHierarchy';
+export const TYPE_HIERARCHY_SUPERTYPES_REQUEST = 'typeHierarchy/supertypes';
+export const TYPE_HIERARCHY_SUBTYPES_REQUEST = 'typeHierarchy/subtypes';
+
+/**
+ * A type hierarchy item, as defined by LSP 3.17
+ */
+export type TypeHierarchyItem = {
+	name: string;
+	kind: SymbolKind;
+	tags?: SymbolTag[];
+	detail?: string;
+	uri: string;
+	range: Range;
+	selectionRange: Range;
+	/**
+	 * The declaration of the item
+	 */
+	data: { namespace: string; name: string };
+}
+
+export type TypeHierarchyParams = {
+	item: TypeHierarchyItem;
+}
+
+/**
+ * The declarations that have a type hierarchy
+ */
+const HIERARCHY_KINDS: DeclarationKind[] = ['concept', 'asset', 'participant', 'transaction', 'event'];
+
+function toTypeHierarchyItem(located: LocatedDeclaration): TypeHierarchyItem {
+	const { document, declaration, namespace } = located;
+	return {
+		name: declaration.name.name,
+		kind: DECLARATION_SYMBOL_KINDS[declaration.kind],
+		tags: isDeprecated(declaration) ? [SymbolTag.Deprecated] : undefined,
+		detail: located.external ? `${namespace} (external)` : namespace,
+		uri: document.uri,
+		range: toRange(document, declaration.span),
+		selectionRange: toRange(document, declaration.name.span),
+		data: { namespace, name: declaration.name.name }
+	};
+}
+
+function locateHierarchyDeclaration(state: LanguageServerState, namespace: string | undefined, name: string | undefined): LocatedDeclaration | undefined {
+	const located = namespace && name ? locateDeclaration(state, namespace, name) : undefined;
+	return located && HIERARCHY_KINDS.includes(located.declaration.kind) ? located : undefined;
+}
+
+/**
+ * Finds the declaration at a position in a CTO document: a declaration,
+ * or a reference to a declaration
+ * @param state the language server state
+ * @param document the text document
+ * @param offset the offset of the cursor
+ */
+export function prepareTypeHierarchy(state: LanguageServerState, document: TextDocument, offset: number): TypeHierarchyItem[] | null {
+	const model = scanDocument(document);
+	const symbol = getSymbolAt(state, model, offset);
+	let located: LocatedDeclaration | undefined;
+	if (symbol?.kind === 'declaration') {
+		located = locateHierarchyDeclaration(state, symbol.namespace, symbol.declaration.name.name);
+	}
+	else if (symbol?.kind === 'typeReference') {
+		located = locateHierarchyDeclaration(state, symbol.namespace, symbol.name);
+	}
+	else if (symbol?.kind === 'property' && symbol.property.type) {
+		const resolved = resolveTypeName(state, model, symbol.property.type.name);
+		located = locateHierarchyDeclaration(state, resolved?.namespace, resolved?.name);
+	}
+	return located ? [toTypeHierarchyItem(located)] : null;
+}
+
+/**
+ * Returns the direct supertype of a declaration, which can be declared in an external model
+ * @param state the language server state
+ * @param item the declaration
+ */
+export function getSupertypes(state: LanguageServerState, item: TypeHierarchyItem): TypeHierarchyItem[] {
+	const located = locateDeclaration(state, item.data.namespace, item.data.name);
+	const superType = located?.declaration.superType;
+	if (!located || !superType) {
+		return [];
+	}
+	const resolved = resolveTypeName(state, located.model, superType.name);
+	const superDeclaration = locateHierarchyDeclaration(state, resolved?.namespace, resolved?.name);
+	return superDeclaration ? [toTypeHierarchyItem(superDeclaration)] : [];
+}
+
+/**
+ * Returns the direct subtypes of a declaration, in all the namespaces of the model manager
+ * @param state the language server state
+ * @param item the declaration
+ */
+export function getSubtypes(state: LanguageServerState, item: TypeHierarchyItem): TypeHierarchyItem[] {
+	const subtypes = getTypeUsages(state).subtypes.get(`${item.data.namespace}.${item.data.name}`) ?? [];
+	return subtypes
+		.map(subtype => locateHierarchyDeclaration(state, subtype.namespace, subtype.name))
+		.filter((located): located is LocatedDeclaration => !!located)
+		.map(toTypeHierarchyItem);
+}
+
+/**
+ * Handles textDocument/prepareTypeHierarchy requests
+ * @param state the language server state
+ * @param params the position parameters
+ */
+export function handlePrepareTypeHierarchy(state: LanguageServerState, params: TextDocumentPositionParams): TypeHierarchyItem[] | null {
+	const document = state.documents.get(params.textDocument.uri);
+	if (!document || !document.uri.endsWith('.cto')) {
+		return null;
+	}
+	return prepareTypeHierarchy(state, document, document.offsetAt(params.position));
+}
@@ -0,0 +1,134 @@
+/*
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+'use strict';
+
+import { LanguageServerState } from './types';
+import { log } from './state';
+
+/**
+ * The section of the extension settings, in package.json
+ */
+export const SETTINGS_SECTION = 'cicero-vscode-extension';
+
+export type FormattingSettings = {
+	/**
+	 * The indent size, or null to use the tab size of the editor
+	 */
+	indentSize: number | null;
+	sortImports: boolean;
+	blankLinesBetweenDeclarations: number;
+}
+
+/**
+ * The severity of a lint rule, or off to disable the rule
+ */
+export type LintSeverity = 'error' | 'warning' | 'information' | 'hint' | 'off';
+
+export type LintSettings = {
+	enabled: boolean;
+	/**
+	 * The severities of the rules, keyed by rule id. Rules that are not
+	 * listed use their default severity
+	 */
+	rules: Record<string, LintSeverity>;
+}
+
+export type ExternalModelSettings = {
+	/**
+	 * Where the downloaded external models are cached: in the storage of
+	 * the extension, or in the .concerto folder of the workspace folder
+	 */
+	cacheLocation: 'extension' | 'workspace';
+	/**
+	 * Local copies of external models, used instead of downloading them,
+	 * keyed by url. Relative paths are resolved against the workspace folder
+	 */
+	pinned: Record<string, string>;
+}
+
+export type CompileSettings = {
+	/**
+	 * The folder of the generated code, relative to the folder of the
+	 * compiled model. Each target is generated in a subfolder
+	 */
+	outputDirectory: string;
+	/**
+	 * True to generate the code of the models when a model file is saved
+	 */
+	onSave: boolean;
+	/**
+	 * The targets, or the names of compilation presets, generated when a model file is saved
+	 */
+	onSaveTargets: string[];
+	/**
+	 * True to type-check the generated TypeScript code, reporting its errors on the models
+	 */
+	typeCheck: boolean;
+}
+
+/**
+ * The extension settings used by the language server
+ */
+export type ServerSettings = {
+	formatting: FormattingSettings;
+	lint: LintSettings;
+	externalModels: ExternalModelSettings;
+	compile: CompileSettings;
+}
+
+export const DEFAULT_SETTINGS: ServerSettings = {
+	formatting: {
+		indentSize: null,
+		sortImports: true,
+		blankLinesBetweenDeclarations: 1
+	},
+	lint: {
+		enabled: true,
+		rules: {}
+	},
+	externalModels: {
+		cacheLocation: 'extension',
+		pinned: {}
+	},
+	compile: {
+		outputDirectory: 'output',
+		onSave: false,
+		onSaveTargets: ['typescript'],
+		typeCheck: true
+	}
+};
+
+/**
+ * Gets the extension settings for a document from the client, falling back
+ * to the defaults for settings that are not set
+ * @param state the language server state
+ * @param uri the uri of the document, for folder specific settings
+ */
+export async function getSettings(state: LanguageServerState, uri?: string): Promise<ServerSettings> {
+	let settings: any = {};
+	if (state.connection) {
+		try {
+			settings = await state.connection.workspace.getConfiguration({ scopeUri: uri, section: SETTINGS_SECTION }) ?? {};
+		}
+		catch (err) {
+			log(`Failed to get the settings: ${err}`);
+		}
+	}
+	return {
+		formatting: { ...DEFAULT_SETTINGS.formatting, ...settings.formatting },
+		lint: { ...DEFAULT_SETTINGS.lint, ...settings.lint },
+		externalModels: { ...DEFAULT_SETTINGS.externalModels, ...settings.externalModels },
+		compile: { ...DEFAULT_SETTINGS.compile, ...settings.compile }
+	};
+}
@@ -18,6 +18,7 @@ import { TextDocument } from 'vscode-languageserver-textdocument';
 
 import { ModelManager } from '@accordproject/concerto-core';
 import { Diagnostics } from './diagnostics';
+import { ModelProjects } from './documents/modelProjects';
 import { LanguageServerState } from './types';
 
 /* browser specific setup code */
@@ -32,6 +33,7 @@ if (typeof self !== 'undefined') {
  */
 export const GLOBAL_STATE:LanguageServerState = {
 	modelManager: new ModelManager({strict: true}),
+	projects: new ModelProjects(),
 	diagnostics: new Diagnostics(),
 	connection: messageReader && messageWriter ? createConnection(messageReader, messageWriter) : null,
 	isLoading: false,
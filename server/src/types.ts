@@ -2,6 +2,7 @@ import { ModelManager } from '@accordproject/concerto-core';
 import { Connection, TextDocuments } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import { Diagnostics } from './diagnostics';
+import { ModelProjects } from './documents/modelProjects';
 
 /**
  * Enumeration of file types. The types `File` and `Directory` can also be
@@ -33,7 +34,19 @@ export type ReadDirectoryRecursiveResponse = {
 }
 
 export type LanguageServerState = {
+	/**
+	 * The model manager of the model files that are not in a project,
+	 * or of the project of a project state
+	 */
 	modelManager: ModelManager;
+	/**
+	 * The projects of the workspace folders and templates, with their model managers
+	 */
+	projects: ModelProjects;
+	/**
+	 * The root of the project of a project state
+	 */
+	root?: string;
 	diagnostics: Diagnostics;
 	connection: Connection | null;
 	isLoading: boolean;
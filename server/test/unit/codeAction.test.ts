@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TextEdit } from 'vscode-languageserver';
+import { getCodeActions } from '../../src/providers/codeActionProvider';
+import { getModelDiagnostics } from '../../src/documents/validation';
+import { getLintConfig, lintDocument } from '../../src/lint/linter';
+import { DEFAULT_SETTINGS } from '../../src/settings';
+import { LanguageServerState } from '../../src/types';
+import { createState } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@2.0.0
+
+abstract asset Thing identified by id {
+    o String id
+}
+
+enum Color {
+    o RED
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.Thing
+
+asset Car extends Vehicle {
+    o Color color
+    --> Driver driver
+}
+`;
+
+const UNUSED_MODEL = `namespace org.acme.garage@1.0.0
+
+import org.acme.base@2.0.0.{Thing, Color}
+
+concept Garage {
+    o String name
+}
+`;
+
+describe('Code actions', function() {
+    let state: LanguageServerState;
+    let base: TextDocument;
+    let vehicle: TextDocument;
+    let garage: TextDocument;
+
+    before(() => {
+        base = TextDocument.create('file:///actions/base.cto', 'concerto', 1, BASE_MODEL);
+        vehicle = TextDocument.create('file:///actions/vehicle.cto', 'concerto', 1, MODEL);
+        garage = TextDocument.create('file:///actions/garage.cto', 'concerto', 1, UNUSED_MODEL);
+        state = createState([base, vehicle, garage]);
+    });
+
+    /**
+     * Returns the code actions for the diagnostics of a document, by title,
+     * with the text of the document once the action is applied
+     */
+    function getActions(document: TextDocument, diagnostics: any[]) {
+        const actions: Record<string, string> = {};
+        diagnostics.forEach(diagnostic => getCodeActions(state, document, diagnostic.range, [diagnostic]).forEach(action => {
+            actions[action.title] = TextDocument.applyEdits(document, action.edit!.changes![document.uri] as TextEdit[]);
+        }));
+        return actions;
+    }
+
+    it('should fix undeclared types and namespace versions', function() {
+        const diagnostics = getModelDiagnostics(state, state.modelManager.getModelFile('org.acme.vehicle@1.0.0'));
+        const actions = getActions(vehicle, diagnostics);
+        expect(actions['Change the import to org.acme.base@2.0.0']).to.contain('import org.acme.base@2.0.0.Thing\n');
+        expect(actions['Import Color from org.acme.base@2.0.0']).to.contain('import org.acme.base@1.0.0.Thing\nimport org.acme.base@2.0.0.Color\n');
+        expect(actions['Create abstract asset Vehicle']).to.match(/}\n\nabstract asset Vehicle {\n}\n$/);
+        expect(actions['Create concept Driver identified']).to.match(/}\n\nconcept Driver identified {\n}\n$/);
+    });
+
+    it('should remove unused imports', function() {
+        const config = getLintConfig(DEFAULT_SETTINGS.lint);
+        const diagnostics = lintDocument(state, garage, state.modelManager.getModelFile('org.acme.garage@1.0.0'), config)
+            .filter(d => d.code === 'unused-import');
+        diagnostics.forEach(diagnostic => state.diagnostics.addDiagnostic(garage.uri, diagnostic));
+        const actions = getActions(garage, diagnostics);
+        expect(actions['Remove the unused import Thing']).to.contain('import org.acme.base@2.0.0.{Color}\n');
+        expect(actions['Remove all the unused imports']).to.equal(UNUSED_MODEL.replace('import org.acme.base@2.0.0.{Thing, Color}\n', ''));
+    });
+
+    it('should make a field optional', function() {
+        const offset = garage.getText().indexOf('name\n');
+        const range = { start: garage.positionAt(offset), end: garage.positionAt(offset) };
+        const [action] = getCodeActions(state, garage, range, []);
+        expect(action.title).to.equal('Make name optional');
+        expect(TextDocument.applyEdits(garage, action.edit!.changes![garage.uri] as TextEdit[])).to.contain('o String name optional\n');
+    });
+});
@@ -0,0 +1,79 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getCodeLenses, getTypeUsages } from '../../src/providers/codeLensProvider';
+import { generateSampleJson } from '../../src/commands/sampleJson';
+import { LanguageServerState } from '../../src/types';
+import { createState } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+abstract asset Thing identified by id {
+    o String id
+}
+
+concept Address {
+    o String city
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing, Address}
+
+asset Car extends Thing {
+    o Address garage optional
+    --> Thing[] parts
+}
+
+asset Truck extends Thing {
+    o Address depot
+}
+`;
+
+describe('Code lenses', function() {
+    let state: LanguageServerState;
+    let base: TextDocument;
+
+    beforeEach(() => {
+        base = TextDocument.create('file:///lenses/base.cto', 'concerto', 1, BASE_MODEL);
+        const vehicle = TextDocument.create('file:///lenses/vehicle.cto', 'concerto', 1, MODEL);
+        state = createState([base, vehicle]);
+    });
+
+    it('should count the references and subtypes resolved by the model manager', function() {
+        const usages = getTypeUsages(state);
+        expect(usages.subtypes.get('org.acme.base@1.0.0.Thing')!.map(u => u.name)).to.deep.equal(['Car', 'Truck']);
+        expect(usages.references.get('org.acme.base@1.0.0.Thing')!.map(u => u.property)).to.deep.equal(['parts']);
+        expect(usages.references.get('org.acme.base@1.0.0.Address')!.map(u => `${u.name}.${u.property}`)).to.deep.equal([
+            'Car.garage', 'Truck.depot'
+        ]);
+    });
+
+    it('should show the counts and actions above each declaration', function() {
+        const lenses = getCodeLenses(state, base);
+        const titles = (line: number) => lenses.filter(l => l.range.start.line === line).map(l => l.command!.title);
+        expect(titles(2)).to.deep.equal(['1 reference', '2 subtypes', 'Show in diagram']);
+        expect(titles(6)).to.deep.equal(['2 references', '0 subtypes', 'Generate sample JSON', 'Show in diagram']);
+
+        const subtypes = lenses.find(l => l.command!.title === '2 subtypes')!.command!;
+        expect(subtypes.command).to.equal('cicero-vscode-extension.showLocations');
+        const locations = subtypes.arguments![2];
+        expect(locations.map((l: any) => [l.uri, l.range.start.line])).to.deep.equal([
+            ['file:///lenses/vehicle.cto', 4], ['file:///lenses/vehicle.cto', 9]
+        ]);
+        expect(lenses.find(l => l.command!.title === '0 subtypes')!.command!.command).to.equal('');
+    });
+
+    it('should generate sample JSON', function() {
+        const sample = JSON.parse(generateSampleJson(state, 'org.acme.vehicle@1.0.0.Car'));
+        expect(sample.$class).to.equal('org.acme.vehicle@1.0.0.Car');
+        expect(sample.id).to.be.a('string');
+        expect(sample.garage.$class).to.equal('org.acme.base@1.0.0.Address');
+    });
+
+    it('should generate sample JSON of types that are not identified', function() {
+        const sample = JSON.parse(generateSampleJson(state, 'org.acme.base@1.0.0.Address'));
+        expect(sample).to.deep.equal({ $class: 'org.acme.base@1.0.0.Address', city: sample.city });
+        expect(sample.city).to.be.a('string');
+    });
+});
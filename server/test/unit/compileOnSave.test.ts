@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { ModelManager } from '@accordproject/concerto-core';
+import { DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostics } from '../../src/diagnostics';
+import { ModelProjects } from '../../src/documents/modelProjects';
+import { compileOnSave } from '../../src/commands/compileOnSave';
+
+const MODEL = `namespace org.acme.save@1.0.0
+
+concept Address {
+    o String city
+}
+`;
+
+describe('Compile on save', function() {
+    const uri = 'file:///save/models/address.cto';
+    let state: any;
+    let compile: any;
+    let files: Record<string, string>;
+    let statuses: any[];
+    let sent: Record<string, any[]>;
+
+    beforeEach(() => {
+        files = {};
+        statuses = [];
+        sent = {};
+        compile = { onSave: true, onSaveTargets: ['typescript', 'cobol'], typeCheck: false };
+        const document = TextDocument.create(uri, 'concerto', 1, MODEL);
+        const modelManager = new ModelManager({ strict: true });
+        modelManager.addCTOModel(MODEL, uri, true);
+        state = {
+            modelManager,
+            projects: new ModelProjects(),
+            diagnostics: new Diagnostics(),
+            documents: { get: (u: string) => u === uri ? document : undefined, all: () => [document] },
+            connection: {
+                workspace: { getConfiguration: async () => ({ compile }) },
+                sendNotification: (method: string, status: any) => statuses.push(status),
+                sendDiagnostics: (params: any) => sent[params.uri] = params.diagnostics,
+                sendRequest: async (method: string, params: any) => {
+                    if (method === 'vfs/writeFile') {
+                        files[params.path] = new TextDecoder().decode(new Uint8Array(params.content));
+                    }
+                    return method === 'vfs/exists' ? false : undefined;
+                }
+            }
+        };
+    });
+
+    it('should compile the targets and report the failures as diagnostics', async function() {
+        await compileOnSave(state, uri);
+        expect(Object.keys(files).some(f => f.startsWith('file:///save/models/output/typescript/'))).to.be.true;
+        expect(sent[uri]).to.have.length(1);
+        expect(sent[uri][0].source).to.equal('compile');
+        expect(sent[uri][0].message).to.contain('cobol');
+        expect(sent[uri][0].range.start).to.deep.equal({ line: 0, character: 10 });
+        expect(statuses.map(s => s.status)).to.deep.equal(['compiling', 'failed']);
+
+        // the diagnostics are cleared by the next compilation
+        compile.onSaveTargets = ['typescript'];
+        await compileOnSave(state, uri);
+        expect(sent[uri]).to.deep.equal([]);
+        expect(statuses[statuses.length - 1].status).to.equal('succeeded');
+    });
+
+    it('should not compile invalid models', async function() {
+        state.diagnostics.addDiagnostic(uri, { severity: DiagnosticSeverity.Error, range: { start: { line: 3, character: 6 }, end: { line: 3, character: 12 } }, message: 'Undeclared type', source: 'model' });
+        await compileOnSave(state, uri);
+        expect(files).to.deep.equal({});
+        expect(statuses.map(s => s.status)).to.deep.equal(['skipped']);
+    });
+
+    it('should do nothing when compile on save is disabled', async function() {
+        compile.onSave = false;
+        await compileOnSave(state, uri);
+        expect(files).to.deep.equal({});
+        expect(statuses).to.deep.equal([]);
+    });
+});
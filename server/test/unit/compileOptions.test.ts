@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { ModelManager } from '@accordproject/concerto-core';
+import { CodeGen } from '@accordproject/concerto-codegen';
+import { InMemoryWriter } from '@accordproject/concerto-util';
+import { ModelProjects } from '../../src/documents/modelProjects';
+import { getCompileOutput, getCompileParameters, readCompilePresets, saveCompilePreset } from '../../src/commands/compileOptions';
+
+const MODEL = `namespace org.acme.compile@1.0.0
+
+concept Address {
+    o String city
+}
+`;
+
+describe('Compile to target', function() {
+    let state: any;
+    let files: Record<string, string>;
+
+    beforeEach(() => {
+        files = {};
+        const modelManager = new ModelManager({ strict: true });
+        modelManager.addCTOModel(MODEL, 'file:///compile/models/address.cto', true);
+        const projects = new ModelProjects();
+        projects.setWorkspaceFolders(['file:///compile']);
+        state = {
+            modelManager,
+            projects,
+            connection: {
+                sendRequest: async (method: string, params: any) => {
+                    if (method === 'vfs/writeFile') {
+                        files[params.path] = new TextDecoder().decode(new Uint8Array(params.content));
+                        return;
+                    }
+                    return method === 'vfs/exists' ? files[params.path] !== undefined : files[params.path];
+                }
+            }
+        };
+    });
+
+    it('should combine the options of a target with their defaults', function() {
+        expect(getCompileParameters('openapi', { openApiTitle: 'Addresses', unknown: true })).to.deep.equal({
+            hideBaseModel: true,
+            openApiTitle: 'Addresses',
+            openApiVersion: '1.0.0'
+        });
+        // invalid values and empty strings fall back to the defaults of the generators
+        expect(getCompileParameters('csharp', { pascalCase: 'yes', namespacePrefix: '' })).to.deep.equal({
+            hideBaseModel: true,
+            pascalCase: false,
+            useSystemTextJson: false,
+            useNewtonsoftJson: false,
+            enableReferenceType: false
+        });
+        expect(getCompileParameters('java')).to.deep.equal({ hideBaseModel: true });
+    });
+
+    it('should resolve the output directory against the folder of the model', function() {
+        expect(getCompileOutput('file:///compile/models/address.cto', 'output', 'java').toString()).to.equal('file:///compile/models/output/java');
+        expect(getCompileOutput('file:///compile/models/address.cto', 'file:///out', 'java').toString()).to.equal('file:///out/java');
+    });
+
+    it('should pass the options to the code generators', function() {
+        const imw = new InMemoryWriter();
+        state.modelManager.accept(new CodeGen.formats.avro(), { ...getCompileParameters('avro', { avroProtocolName: 'Addresses' }), fileWriter: imw });
+        expect([...imw.getFilesInMemory().values()].join('\n')).to.contain('protocol Addresses {');
+    });
+
+    it('should save and read the presets of the workspace folder', async function() {
+        const file = await saveCompilePreset(state, 'file:///compile/models/address.cto', 'api', { target: 'openapi', options: { openApiVersion: '2.0.0' } });
+        expect(file).to.equal('file:///compile/.concerto/codegen.json');
+        await saveCompilePreset(state, 'file:///compile/models/address.cto', 'types', { target: 'typescript', outputDirectory: 'src/types' });
+        const presets = await readCompilePresets(state, 'file:///compile/other.cto');
+        expect(Object.keys(presets)).to.deep.equal(['api', 'types']);
+        expect(presets.types).to.deep.equal({ target: 'typescript', outputDirectory: 'src/types' });
+        expect(await readCompilePresets(state, 'file:///elsewhere/model.cto')).to.deep.equal({});
+    });
+});
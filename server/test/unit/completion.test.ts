@@ -0,0 +1,84 @@
+import { expect } from 'chai';
+import { ModelManager } from '@accordproject/concerto-core';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getCompletions } from '../../src/providers/completionProvider';
+
+const HR_MODEL = `namespace org.acme.hr@1.0.0
+
+enum State {
+    o MA
+    o NY
+}
+
+concept Address {
+    o String street
+    @Display("State")
+    o State state optional
+}
+
+abstract participant Person identified by email {
+    o String email
+}
+`;
+
+let version = 0;
+
+/**
+ * Returns the labels of the completions at the position of the | character
+ */
+function complete(modelManager: ModelManager, text: string) {
+    const offset = text.indexOf('|');
+    const document = TextDocument.create('file:///test.cto', 'concerto', ++version, text.replace('|', ''));
+    const state: any = { modelManager };
+    return getCompletions(state, document, offset);
+}
+
+describe('Completion', function() {
+    let modelManager: ModelManager;
+
+    beforeEach(() => {
+        modelManager = new ModelManager({ strict: true });
+        modelManager.addCTOModel(HR_MODEL, 'file:///hr.cto', true);
+    });
+
+    it('should rank local, imported and primitive types before other namespaces', function() {
+        const items = complete(modelManager, 'namespace test@1.0.0\nimport org.acme.hr@1.0.0.{Address}\nconcept Order {\n    o |\n}');
+        const sorted = items.sort((a, b) => a.sortText!.localeCompare(b.sortText!)).map(i => i.label);
+        expect(sorted.slice(0, 3)).to.deep.equal(['Order', 'Address', 'Boolean']);
+        expect(sorted).to.include.members(['String', 'State', 'Person']);
+    });
+
+    it('should import types from other namespaces', function() {
+        const items = complete(modelManager, 'namespace test@1.0.0\nimport org.acme.hr@1.0.0.{Address}\nconcept Order {\n    o |\n}');
+        const state = items.find(i => i.label === 'State')!;
+        expect(state.additionalTextEdits![0].newText).to.equal(', State');
+    });
+
+    it('should only suggest class declarations for relationships', function() {
+        const items = complete(modelManager, 'namespace test@1.0.0\nconcept Order {\n    --> |\n}');
+        expect(items.map(i => i.label)).to.include('Person');
+        expect(items.map(i => i.label)).to.not.include.members(['State', 'String']);
+    });
+
+    it('should suggest namespaces and types in imports', function() {
+        expect(complete(modelManager, 'namespace test@1.0.0\nimport org.|').map(i => i.label)).to.deep.equal(['org.acme.hr@1.0.0']);
+        const types = complete(modelManager, 'namespace test@1.0.0\nimport org.acme.hr@1.0.0.{Address, |').map(i => i.label);
+        expect(types).to.include('State');
+        expect(types).to.not.include('Address');
+    });
+
+    it('should suggest decorators used in the workspace', function() {
+        expect(complete(modelManager, 'namespace test@1.0.0\n@|\nconcept A {}').map(i => i.label)).to.deep.equal(['Display']);
+    });
+
+    it('should suggest enum values for defaults', function() {
+        const items = complete(modelManager, 'namespace test@1.0.0\nimport org.acme.hr@1.0.0.State\nconcept A {\n    o State s default="|"\n}');
+        expect(items.map(i => i.label)).to.deep.equal(['MA', 'NY']);
+    });
+
+    it('should suggest keywords at the top level', function() {
+        const labels = complete(modelManager, 'namespace test@1.0.0\n|').map(i => i.label);
+        expect(labels).to.include.members(['import', 'concept', 'enum', 'scalar']);
+        expect(labels).to.not.include('namespace');
+    });
+});
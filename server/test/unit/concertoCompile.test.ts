@@ -0,0 +1,132 @@
+import { expect } from 'chai';
+import { ModelManager } from '@accordproject/concerto-core';
+import { previewCompile } from '../../src/commands/concertoCompile';
+
+const MODEL = `namespace org.acme.preview@1.0.0
+
+concept Address {
+    o String city
+}
+`;
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+concept Address {
+    o String city
+}
+`;
+
+const CONTRACT_MODEL = `namespace org.acme.contract@1.0.0
+
+import org.acme.base@1.0.0.{Address}
+
+concept Contract {
+    o Address address
+}
+`;
+
+const OTHER_MODEL = `namespace org.acme.other@1.0.0
+
+concept Other {
+}
+`;
+
+describe('Compile scope', function() {
+    const uri = 'file:///scope/contract.cto';
+    let state: any;
+
+    beforeEach(() => {
+        const modelManager = new ModelManager({ strict: true });
+        modelManager.addCTOModel(BASE_MODEL, 'file:///scope/base.cto', true);
+        modelManager.addCTOModel(CONTRACT_MODEL, uri, true);
+        modelManager.addCTOModel(OTHER_MODEL, 'file:///scope/other.cto', true);
+        state = {
+            modelManager,
+            connection: {
+                workspace: { getConfiguration: async () => ({ compile: { typeCheck: false } }) },
+                sendRequest: async (method: string) => method === 'vfs/exists' ? false : undefined
+            }
+        };
+    });
+
+    it('should compile all the models by default', async function() {
+        const preview = await previewCompile(state, { uri, target: 'typescript' });
+        expect(preview.output).to.equal('file:///scope/output/typescript');
+        expect(preview.files.map(f => f.name)).to.include.members(['org.acme.base@1.0.0.ts', 'org.acme.contract@1.0.0.ts', 'org.acme.other@1.0.0.ts']);
+    });
+
+    it('should compile a namespace and its dependencies in a folder of the namespace', async function() {
+        const preview = await previewCompile(state, { uri, target: 'typescript', scope: 'dependencies' });
+        expect(preview.output).to.equal('file:///scope/output/typescript/org.acme.contract@1.0.0');
+        const names = preview.files.map(f => f.name);
+        expect(names).to.include.members(['org.acme.base@1.0.0.ts', 'org.acme.contract@1.0.0.ts']);
+        expect(names).to.not.include('org.acme.other@1.0.0.ts');
+    });
+
+    it('should compile only a namespace', async function() {
+        const preview = await previewCompile(state, { uri, target: 'jsonschema', scope: 'namespace' });
+        const schema = JSON.parse(preview.files[0].content);
+        expect(Object.keys(schema.definitions)).to.deep.equal(['org.acme.contract@1.0.0.Contract']);
+    });
+});
+
+describe('Compile preview', function() {
+    let state: any;
+    let files: Record<string, string>;
+    let written: string[];
+
+    beforeEach(() => {
+        files = {};
+        written = [];
+        const modelManager = new ModelManager({ strict: true });
+        modelManager.addCTOModel(MODEL, 'file:///preview/address.cto', true);
+        state = {
+            modelManager,
+            connection: {
+                workspace: { getConfiguration: async () => ({ compile: { typeCheck: false } }) },
+                sendRequest: async (method: string, params: any) => {
+                    if (method === 'vfs/writeFile') {
+                        written.push(params.path);
+                    }
+                    return method === 'vfs/exists' ? files[params.path] !== undefined : files[params.path];
+                }
+            }
+        };
+    });
+
+    it('should compare the generated files to the files on disk without writing them', async function() {
+        const first = await previewCompile(state, { uri: 'file:///preview/address.cto', target: 'typescript' });
+        expect(first.output).to.equal('file:///preview/output/typescript');
+        expect(first.files.map(f => f.status)).to.deep.equal(first.files.map(() => 'added'));
+
+        const [unchanged, modified] = first.files;
+        files[unchanged.uri] = unchanged.content;
+        files[modified.uri] = `// edited by hand\n${modified.content}`;
+        const second = await previewCompile(state, { uri: 'file:///preview/address.cto', target: 'typescript' });
+        expect(second.files.map(f => [f.name, f.status])).to.deep.equal([[unchanged.name, 'unchanged'], [modified.name, 'modified']]);
+        expect(written).to.deep.equal([]);
+    });
+
+    it('should not report the files with non-ASCII text as modified', async function() {
+        state.modelManager.addCTOModel(MODEL.replace('preview', 'city').replace('o String city', 'o String city default="Zürich"'), 'file:///preview/city.cto', true);
+        const first = await previewCompile(state, { uri: 'file:///preview/address.cto', target: 'jsonschema' });
+        const [schema] = first.files;
+        expect(schema.content).to.contain('Zürich');
+
+        // the file written by the compilation, as read back by the client
+        files[schema.uri] = new TextDecoder().decode(new TextEncoder().encode(schema.content));
+        const second = await previewCompile(state, { uri: 'file:///preview/address.cto', target: 'jsonschema' });
+        expect(second.files.map(f => f.status)).to.deep.equal(['unchanged']);
+    });
+
+    it('should reject invalid targets', async function() {
+        let error: Error | undefined;
+        try {
+            await previewCompile(state, { uri: 'file:///preview/address.cto', target: 'cobol' });
+        }
+        catch (e) {
+            error = e as Error;
+        }
+        expect(error?.message).to.equal('Invalid compilation target cobol');
+    });
+});
@@ -0,0 +1,105 @@
+import { expect } from 'chai';
+import { ModelManager } from '@accordproject/concerto-core';
+import { FileChangeType } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostics } from '../../src/diagnostics';
+import { ModelProjects } from '../../src/documents/modelProjects';
+import { handleConcertoDocumentChange, handleDeletedFiles, handleRenamedFiles, handleWatchedFilesChange, validateProject } from '../../src/documents/concertoHandler';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+concept Thing {
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.Thing
+
+concept Car extends Thing {
+}
+`;
+
+describe('Watched files', function() {
+    let state: any;
+    let files: Record<string, string>;
+
+    beforeEach(() => {
+        files = {
+            'file:///files/models/base.cto': BASE_MODEL,
+            'file:///files/vehicle.cto': MODEL,
+        };
+        const modelManager = new ModelManager({ strict: true });
+        Object.keys(files).forEach(uri => modelManager.addCTOModel(files[uri], uri, true));
+        state = {
+            modelManager,
+            diagnostics: new Diagnostics(),
+            isLoading: false,
+            documents: { get: () => undefined, all: () => [] },
+            connection: {
+                sendDiagnostics: () => undefined,
+                sendRequest: async (method: string, params: any) => files[params.path],
+                workspace: { getConfiguration: async () => ({}) }
+            }
+        };
+        state.diagnostics.clearErrors('file:///files/models/base.cto', 'model');
+    });
+
+    it('should remove the namespaces of deleted folders', async function() {
+        await handleDeletedFiles(state, ['file:///files/models']);
+        expect(state.modelManager.getModelFile('org.acme.base@1.0.0')).to.be.undefined;
+        expect(state.diagnostics.diagnosticMap['file:///files/models/base.cto']).to.be.undefined;
+        const errors = [...state.diagnostics.diagnosticMap['file:///files/vehicle.cto']];
+        expect(errors.map((e: any) => e.code)).to.include('unknown-namespace');
+    });
+
+    it('should move the namespaces of renamed files', function() {
+        handleRenamedFiles(state, [{ oldUri: 'file:///files/models', newUri: 'file:///files/core' }]);
+        expect(state.modelManager.getModelFile('org.acme.base@1.0.0').getName()).to.equal('file:///files/core/base.cto');
+        expect(state.diagnostics.diagnosticMap['file:///files/models/base.cto']).to.be.undefined;
+        expect(state.diagnostics.diagnosticMap['file:///files/core/base.cto']).to.exist;
+    });
+
+    it('should reload files changed outside of the editor', async function() {
+        files['file:///files/models/base.cto'] = BASE_MODEL.replace('Thing', 'Item');
+        await handleWatchedFilesChange(state, [{ uri: 'file:///files/models/base.cto', type: FileChangeType.Changed }]);
+        expect(state.modelManager.getModelFile('org.acme.base@1.0.0').getLocalType('Item')).to.exist;
+        const errors = [...state.diagnostics.diagnosticMap['file:///files/vehicle.cto']];
+        expect(errors.map((e: any) => e.code)).to.include('unknown-import');
+    });
+
+    it('should report the models rejected by the model manager', async function() {
+        const uri = 'file:///files/unversioned.cto';
+        const document = TextDocument.create(uri, 'concerto', 1, 'namespace org.acme.unversioned\n');
+        await handleConcertoDocumentChange(state, { document });
+        const errors = [...state.diagnostics.diagnosticMap[uri]];
+        expect(errors).to.have.length(1);
+        expect(errors[0].source).to.equal('model');
+        expect(errors[0].code).to.equal('invalid-namespace');
+        expect(errors[0].message).to.contain('unversioned namespace');
+        expect(errors[0].range).to.deep.equal({ start: { line: 0, character: 10 }, end: { line: 0, character: 30 } });
+    });
+
+    it('should lint the dependents of a changed document', async function() {
+        const vehicle = TextDocument.create('file:///files/vehicle.cto', 'concerto', 1, MODEL);
+        state.projects = new ModelProjects();
+        state.documents = { get: (uri: string) => uri === vehicle.uri ? vehicle : undefined, all: () => [vehicle] };
+        const deprecated = TextDocument.create('file:///files/models/base.cto', 'concerto', 2, BASE_MODEL.replace('concept Thing', '@deprecated\nconcept Thing'));
+        await handleConcertoDocumentChange(state, { document: deprecated });
+        const warnings = [...state.diagnostics.diagnosticMap[vehicle.uri]].filter((d: any) => d.source === 'lint');
+        expect(warnings.map((d: any) => d.code)).to.include('deprecated');
+
+        await handleConcertoDocumentChange(state, { document: TextDocument.create(deprecated.uri, 'concerto', 3, BASE_MODEL) });
+        const codes = [...state.diagnostics.diagnosticMap[vehicle.uri]].map((d: any) => d.code);
+        expect(codes).to.not.include('deprecated');
+    });
+
+    it('should validate all the model files of a project once they are loaded', async function() {
+        state.modelManager.addCTOModel(MODEL.replace('vehicle', 'other').replace('extends Thing', 'extends Other'), 'file:///files/other.cto', true);
+        const changed = await validateProject(state);
+        expect(changed).to.have.members(['file:///files/models/base.cto', 'file:///files/vehicle.cto', 'file:///files/other.cto']);
+        expect(state.diagnostics.diagnosticMap['file:///files/vehicle.cto'].size).to.equal(0);
+        const errors = [...state.diagnostics.diagnosticMap['file:///files/other.cto']];
+        expect(errors.map((e: any) => e.code)).to.include('invalid-super-type');
+    });
+});
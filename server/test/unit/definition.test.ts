@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getDefinition } from '../../src/providers/definitionProvider';
+import { getReferences } from '../../src/providers/referencesProvider';
+import { LanguageServerState } from '../../src/types';
+import { createState, offsetOf } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+abstract asset Thing identified by id {
+    o String id
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing}
+
+asset Car extends Thing {
+    o String model optional
+    --> Thing[] parts
+}
+`;
+
+describe('Definition and references', function() {
+    let state: LanguageServerState;
+    let base: TextDocument;
+    let vehicle: TextDocument;
+
+    beforeEach(() => {
+        base = TextDocument.create('file:///navigation/base.cto', 'concerto', 1, BASE_MODEL);
+        vehicle = TextDocument.create('file:///navigation/vehicle.cto', 'concerto', 1, MODEL);
+        state = createState([base, vehicle]);
+    });
+
+    it('should go to the declaration of a type reference', function() {
+        const location = getDefinition(state, vehicle, offsetOf(vehicle, 'Thing', 1))!;
+        expect(location.uri).to.equal(base.uri);
+        expect(location.range.start).to.deep.equal({ line: 2, character: 15 });
+    });
+
+    it('should go to the namespace of an import', function() {
+        const location = getDefinition(state, vehicle, offsetOf(vehicle, 'org.acme.base'))!;
+        expect(location.uri).to.equal(base.uri);
+        expect(location.range.start.line).to.equal(0);
+    });
+
+    it('should go to the declaration of a type reference in a document that does not parse', function() {
+        const edited = TextDocument.create(vehicle.uri, 'concerto', 2, MODEL.replace('o String model optional', 'o String model optional optional'));
+        const location = getDefinition(state, edited, offsetOf(edited, 'Thing', 2))!;
+        expect(location.uri).to.equal(base.uri);
+        expect(location.range.start).to.deep.equal({ line: 2, character: 15 });
+    });
+
+    it('should go to the identifying field', function() {
+        const location = getDefinition(state, base, offsetOf(base, 'id {'))!;
+        expect(location.range.start.line).to.equal(3);
+    });
+
+    it('should find the references to a declaration across documents', function() {
+        const locations = getReferences(state, base, offsetOf(base, 'Thing'), true);
+        expect(locations.map(l => `${l.uri}:${l.range.start.line}`)).to.deep.equal([
+            'file:///navigation/base.cto:2',
+            'file:///navigation/vehicle.cto:2',
+            'file:///navigation/vehicle.cto:4',
+            'file:///navigation/vehicle.cto:6',
+        ]);
+        expect(getReferences(state, base, offsetOf(base, 'Thing'), false)).to.have.length(3);
+    });
+
+    it('should find the imports of a namespace', function() {
+        const locations = getReferences(state, base, offsetOf(base, 'org.acme.base'), false);
+        expect(locations).to.have.length(1);
+        expect(locations[0].uri).to.equal(vehicle.uri);
+    });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { ModelProjects } from '../../src/documents/modelProjects';
+import { getDocumentLinks } from '../../src/providers/documentLinkProvider';
+import { LanguageServerState } from '../../src/types';
+import { createState } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+concept Address {
+    o String city
+}
+`;
+
+const EXTERNAL_MODEL = `namespace org.accordproject.party@0.2.0
+
+concept Party {
+}
+`;
+
+const MODEL = `namespace org.acme.contract@1.0.0
+
+import org.acme.base@1.0.0.{Address}
+import org.accordproject.party@0.2.0.{Party} from https://models.accordproject.org/accordproject/party@0.2.0.cto
+
+@template("text/grammar.tem.md")
+concept Contract {
+    o Address address
+    o String note default="not/a/file.txt"
+}
+`;
+
+describe('Document links', function() {
+    let state: LanguageServerState;
+    let contract: TextDocument;
+
+    beforeEach(() => {
+        const base = TextDocument.create('file:///links/base.cto', 'concerto', 1, BASE_MODEL);
+        contract = TextDocument.create('file:///links/template/model/contract.cto', 'concerto', 1, MODEL);
+        const files: Record<string, string> = {
+            'file:///links/template/package.json': JSON.stringify({ name: 'template', accordproject: {} }),
+            'file:///links/template/text/grammar.tem.md': 'Hello',
+        };
+        const projects = new ModelProjects();
+        projects.setFolderRoot(contract.uri, 'file:///links/template');
+        state = createState([base, contract], {
+            models: {
+                [base.uri]: BASE_MODEL,
+                '@models.accordproject.org.accordproject.party@0.2.0.cto': EXTERNAL_MODEL,
+                [contract.uri]: MODEL
+            },
+            projects,
+            connection: {
+                sendRequest: async (method: string, params: any) => method === 'vfs/exists' ? files[params.path] !== undefined : files[params.path]
+            }
+        });
+    });
+
+    it('should link imports to their models', async function() {
+        const links = await getDocumentLinks(state, contract);
+        const targets = links.map(l => [l.range.start.line, l.range.start.character, l.target]);
+        expect(targets).to.deep.include.members([
+            [2, 7, 'file:///links/base.cto'],
+            [3, 7, 'concerto-external:/org.accordproject.party%400.2.0.cto'],
+            [3, 50, 'concerto-external:/org.accordproject.party%400.2.0.cto'],
+        ]);
+    });
+
+    it('should link paths relative to the project root', async function() {
+        const links = await getDocumentLinks(state, contract);
+        const templateLinks = links.filter(l => l.target!.startsWith('file:///links/template/'));
+        expect(templateLinks).to.have.length(1);
+        expect(templateLinks[0].target).to.equal('file:///links/template/text/grammar.tem.md');
+        expect(templateLinks[0].range).to.deep.equal({ start: { line: 5, character: 11 }, end: { line: 5, character: 30 } });
+    });
+
+    it('should not link paths outside of projects', async function() {
+        state.projects = new ModelProjects();
+        const links = await getDocumentLinks(state, contract);
+        expect(links.filter(l => l.target!.startsWith('file:///links/template/'))).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,95 @@
+import { expect } from 'chai';
+import { ModelManager } from '@accordproject/concerto-core';
+import { createExternalModelDownloader, ExternalModelLoader, updateExternalModels } from '../../src/documents/externalModelCache';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+concept Thing {
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.Thing from https://models.acme.org/base@1.0.0.cto
+
+concept Car extends Thing {
+}
+`;
+
+const URL = 'https://models.acme.org/base@1.0.0.cto';
+
+describe('External model cache', function() {
+    let state: any;
+    let files: Record<string, string>;
+    let settings: any;
+
+    beforeEach(() => {
+        files = {};
+        settings = {};
+        const modelManager = new ModelManager({ strict: true });
+        modelManager.addCTOModel(MODEL, 'file:///cache/vehicle.cto', true);
+        state = {
+            modelManager,
+            connection: {
+                sendRequest: async (method: string, params: any) => {
+                    switch (method) {
+                    case 'vfs/exists': return files[params.path] !== undefined;
+                    case 'vfs/readFile': return files[params.path];
+                    case 'vfs/writeFile': files[params.path] = new TextDecoder().decode(Uint8Array.from(params.content));
+                    }
+                },
+                workspace: {
+                    getConfiguration: async () => settings,
+                    getWorkspaceFolders: async () => [{ uri: 'file:///cache', name: 'cache' }]
+                }
+            }
+        };
+    });
+
+    const online = { load: async (url: string) => ({ ast: { namespace: 'org.acme.base@1.0.0' }, definitions: BASE_MODEL, fileName: '@models.acme.org.base@1.0.0.cto' }) };
+    const offline = { load: async (url: string) => { throw new Error(`Unable to download ${url}`); } };
+
+    it('should use the cached models when offline', async function() {
+        const loader = new ExternalModelLoader(state, 'file:///storage/models', {}, false, online);
+        await loader.load(URL);
+        await loader.saveIndex();
+        expect(files['file:///storage/models/org.acme.base%401.0.0.cto']).to.equal(BASE_MODEL);
+        expect(JSON.parse(files['file:///storage/models/index.json'])[URL].file).to.equal('org.acme.base@1.0.0.cto');
+
+        const offlineLoader = new ExternalModelLoader(state, 'file:///storage/models', {}, false, offline);
+        await state.modelManager.updateExternalModels(undefined, createExternalModelDownloader(offlineLoader));
+        const modelFile = state.modelManager.getModelFile('org.acme.base@1.0.0');
+        expect(modelFile.isExternal()).to.be.true;
+        expect(modelFile.getDefinitions()).to.equal(BASE_MODEL);
+
+        const refreshLoader = new ExternalModelLoader(state, 'file:///storage/models', {}, true, offline);
+        try {
+            await refreshLoader.load(URL);
+            expect.fail('the cache should not be used when refreshing');
+        }
+        catch (error: any) {
+            expect(error.message).to.contain('Unable to download');
+        }
+    });
+
+    it('should read back the cached models with non-ASCII text', async function() {
+        const model = BASE_MODEL.replace('concept Thing {', '/** Une chose, « Ding » ou 東西 */\n@Term("Thing ✓")\nconcept Thing {');
+        const loader = new ExternalModelLoader(state, 'file:///storage/models', {}, false, { load: async () => ({ ...await online.load(URL), definitions: model }) });
+        await loader.load(URL);
+        await loader.saveIndex();
+
+        const offlineLoader = new ExternalModelLoader(state, 'file:///storage/models', {}, false, offline);
+        await state.modelManager.updateExternalModels(undefined, createExternalModelDownloader(offlineLoader));
+        const modelFile = state.modelManager.getModelFile('org.acme.base@1.0.0');
+        expect(modelFile.getDefinitions()).to.equal(model);
+        expect(modelFile.getLocalType('Thing').getDecorator('Term').getArguments()).to.deep.equal(['Thing ✓']);
+    });
+
+    it('should use the pinned models', async function() {
+        files['file:///cache/vendor/base.cto'] = BASE_MODEL;
+        settings = { externalModels: { cacheLocation: 'workspace', pinned: { [URL]: 'vendor/base.cto' } } };
+        await updateExternalModels(state, 'file:///cache/vehicle.cto');
+        expect(state.modelManager.getModelFile('org.acme.base@1.0.0').getName()).to.equal('file:///cache/vendor/base.cto');
+        expect(files['file:///cache/.concerto/models/index.json']).to.be.undefined;
+    });
+});
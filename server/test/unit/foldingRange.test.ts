@@ -0,0 +1,51 @@
+import { expect } from 'chai';
+import { FoldingRangeKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getFoldingRanges } from '../../src/providers/foldingRangeProvider';
+
+const MODEL = `// The model of
+// the vehicles
+namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing}
+import org.acme.party@1.0.0.{Person, Company}
+
+/**
+ * A car
+ */
+@Term("Car")
+@Resource
+asset Car extends Thing {
+    @Display(
+        "Model"
+    )
+    o String model optional
+    --> Person owner
+}
+
+enum Color {
+    o RED
+    o BLUE
+}
+`;
+
+describe('Folding ranges', function() {
+    it('should fold declarations, imports, decorators and comments', function() {
+        const document = TextDocument.create('file:///folding/vehicle.cto', 'concerto', 1, MODEL);
+        const ranges = getFoldingRanges(document).map(r => [r.startLine, r.endLine, r.kind]);
+        expect(ranges).to.deep.equal([
+            [0, 1, FoldingRangeKind.Comment],
+            [4, 5, FoldingRangeKind.Imports],
+            [7, 9, FoldingRangeKind.Comment],
+            [10, 11, undefined],
+            [12, 17, undefined],
+            [13, 15, undefined],
+            [20, 22, undefined],
+        ]);
+    });
+
+    it('should fold documents that do not parse from their scanned model', function() {
+        const document = TextDocument.create('file:///folding/invalid.cto', 'concerto', 1, MODEL.replace('o String model optional', 'o String model optional optional'));
+        expect(getFoldingRanges(document).map(r => [r.startLine, r.endLine])).to.deep.include.members([[12, 17], [20, 22]]);
+    });
+});
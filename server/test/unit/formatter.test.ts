@@ -0,0 +1,77 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { formatModel, FormatOptions } from '../../src/documents/formatter';
+import { getFormattingEdits } from '../../src/providers/formattingProvider';
+import { getLineEdits } from '../../src/documents/edits';
+
+const OPTIONS: FormatOptions = { indent: '    ', sortImports: true, blankLinesBetweenDeclarations: 1 };
+
+const MODEL = `/* header */
+namespace org.acme@1.0.0
+import org.x@1.0.0.* from https://x.com/a.cto
+import org.base@1.0.0.{C, A as B}
+@Foo( "a",1,true, A )
+abstract   asset Car identified by vin extends B { // car
+  // the vin
+  @Bar o String vin default="x" regex=/a-z/ length=[1,10] optional
+  o Integer[] n range=[0,] // trailing
+  --> C rel
+}
+enum E { o A
+o BB }
+scalar S extends Double default=1.0
+`;
+
+const FORMATTED = `/* header */
+namespace org.acme@1.0.0
+
+import org.base@1.0.0.{A as B, C}
+import org.x@1.0.0.* from https://x.com/a.cto
+
+@Foo("a", 1, true, A)
+abstract asset Car identified by vin extends B { // car
+    // the vin
+    @Bar
+    o String    vin default="x" regex=/a-z/ length=[1,10] optional
+    o Integer[] n   range=[0,] // trailing
+    --> C       rel
+}
+
+enum E {
+    o A
+    o BB
+}
+
+scalar S extends Double default=1.0
+`;
+
+describe('Formatter', function() {
+    it('should print a model in the canonical style, keeping comments', function() {
+        expect(formatModel(MODEL, OPTIONS)).to.equal(FORMATTED);
+        expect(formatModel(FORMATTED, OPTIONS)).to.equal(FORMATTED);
+    });
+
+    it('should apply the options', function() {
+        const formatted = formatModel(MODEL, { indent: '\t', sortImports: false, blankLinesBetweenDeclarations: 2 })!;
+        expect(formatted).to.contain('import org.x@1.0.0.* from https://x.com/a.cto\nimport org.base@1.0.0.{C, A as B}');
+        expect(formatted).to.contain('\to Integer[] n   range=[0,]');
+        expect(formatted).to.contain('}\n\n\nenum E {');
+    });
+
+    it('should not format models with syntax errors', function() {
+        expect(formatModel('namespace org.acme@1.0.0\nconcept A {', OPTIONS)).to.be.undefined;
+    });
+
+    it('should only change the lines in a range', function() {
+        const document = TextDocument.create('file:///format.cto', 'concerto', 1, 'namespace org.acme@1.0.0\n\nconcept A {\no String a\n}\n\nconcept B {\no String b\n}\n');
+        const edits = getFormattingEdits(document, OPTIONS, { start: { line: 6, character: 0 }, end: { line: 8, character: 0 } });
+        expect(TextDocument.applyEdits(document, edits)).to.equal('namespace org.acme@1.0.0\n\nconcept A {\no String a\n}\n\nconcept B {\n    o String b\n}\n');
+    });
+
+    it('should only replace the lines that changed', function() {
+        const document = TextDocument.create('file:///format.cto', 'concerto', 1, 'a\nb\nc\nd\n');
+        const edits = getLineEdits(document, 'a\nB\nc\nd\ne\n');
+        expect(edits.map(e => [e.range.start.line, e.range.end.line, e.newText])).to.deep.equal([[1, 2, 'B\n'], [4, 4, 'e\n']]);
+        expect(TextDocument.applyEdits(document, edits)).to.equal('a\nB\nc\nd\ne\n');
+    });
+});
@@ -0,0 +1,71 @@
+import { ModelManager } from '@accordproject/concerto-core';
+import { Connection, TextDocuments } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostics } from '../../src/diagnostics';
+import { ModelProjects } from '../../src/documents/modelProjects';
+import { LanguageServerState } from '../../src/types';
+
+/**
+ * The open documents of a test
+ */
+class OpenDocuments extends TextDocuments<TextDocument> {
+    constructor(private readonly documents: TextDocument[]) {
+        super(TextDocument);
+    }
+
+    get(uri: string) {
+        return this.documents.find(d => d.uri === uri);
+    }
+
+    all() {
+        return this.documents;
+    }
+
+    keys() {
+        return this.documents.map(d => d.uri);
+    }
+}
+
+export type StateOptions = {
+    /**
+     * The models of the model manager keyed by file name, by default the
+     * models of the documents
+     */
+    models?: Record<string, string>;
+    projects?: ModelProjects;
+    /**
+     * The methods of the connection used by the test
+     */
+    connection?: Partial<Record<keyof Connection, unknown>>;
+};
+
+/**
+ * Creates the language server state of a test, with the open documents and
+ * a model manager holding their models (without validating them)
+ * @param documents the open documents
+ * @param options the models, projects and connection of the state
+ */
+export function createState(documents: TextDocument[], options: StateOptions = {}): LanguageServerState {
+    const models = options.models ?? Object.fromEntries(documents.map(d => [d.uri, d.getText()]));
+    const modelManager = new ModelManager({ strict: true });
+    Object.keys(models).forEach(fileName => modelManager.addCTOModel(models[fileName], fileName, true));
+    return {
+        modelManager,
+        projects: options.projects ?? new ModelProjects(),
+        diagnostics: new Diagnostics(),
+        connection: options.connection ? options.connection as Connection : null,
+        isLoading: false,
+        documents: new OpenDocuments(documents)
+    };
+}
+
+/**
+ * Returns the offset of an occurrence of a word in a document (within the word)
+ */
+export function offsetOf(document: TextDocument, word: string, occurrence = 0) {
+    let offset = -1;
+    for (let n = 0; n <= occurrence; n++) {
+        offset = document.getText().indexOf(word, offset + 1);
+    }
+    return offset + 1;
+}
@@ -0,0 +1,78 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getHover } from '../../src/providers/hoverProvider';
+import { LanguageServerState } from '../../src/types';
+import { createState, offsetOf } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+/**
+ * Something with an identity
+ */
+@Term("Thing")
+abstract asset Thing identified by id {
+    o String id
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing}
+
+/** A car */
+asset Car extends Thing {
+    o String model optional
+    o Integer[] wheels
+}
+`;
+
+/**
+ * Returns the markdown of the hover at the first occurrence of a word in the model
+ */
+function hover(state: LanguageServerState, document: TextDocument, word: string, occurrence = 0) {
+    const result = getHover(state, document, offsetOf(document, word, occurrence));
+    return result ? (result.contents as any).value as string : null;
+}
+
+describe('Hover', function() {
+    let state: LanguageServerState;
+    let base: TextDocument;
+    let vehicle: TextDocument;
+
+    beforeEach(() => {
+        base = TextDocument.create('file:///base.cto', 'concerto', 1, BASE_MODEL);
+        vehicle = TextDocument.create('file:///vehicle.cto', 'concerto', 1, MODEL);
+        state = createState([base, vehicle]);
+    });
+
+    it('should describe a type reference', function() {
+        const value = hover(state, vehicle, 'Thing', 1)!;
+        expect(value).to.contain('abstract asset Thing identified by id');
+        expect(value).to.contain('`org.acme.base@1.0.0.Thing`');
+        expect(value).to.contain('@Term("Thing")');
+        expect(value).to.contain('Something with an identity');
+    });
+
+    it('should describe a declaration with its supertypes and identifier', function() {
+        const value = hover(state, vehicle, 'Car')!;
+        expect(value).to.contain('Extends: `org.acme.base@1.0.0.Thing`');
+        expect(value).to.contain('Identified by: `id`');
+        expect(value).to.contain('A car');
+    });
+
+    it('should describe a field', function() {
+        const value = hover(state, vehicle, 'wheels')!;
+        expect(value).to.contain('o Integer[] wheels');
+        expect(value).to.contain('field of `org.acme.vehicle@1.0.0.Car`');
+    });
+
+    it('should describe an imported namespace', function() {
+        const value = hover(state, vehicle, 'org.acme.base')!;
+        expect(value).to.contain('Declared in `file:///base.cto`');
+        expect(value).to.contain('Declares: `Thing`');
+    });
+
+    it('should describe primitive types', function() {
+        expect(hover(state, vehicle, 'String')).to.contain('primitive type');
+    });
+});
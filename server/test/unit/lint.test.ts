@@ -0,0 +1,103 @@
+import { expect } from 'chai';
+import { DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { forgetLintConfigFiles, getLintConfig, lintDocument, readLintConfigFile } from '../../src/lint/linter';
+import { ModelProjects } from '../../src/documents/modelProjects';
+import { DEFAULT_SETTINGS } from '../../src/settings';
+import { LanguageServerState } from '../../src/types';
+import { createState } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+/**
+ * A thing
+ */
+@deprecated
+abstract asset Thing identified by id {
+    o String id
+}
+
+abstract concept Unused {
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing, Unused}
+
+asset car extends Thing {
+    o String Color
+    o String createdAt
+    o String email regex=/.+@.+/
+}
+`;
+
+describe('Lint', function() {
+    let state: LanguageServerState;
+    let base: TextDocument;
+    let vehicle: TextDocument;
+
+    before(() => {
+        base = TextDocument.create('file:///lint/base.cto', 'concerto', 1, BASE_MODEL);
+        vehicle = TextDocument.create('file:///lint/vehicle.cto', 'concerto', 1, MODEL);
+        state = createState([base, vehicle]);
+    });
+
+    function lint(document: TextDocument, namespace: string, rules: any = {}) {
+        const config = getLintConfig(DEFAULT_SETTINGS.lint, { rules });
+        return lintDocument(state, document, state.modelManager.getModelFile(namespace), config)
+            .map(d => [d.code, document.getText(d.range)]);
+    }
+
+    it('should report the problems of each rule', function() {
+        expect(lint(vehicle, 'org.acme.vehicle@1.0.0')).to.deep.equal([
+            ['naming-convention', 'car'],
+            ['naming-convention', 'Color'],
+            ['unused-import', 'Unused'],
+            ['missing-doc-comment', 'car'],
+            ['broad-string', 'String'],
+            ['deprecated', 'Thing'],
+        ]);
+        expect(lint(base, 'org.acme.base@1.0.0')).to.deep.equal([
+            ['unused-declaration', 'Unused'],
+            ['missing-doc-comment', 'Unused'],
+        ]);
+    });
+
+    it('should configure the rules', function() {
+        const config = getLintConfig({ enabled: true, rules: { 'naming-convention': 'error', 'deprecated': 'loud' as any } }, { rules: { 'missing-doc-comment': 'off' } });
+        expect(config['naming-convention']).to.equal('error');
+        expect(config['deprecated']).to.equal('warning');
+        expect(config['missing-doc-comment']).to.equal('off');
+
+        const diagnostics = lintDocument(state, vehicle, state.modelManager.getModelFile('org.acme.vehicle@1.0.0'), config);
+        expect(diagnostics.filter(d => d.code === 'naming-convention').every(d => d.severity === DiagnosticSeverity.Error && d.source === 'lint')).to.be.true;
+        expect(diagnostics.some(d => d.code === 'missing-doc-comment')).to.be.false;
+        expect(Object.values(getLintConfig(DEFAULT_SETTINGS.lint, { enabled: false })).every(s => s === 'off')).to.be.true;
+    });
+
+    it('should read the .concertolint.json file of a document within its workspace folder, until it changes', async function() {
+        const requests: string[] = [];
+        const files: Record<string, string> = { 'file:///lint/.concertolint.json': '{ "enabled": false }' };
+        const projects = new ModelProjects();
+        projects.setWorkspaceFolders(['file:///lint/workspace']);
+        const lintState = createState([], {
+            models: {},
+            projects,
+            connection: {
+                sendRequest: async (method: string, params: any) => {
+                    requests.push(params.path);
+                    return method === 'vfs/exists' ? files[params.path] !== undefined : files[params.path];
+                }
+            }
+        });
+        forgetLintConfigFiles();
+        expect(await readLintConfigFile(lintState, 'file:///lint/workspace/models/a.cto')).to.be.undefined;
+        expect(requests).to.deep.equal(['file:///lint/workspace/models/.concertolint.json', 'file:///lint/workspace/.concertolint.json']);
+
+        files['file:///lint/workspace/.concertolint.json'] = '{ "rules": { "deprecated": "off" } }';
+        expect(await readLintConfigFile(lintState, 'file:///lint/workspace/models/b.cto')).to.be.undefined;
+        forgetLintConfigFiles();
+        expect(await readLintConfigFile(lintState, 'file:///lint/workspace/models/b.cto')).to.deep.equal({ rules: { deprecated: 'off' } });
+    });
+});
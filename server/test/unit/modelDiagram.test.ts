@@ -0,0 +1,54 @@
+import { expect } from 'chai';
+import { ModelManager } from '@accordproject/concerto-core';
+import { getModelDiagram } from '../../src/commands/modelDiagram';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+concept Address {
+    o String city
+}
+`;
+
+const MODEL = `namespace org.acme.party@1.0.0
+
+import org.acme.base@1.0.0.{Address}
+
+participant Person identified by id {
+    o String id
+    o Address address
+    --> Person[] friends
+}
+`;
+
+describe('Model diagram', function() {
+    let state: any;
+
+    beforeEach(() => {
+        const modelManager = new ModelManager({ strict: true });
+        modelManager.addCTOModel(BASE_MODEL, 'file:///diagram/base.cto', true);
+        modelManager.addCTOModel(MODEL, 'file:///diagram/party.cto', true);
+        state = { modelManager };
+    });
+
+    it('should draw the namespace of the current document', function() {
+        const diagram = getModelDiagram(state, { format: 'mermaid', uri: 'file:///diagram/party.cto' });
+        expect(diagram.namespaces).to.deep.equal(['org.acme.party@1.0.0']);
+        expect(diagram.allNamespaces).to.deep.equal(['org.acme.base@1.0.0', 'org.acme.party@1.0.0']);
+        expect(diagram.source).to.match(/^classDiagram/);
+        expect(diagram.source).to.include('class `org.acme.party@1.0.0.Person`');
+        expect(diagram.source).to.include('`org.acme.party@1.0.0.Person` "1" o-- "*" `org.acme.party@1.0.0.Person` : friends');
+        expect(diagram.source).to.not.include('class `org.acme.base@1.0.0.Address`');
+    });
+
+    it('should draw the selected namespaces in PlantUML', function() {
+        const diagram = getModelDiagram(state, { format: 'plantuml', uri: 'file:///diagram/party.cto', namespaces: ['org.acme.base@1.0.0', 'org.acme.party@1.0.0'] });
+        expect(diagram.namespaces).to.have.members(['org.acme.base@1.0.0', 'org.acme.party@1.0.0']);
+        expect(diagram.source).to.match(/^@startuml/);
+        expect(diagram.source).to.include('class org.acme.base_1_0_0.Address');
+        expect(diagram.source).to.include('org.acme.party_1_0_0.Person "1" *-- "1" org.acme.base_1_0_0.Address : address');
+    });
+
+    it('should reject unknown formats', function() {
+        expect(() => getModelDiagram(state, { format: 'svg' as any })).to.throw('Invalid diagram format svg');
+    });
+});
@@ -0,0 +1,94 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { findCycles, getModelGraph } from '../../src/documents/modelGraph';
+import { LanguageServerState } from '../../src/types';
+import { createState } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+import org.acme.vehicle@1.0.0.{Car}
+
+abstract asset Thing identified by id {
+    o String id
+    --> Car favourite optional
+}
+`;
+
+const VEHICLE_MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing}
+
+asset Car extends Thing {
+    o Engine engine
+}
+
+concept Engine {
+    o Engine spare optional
+}
+`;
+
+const OTHER_MODEL = `namespace org.acme.other@1.0.0
+
+concept Other {
+    o String name
+}
+`;
+
+describe('Model graph', function() {
+    let state: LanguageServerState;
+
+    beforeEach(() => {
+        state = createState([
+            TextDocument.create('file:///graph/base.cto', 'concerto', 1, BASE_MODEL),
+            TextDocument.create('file:///graph/vehicle.cto', 'concerto', 1, VEHICLE_MODEL),
+            TextDocument.create('file:///graph/other.cto', 'concerto', 1, OTHER_MODEL),
+        ]);
+    });
+
+    it('should find the cycles of a graph', function() {
+        const cycles = findCycles(['a', 'b', 'c', 'd'], [
+            { source: 'a', target: 'b' },
+            { source: 'b', target: 'a' },
+            { source: 'b', target: 'c' },
+            { source: 'd', target: 'd' },
+        ]);
+        expect(cycles).to.have.length(2);
+        expect(cycles[0]).to.have.members(['a', 'b']);
+        expect(cycles[1]).to.deep.equal(['d']);
+    });
+
+    it('should detect import cycles between namespaces', function() {
+        const graph = getModelGraph(state);
+        expect(graph.allNamespaces).to.deep.equal(['org.acme.base@1.0.0', 'org.acme.other@1.0.0', 'org.acme.vehicle@1.0.0']);
+        expect(graph.namespaces.nodes.map(n => n.id)).to.have.members(graph.allNamespaces);
+        expect(graph.namespaces.edges.every(e => e.kind === 'import' && e.cyclic)).to.be.true;
+        expect(graph.namespaces.cycles).to.have.length(1);
+        expect(graph.namespaces.cycles[0]).to.have.members(['org.acme.base@1.0.0', 'org.acme.vehicle@1.0.0']);
+    });
+
+    it('should link types to their declarations, ignoring relationship cycles', function() {
+        const { types } = getModelGraph(state);
+        const car = types.nodes.find(n => n.id === 'org.acme.vehicle@1.0.0.Car')!;
+        expect(car.kind).to.equal('asset');
+        expect(car.location!.uri).to.equal('file:///graph/vehicle.cto');
+        expect(car.location!.range.start).to.deep.equal({ line: 4, character: 6 });
+
+        const edges = types.edges.map(e => `${e.source} ${e.kind} ${e.target}${e.cyclic ? ' (cyclic)' : ''}`);
+        expect(edges).to.include.members([
+            'org.acme.vehicle@1.0.0.Car extends org.acme.base@1.0.0.Thing',
+            'org.acme.base@1.0.0.Thing relationship org.acme.vehicle@1.0.0.Car',
+            'org.acme.vehicle@1.0.0.Engine field org.acme.vehicle@1.0.0.Engine (cyclic)',
+        ]);
+        expect(types.cycles).to.deep.equal([['org.acme.vehicle@1.0.0.Engine']]);
+    });
+
+    it('should show the filtered namespaces and their dependencies', function() {
+        const graph = getModelGraph(state, ['org.acme.vehicle@1.0.0']);
+        expect(graph.namespaces.nodes.map(n => n.id)).to.have.members(['org.acme.vehicle@1.0.0', 'org.acme.base@1.0.0']);
+        expect(graph.namespaces.edges.map(e => e.source)).to.deep.equal(['org.acme.vehicle@1.0.0']);
+        expect(graph.types.nodes.map(n => n.id)).to.have.members([
+            'org.acme.vehicle@1.0.0.Car', 'org.acme.vehicle@1.0.0.Engine', 'org.acme.base@1.0.0.Thing'
+        ]);
+        expect(graph.allNamespaces).to.have.length(3);
+    });
+});
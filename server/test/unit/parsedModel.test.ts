@@ -0,0 +1,69 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getDocumentModel, parseDocument, parseModel } from '../../src/documents/parsedModel';
+
+const MODEL = `namespace org.example@1.0.0
+
+import org.acme.hr@1.0.0.{Address, State as Region} from https://models.example.com/hr.cto
+import org.acme.base@1.0.0.Thing
+
+/**
+ * A customer
+ */
+@Term("Customer")
+abstract participant Customer identified by email extends Thing {
+    o String email regex=/^[a-z]+@example\\.com$/
+    o Region region default="MA" optional
+    --> Address[] addresses
+    o String o
+    o Integer count
+}
+
+map Scores {
+    o String
+    o Integer
+}
+`;
+
+describe('Parsed model', function() {
+
+    it('should read the namespace and imports', function() {
+        const model = parseModel(MODEL)!;
+        expect(model.namespace!.name).to.equal('org.example@1.0.0');
+        expect(model.namespace!.span).to.deep.equal({ start: 10, end: 27 });
+        expect(model.imports).to.have.length(2);
+        expect(model.imports[0].types.map(t => t.name)).to.deep.equal(['Address', 'State']);
+        expect(model.imports[0].aliases.State.name).to.equal('Region');
+        expect(model.imports[0].uri!.name).to.equal('https://models.example.com/hr.cto');
+        expect(model.imports[1].namespace).to.equal('org.acme.base@1.0.0');
+        expect(model.imports[1].types.map(t => t.name)).to.deep.equal(['Thing']);
+    });
+
+    it('should read the declarations and properties of the AST', function() {
+        const model = parseModel(MODEL)!;
+        const [customer, scores] = model.declarations;
+        expect(customer.kind).to.equal('participant');
+        expect(customer.isAbstract).to.be.true;
+        expect(customer.identifiedBy!.name).to.equal('email');
+        expect(customer.superType!.name).to.equal('Thing');
+        expect(customer.decorators.map(d => d.name)).to.deep.equal(['Term']);
+        expect(customer.docComment).to.not.be.undefined;
+        // a property named o is not the start of the next property
+        expect(customer.properties.map(p => [p.kind, p.type?.name, p.name?.name])).to.deep.equal([
+            ['field', 'String', 'email'],
+            ['field', 'Region', 'region'],
+            ['relationship', 'Address', 'addresses'],
+            ['field', 'String', 'o'],
+            ['field', 'Integer', 'count']
+        ]);
+        expect(customer.properties[1].defaultValue!.name).to.equal('MA');
+        expect(MODEL.substring(customer.properties[3].span.start, customer.properties[3].span.end)).to.equal('o String o');
+        expect(scores.properties.map(p => [p.kind, p.type?.name])).to.deep.equal([['mapKey', 'String'], ['mapValue', 'Integer']]);
+    });
+
+    it('should fall back to the scanner for documents that do not parse', function() {
+        const document = TextDocument.create('file:///parsed/invalid.cto', 'concerto', 1, 'namespace org.example@1.0.0\n\nconcept Address {\n    o String\n');
+        expect(parseDocument(document)).to.be.undefined;
+        expect(getDocumentModel(document).declarations.map(d => d.name.name)).to.deep.equal(['Address']);
+    });
+});
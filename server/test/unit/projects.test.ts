@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getProjectState, handleProjectDocumentChange, handleProjectFilesRenamed } from '../../src/documents/projectHandler';
+import { getAllDeclarations } from '../../src/documents/modelIndex';
+import { LanguageServerState } from '../../src/types';
+import { createState } from './helpers';
+
+const MODEL = `namespace org.acme@1.0.0
+
+concept Thing {
+}
+`;
+
+const OTHER_MODEL = `namespace org.acme@1.0.0
+
+concept Other {
+}
+`;
+
+describe('Projects', function() {
+    let state: LanguageServerState;
+    let files: Record<string, string>;
+    let documents: TextDocument[];
+
+    beforeEach(() => {
+        files = {
+            'file:///projects/templates/contract/package.json': JSON.stringify({ name: 'contract', accordproject: {} }),
+            'file:///projects/templates/package.json': JSON.stringify({ name: 'templates' }),
+        };
+        documents = [
+            TextDocument.create('file:///projects/first/model.cto', 'concerto', 1, MODEL),
+            TextDocument.create('file:///projects/second/model.cto', 'concerto', 1, OTHER_MODEL),
+            TextDocument.create('file:///projects/templates/contract/model/model.cto', 'concerto', 1, MODEL),
+        ];
+        state = createState(documents, {
+            models: {},
+            connection: {
+                sendDiagnostics: () => undefined,
+                sendRequest: async (method: string, params: any) => method === 'vfs/exists' ? files[params.path] !== undefined : files[params.path],
+                workspace: {
+                    getConfiguration: async () => ({}),
+                    getWorkspaceFolders: async () => [
+                        { uri: 'file:///projects/first', name: 'first' },
+                        { uri: 'file:///projects/second', name: 'second' },
+                        { uri: 'file:///projects/templates', name: 'templates' },
+                    ]
+                }
+            }
+        });
+    });
+
+    async function loadDocuments() {
+        for (const document of documents) {
+            await handleProjectDocumentChange(state, { document });
+        }
+    }
+
+    it('should isolate the namespaces of each project', async function() {
+        await loadDocuments();
+        expect(state.projects.getRoots()).to.have.members(['file:///projects/first', 'file:///projects/second', 'file:///projects/templates/contract']);
+        documents.forEach(document => {
+            const errors = [...state.diagnostics.diagnosticMap[document.uri]];
+            expect(errors.map((e: any) => e.code)).to.not.include('duplicate-namespace');
+        });
+        const second = getProjectState(state, 'file:///projects/second/model.cto');
+        expect(second.documents.all().map(d => d.uri)).to.deep.equal(['file:///projects/second/model.cto']);
+        expect(second.documents.get('file:///projects/first/model.cto')).to.be.undefined;
+        expect(second.documents.get('file:///projects/second/model.cto')).to.exist;
+        expect(getAllDeclarations(second).map(d => d.name)).to.include('Other').and.not.include('Thing');
+    });
+
+    it('should move renamed files to their new project', async function() {
+        await loadDocuments();
+        files['file:///projects/second/copy.cto'] = MODEL;
+        await handleProjectFilesRenamed(state, [{ oldUri: 'file:///projects/first/model.cto', newUri: 'file:///projects/second/copy.cto' }]);
+        expect(state.projects.getModelManager('file:///projects/first').getModelFile('org.acme@1.0.0')).to.be.undefined;
+        const errors = [...state.diagnostics.diagnosticMap['file:///projects/second/copy.cto']];
+        expect(errors.map((e: any) => e.code)).to.include('duplicate-namespace');
+    });
+});
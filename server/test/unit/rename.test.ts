@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { TextEdit } from 'vscode-languageserver';
+import { getRenameEdits, prepareRename } from '../../src/providers/renameProvider';
+import { LanguageServerState } from '../../src/types';
+import { createState, offsetOf } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+enum Color {
+    o RED
+    o BLUE
+}
+
+abstract asset Thing identified by id {
+    o String id
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing, Color}
+
+asset Car extends Thing {
+    o Color color default="RED"
+    --> Thing[] parts
+}
+`;
+
+describe('Rename', function() {
+    let state: LanguageServerState;
+    let base: TextDocument;
+    let vehicle: TextDocument;
+    let version = 0;
+
+    /**
+     * Applies the edits of a rename to the documents, and returns their text
+     */
+    function rename(document: TextDocument, offset: number, newName: string) {
+        const changes = getRenameEdits(state, document, offset, newName).changes!;
+        return [base, vehicle].map(d => TextDocument.applyEdits(d, (changes[d.uri] ?? []) as TextEdit[]));
+    }
+
+    beforeEach(() => {
+        version++;
+        base = TextDocument.create('file:///rename/base.cto', 'concerto', version, BASE_MODEL);
+        vehicle = TextDocument.create('file:///rename/vehicle.cto', 'concerto', version, MODEL);
+        state = createState([base, vehicle]);
+    });
+
+    it('should rename a declaration and its references', function() {
+        const [baseText, vehicleText] = rename(vehicle, offsetOf(vehicle, 'Thing', 1), 'Item');
+        expect(baseText).to.contain('abstract asset Item identified by id');
+        expect(vehicleText).to.contain('import org.acme.base@1.0.0.{Item, Color}');
+        expect(vehicleText).to.contain('asset Car extends Item');
+        expect(vehicleText).to.contain('--> Item[] parts');
+    });
+
+    it('should rename an identifying field', function() {
+        const [baseText] = rename(base, offsetOf(base, 'id {'), 'thingId');
+        expect(baseText).to.contain('abstract asset Thing identified by thingId {\n    o String thingId');
+    });
+
+    it('should rename an enum value and the defaults using it', function() {
+        const [baseText, vehicleText] = rename(base, offsetOf(base, 'RED'), 'GREEN');
+        expect(baseText).to.contain('o GREEN');
+        expect(vehicleText).to.contain('default="GREEN"');
+    });
+
+    it('should rename a namespace and keep its version', function() {
+        const [baseText, vehicleText] = rename(vehicle, offsetOf(vehicle, 'org.acme.base'), 'org.acme.core');
+        expect(baseText).to.contain('namespace org.acme.core@1.0.0');
+        expect(vehicleText).to.contain('import org.acme.core@1.0.0.{Thing, Color}');
+    });
+
+    it('should reject invalid renames', function() {
+        expect(() => prepareRename(state, base, offsetOf(base, 'String'))).to.throw(/Primitive/);
+        expect(() => rename(base, offsetOf(base, 'Thing'), 'Color')).to.throw(/already declares/);
+        expect(() => rename(base, offsetOf(base, 'Thing'), '1Thing')).to.throw(/not a valid/);
+        expect(prepareRename(state, vehicle, offsetOf(vehicle, 'Car')).placeholder).to.equal('Car');
+    });
+});
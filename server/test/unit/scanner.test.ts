@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { scan } from '../../src/documents/scanner';
+import { tokenize } from '../../src/documents/tokenizer';
+
+const MODEL = `namespace org.example@1.0.0
+
+import org.acme.hr@1.0.0.{Address, State as Region} from https://models.example.com/hr.cto
+import org.acme.base@1.0.0.Thing
+
+/**
+ * A customer
+ */
+@Term("Customer")
+abstract participant Customer identified by email extends Thing {
+    o String email regex=/^[a-z]+@example\\.com$/
+    o Region region default="MA" optional
+    --> Address[] addresses
+}
+
+enum Level {
+    o GOLD
+    o SILVER
+}
+`;
+
+describe('Scanner', function() {
+
+    it('should tokenize regular expressions, strings and uris', function() {
+        const tokens = tokenize('o String s regex=/a\\/b/i default="x" from https://a.b/c.cto');
+        expect(tokens.map(t => t.type)).to.include.members(['regex', 'string', 'uri']);
+        expect(tokens.find(t => t.type === 'regex')!.text).to.equal('/a\\/b/i');
+    });
+
+    it('should scan the namespace and imports', function() {
+        const model = scan(MODEL);
+        expect(model.namespace!.name).to.equal('org.example@1.0.0');
+        expect(model.imports).to.have.length(2);
+        expect(model.imports[0].namespace).to.equal('org.acme.hr@1.0.0');
+        expect(model.imports[0].types.map(t => t.name)).to.deep.equal(['Address', 'State']);
+        expect(model.imports[0].aliases.State.name).to.equal('Region');
+        expect(model.imports[0].uri!.name).to.equal('https://models.example.com/hr.cto');
+        expect(model.imports[1].namespace).to.equal('org.acme.base@1.0.0');
+        expect(model.imports[1].types.map(t => t.name)).to.deep.equal(['Thing']);
+    });
+
+    it('should scan declarations and their properties', function() {
+        const model = scan(MODEL);
+        const [customer, level] = model.declarations;
+        expect(customer.kind).to.equal('participant');
+        expect(customer.isAbstract).to.be.true;
+        expect(customer.identifiedBy!.name).to.equal('email');
+        expect(customer.superType!.name).to.equal('Thing');
+        expect(customer.decorators.map(d => d.name)).to.deep.equal(['Term']);
+        expect(customer.docComment!.text).to.contain('A customer');
+        expect(customer.properties.map(p => `${p.kind}:${p.type!.name}:${p.name!.name}`)).to.deep.equal([
+            'field:String:email', 'field:Region:region', 'relationship:Address:addresses'
+        ]);
+        expect(customer.properties[1].isOptional).to.be.true;
+        expect(customer.properties[1].defaultValue!.name).to.equal('MA');
+        expect(customer.properties[2].isArray).to.be.true;
+        expect(level.properties.map(p => p.name!.name)).to.deep.equal(['GOLD', 'SILVER']);
+    });
+
+    it('should record the position of type references', function() {
+        const model = scan(MODEL);
+        const address = model.typeReferences.filter(r => r.name === 'Address');
+        expect(address.map(r => r.role)).to.deep.equal(['import', 'relationship']);
+        address.forEach(r => expect(MODEL.substring(r.span.start, r.span.end)).to.equal('Address'));
+    });
+
+    it('should recover from an unterminated declaration', function() {
+        const model = scan('namespace a@1.0.0\nconcept A {\n  o String\nconcept B {\n}\n');
+        expect(model.declarations.map(d => d.name.name)).to.deep.equal(['A', 'B']);
+    });
+});
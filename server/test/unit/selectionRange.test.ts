@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getSelectionRanges } from '../../src/providers/selectionRangeProvider';
+
+const MODEL = `// The model of
+// the vehicles
+namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing}
+import org.acme.party@1.0.0.{Person, Company}
+
+/**
+ * A car
+ */
+@Term("Car")
+@Resource
+asset Car extends Thing {
+    @Display(
+        "Model"
+    )
+    o String model optional
+    --> Person owner
+}
+
+enum Color {
+    o RED
+    o BLUE
+}
+`;
+
+describe('Selection ranges', function() {
+    it('should expand the selection from a word to the whole model', function() {
+        const document = TextDocument.create('file:///selection/vehicle.cto', 'concerto', 1, MODEL);
+        const [selection] = getSelectionRanges(document, [MODEL.indexOf('Person owner') + 2]);
+        const texts: string[] = [];
+        for (let range: any = selection; range; range = range.parent) {
+            texts.push(document.getText(range.range));
+        }
+        expect(texts).to.deep.equal([
+            'Person',
+            '--> Person owner',
+            document.getText().substring(MODEL.indexOf('@Term'), MODEL.indexOf('\n\nenum')),
+            MODEL
+        ]);
+    });
+
+    it('should select qualified names and decorators', function() {
+        const document = TextDocument.create('file:///selection/vehicle.cto', 'concerto', 1, MODEL);
+        const [inImport, inDecorator] = getSelectionRanges(document, [MODEL.indexOf('acme.party') + 1, MODEL.indexOf('"Model"') + 2]);
+        expect(document.getText(inImport.range)).to.equal('acme');
+        expect(document.getText(inImport.parent!.range)).to.equal('org.acme.party@1.0.0');
+        expect(document.getText(inImport.parent!.parent!.range)).to.equal('import org.acme.party@1.0.0.{Person, Company}');
+        expect(document.getText(inDecorator.range)).to.equal('"Model"');
+        expect(document.getText(inDecorator.parent!.range)).to.equal('@Display(\n        "Model"\n    )');
+        expect(document.getText(inDecorator.parent!.parent!.range)).to.match(/^@Display[\s\S]*optional$/);
+    });
+});
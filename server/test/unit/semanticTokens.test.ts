@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getSemanticTokens } from '../../src/providers/semanticTokensProvider';
+import { LanguageServerState } from '../../src/types';
+import { createState } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+@deprecated
+abstract asset Thing identified by id {
+    o String id
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing}
+
+enum Color {
+    o RED
+}
+
+asset Car extends Thing {
+    o Color color
+    o Missing missing
+}
+`;
+
+describe('Semantic tokens', function() {
+    let state: LanguageServerState;
+    let vehicle: TextDocument;
+
+    /**
+     * Returns the tokens as text, type and modifiers
+     */
+    function tokens(document: TextDocument) {
+        return getSemanticTokens(state, document).map(t => `${document.getText().substring(t.span.start, t.span.end)}:${[t.type, ...t.modifiers].join('.')}`);
+    }
+
+    beforeEach(() => {
+        const base = TextDocument.create('file:///tokens/base.cto', 'concerto', 1, BASE_MODEL);
+        vehicle = TextDocument.create('file:///tokens/vehicle.cto', 'concerto', 1, MODEL);
+        state = createState([base, vehicle], { models: { [base.uri]: BASE_MODEL } });
+    });
+
+    it('should classify declarations, references and properties', function() {
+        expect(tokens(vehicle)).to.deep.equal([
+            'org.acme.vehicle@1.0.0:namespace.declaration',
+            'org.acme.base@1.0.0:namespace.imported',
+            'Thing:class.abstract.deprecated.imported',
+            'Color:enum.declaration',
+            'RED:enumMember.declaration',
+            'Car:class.declaration',
+            'Thing:class.abstract.deprecated.imported',
+            'Color:enum',
+            'color:property.declaration',
+            'Missing:type.unresolved',
+            'missing:property.declaration',
+        ]);
+    });
+
+    it('should classify the tokens of a document that does not parse', function() {
+        const edited = TextDocument.create(vehicle.uri, 'concerto', 2, vehicle.getText().replace('asset Car', 'asset Car Car'));
+        expect(tokens(edited)).to.include.members(['Color:enum.declaration', 'color:property.declaration']);
+    });
+
+    it('should classify primitive types and decorators', function() {
+        const base = state.documents.get('file:///tokens/base.cto')!;
+        expect(tokens(base)).to.include.members(['@deprecated:decorator', 'String:type.defaultLibrary', 'id:property']);
+    });
+});
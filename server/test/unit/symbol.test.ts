@@ -0,0 +1,57 @@
+import { expect } from 'chai';
+import { ModelManager } from '@accordproject/concerto-core';
+import { SymbolKind } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getDocumentSymbols, getWorkspaceSymbols } from '../../src/providers/symbolProvider';
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+enum Color {
+    o RED
+}
+
+asset Car identified by vin {
+    o String vin
+    o Color color optional
+    --> Car[] related
+}
+
+map Registry {
+    o String
+    o Car
+}
+`;
+
+describe('Symbols', function() {
+    let state: any;
+    let document: TextDocument;
+
+    beforeEach(() => {
+        document = TextDocument.create('file:///symbols/vehicle.cto', 'concerto', 1, MODEL);
+        // maps are not enabled in the model manager, so the document is only scanned
+        const modelManager = new ModelManager({ strict: true });
+        state = {
+            modelManager,
+            documents: { get: (uri: string) => uri === document.uri ? document : undefined, all: () => [document] }
+        };
+    });
+
+    it('should outline the namespace, declarations and properties', function() {
+        const [namespace] = getDocumentSymbols(document);
+        expect(namespace.name).to.equal('org.acme.vehicle@1.0.0');
+        expect(namespace.kind).to.equal(SymbolKind.Namespace);
+        expect(namespace.children!.map(s => s.name)).to.deep.equal(['Color', 'Car', 'Registry']);
+
+        const car = namespace.children![1];
+        expect(car.kind).to.equal(SymbolKind.Class);
+        expect(car.children!.map(s => `${s.name}: ${s.detail}`)).to.deep.equal(['vin: String', 'color: Color optional', 'related: --> Car[]']);
+        expect(namespace.children![2].children!.map(s => s.name)).to.deep.equal(['key', 'value']);
+    });
+
+    it('should search declarations fuzzily', function() {
+        expect(getWorkspaceSymbols(state, 'rgs').map(s => s.name)).to.deep.equal(['Registry']);
+        expect(getWorkspaceSymbols(state, 'vehicle.car').map(s => s.name)).to.deep.equal(['Car']);
+        expect(getWorkspaceSymbols(state, '')).to.have.length(3);
+        expect(getWorkspaceSymbols(state, 'Car')[0].containerName).to.equal('org.acme.vehicle@1.0.0');
+    });
+});
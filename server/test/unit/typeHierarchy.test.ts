@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getSubtypes, getSupertypes, prepareTypeHierarchy } from '../../src/providers/typeHierarchyProvider';
+import { LanguageServerState } from '../../src/types';
+import { createState, offsetOf } from './helpers';
+
+const EXTERNAL_MODEL = `namespace org.acme.base@1.0.0
+
+abstract participant Party identified by id {
+    o String id
+}
+`;
+
+const MODEL = `namespace org.acme.hr@1.0.0
+
+import org.acme.base@1.0.0.{Party} from https://models.acme.org/base.cto
+
+abstract participant Person extends Party {
+    o String name
+}
+
+participant Employee extends Person {
+    o Manager manager optional
+}
+
+participant Manager extends Employee {
+}
+
+participant Contractor extends Person {
+}
+
+enum Level {
+    o JUNIOR
+}
+`;
+
+describe('Type hierarchy', function() {
+    let state: LanguageServerState;
+    let hr: TextDocument;
+
+    beforeEach(() => {
+        hr = TextDocument.create('file:///hierarchy/hr.cto', 'concerto', 1, MODEL);
+        state = createState([hr], { models: { '@models.acme.org.base.cto': EXTERNAL_MODEL, [hr.uri]: MODEL } });
+    });
+
+    it('should prepare the declaration at a declaration or a type reference', function() {
+        const [employee] = prepareTypeHierarchy(state, hr, offsetOf(hr, 'Employee'))!;
+        expect(employee.name).to.equal('Employee');
+        expect(employee.detail).to.equal('org.acme.hr@1.0.0');
+        expect(employee.selectionRange.start).to.deep.equal({ line: 8, character: 12 });
+        expect(employee.data).to.deep.equal({ namespace: 'org.acme.hr@1.0.0', name: 'Employee' });
+
+        const [manager] = prepareTypeHierarchy(state, hr, offsetOf(hr, 'Manager', 0))!;
+        expect(manager.name).to.equal('Manager');
+        expect(prepareTypeHierarchy(state, hr, offsetOf(hr, 'Level'))).to.be.null;
+    });
+
+    it('should follow the supertypes into external models', function() {
+        let [item] = prepareTypeHierarchy(state, hr, offsetOf(hr, 'Manager', 1))!;
+        const chain: string[] = [];
+        for (let supertypes = getSupertypes(state, item); supertypes.length > 0; supertypes = getSupertypes(state, item)) {
+            item = supertypes[0];
+            chain.push(`${item.data.namespace}.${item.name}`);
+        }
+        expect(chain).to.deep.equal(['org.acme.hr@1.0.0.Employee', 'org.acme.hr@1.0.0.Person', 'org.acme.base@1.0.0.Party']);
+        expect(item.uri).to.equal('concerto-external:/org.acme.base%401.0.0.cto');
+        expect(item.detail).to.equal('org.acme.base@1.0.0 (external)');
+    });
+
+    it('should find the subtypes in all the namespaces', function() {
+        const [person] = prepareTypeHierarchy(state, hr, offsetOf(hr, 'Person'))!;
+        expect(getSubtypes(state, person).map(i => i.name)).to.deep.equal(['Employee', 'Contractor']);
+        const [party] = getSupertypes(state, person);
+        expect(getSubtypes(state, party).map(i => i.name)).to.deep.equal(['Person']);
+    });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import * as ts from 'typescript';
+import * as tsvfs from '@typescript/vfs';
+import { ModelManager } from '@accordproject/concerto-core';
+import { CodeGen } from '@accordproject/concerto-codegen';
+import { InMemoryWriter } from '@accordproject/concerto-util';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Diagnostics } from '../../src/diagnostics';
+import { TS_COMPILER_OPTIONS } from '../../src/compiler/tsCompiler';
+import { checkGeneratedTypeScript } from '../../src/commands/typeScriptCheck';
+
+const BASE_MODEL = `namespace org.acme.check@1.0.0
+
+concept Address {
+    o String city
+}
+
+enum State {
+    o ON
+    o OFF
+}
+`;
+
+describe('Generated TypeScript check', function() {
+    // loading the declaration files of the standard library takes a while
+    this.timeout(20000);
+
+    const uri = 'file:///check/base.cto';
+    const lib = tsvfs.createDefaultMapFromNodeModules(TS_COMPILER_OPTIONS, ts);
+    let state: any;
+    let files: Map<string, string>;
+    let sent: Record<string, any[]>;
+
+    beforeEach(() => {
+        sent = {};
+        const document = TextDocument.create(uri, 'concerto', 1, BASE_MODEL);
+        const modelManager = new ModelManager({ strict: true });
+        modelManager.addCTOModel(BASE_MODEL, uri, true);
+        state = {
+            modelManager,
+            diagnostics: new Diagnostics(),
+            documents: { get: (u: string) => u === uri ? document : undefined, all: () => [document] },
+            connection: {
+                sendDiagnostics: (params: any) => sent[params.uri] = params.diagnostics
+            }
+        };
+        const imw = new InMemoryWriter();
+        modelManager.accept(new CodeGen.formats.typescript(), { fileWriter: imw });
+        files = imw.getFilesInMemory();
+    });
+
+    it('should not report errors for valid generated code', async function() {
+        await checkGeneratedTypeScript(state, files, lib);
+        expect(sent).to.deep.equal({ [uri]: [] });
+    });
+
+    it('should map the errors of the generated code to the models', async function() {
+        const name = 'org.acme.check@1.0.0.ts';
+        files.set(name, files.get(name)!.replace('city: string;', 'city: Strin;'));
+        await checkGeneratedTypeScript(state, files, lib);
+        expect(sent[uri]).to.have.length(1);
+        const [diagnostic] = sent[uri];
+        expect(diagnostic.source).to.equal('typescript');
+        expect(diagnostic.code).to.equal('TS2552');
+        // the property of the declaration the code was generated from
+        expect(diagnostic.range).to.deep.equal({ start: { line: 3, character: 13 }, end: { line: 3, character: 17 } });
+
+        // the errors are cleared by the next check
+        files.set(name, files.get(name)!.replace('city: Strin;', 'city: string;'));
+        await checkGeneratedTypeScript(state, files, lib);
+        expect(sent[uri]).to.deep.equal([]);
+    });
+
+    it('should only replace the errors of the type-checked models', async function() {
+        const other = 'file:///check/other.cto';
+        const diagnostic = { range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } }, message: 'Other', source: 'typescript' };
+        state.diagnostics.addDiagnostic(other, diagnostic);
+        await checkGeneratedTypeScript(state, files, lib);
+        expect([...state.diagnostics.diagnosticMap[other]]).to.deep.equal([diagnostic]);
+        expect(sent[other]).to.be.undefined;
+    });
+});
@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { getDuplicateNamespaceDiagnostic, getModelDiagnostics, getSyntaxDiagnostics } from '../../src/documents/validation';
+import { getDependentNamespaces } from '../../src/documents/modelIndex';
+import { LanguageServerState } from '../../src/types';
+import { createState } from './helpers';
+
+const BASE_MODEL = `namespace org.acme.base@1.0.0
+
+abstract asset Thing identified by id {
+    o String id
+}
+`;
+
+const MODEL = `namespace org.acme.vehicle@1.0.0
+
+import org.acme.base@1.0.0.{Thing, Missing}
+import org.acme.nope@1.0.0.Other
+
+asset Car identified by vin extends Thing {
+    o String vin
+}
+
+concept Engine extends Nope {
+    o String model
+}
+
+concept Wheel {
+    o Foo size
+    o String name
+    o String name
+}
+
+concept Wheel {
+}
+`;
+
+const BROKEN_MODEL = `namespace org.acme.broken@1.0.0
+
+concept A {
+    o String a =
+}
+
+concept B {
+    o String b
+}
+
+concept C {
+    o Strin g c
+}
+`;
+
+/**
+ * Returns the text of a document at a range
+ */
+function textAt(document: TextDocument, range: any) {
+    return document.getText(range);
+}
+
+describe('Validation', function() {
+    let state: LanguageServerState;
+    let base: TextDocument;
+    let vehicle: TextDocument;
+
+    before(() => {
+        base = TextDocument.create('file:///validation/base.cto', 'concerto', 1, BASE_MODEL);
+        vehicle = TextDocument.create('file:///validation/vehicle.cto', 'concerto', 1, MODEL);
+        state = createState([base, vehicle]);
+    });
+
+    it('should report every syntax error', function() {
+        const document = TextDocument.create('file:///validation/broken.cto', 'concerto', 1, BROKEN_MODEL);
+        const diagnostics = getSyntaxDiagnostics(document);
+        expect(diagnostics.map(d => textAt(document, d.range))).to.deep.equal(['=', 'c']);
+        expect(diagnostics.every(d => d.code === 'syntax-error' && d.source === 'syntax')).to.be.true;
+        expect(getSyntaxDiagnostics(base)).to.be.empty;
+    });
+
+    it('should report every model error, with its range and code', function() {
+        const diagnostics = getModelDiagnostics(state, state.modelManager.getModelFile('org.acme.vehicle@1.0.0'));
+        const found = diagnostics.map(d => [d.code, textAt(vehicle, d.range)]);
+        expect(found).to.deep.include.members([
+            ['unknown-import', 'Missing'],
+            ['unknown-namespace', 'org.acme.nope@1.0.0'],
+            ['duplicate-name', 'Wheel'],
+            ['invalid-identifier', 'vin'],
+            ['invalid-super-type', 'Nope'],
+            ['undeclared-type', 'Foo'],
+            ['duplicate-name', 'name'],
+        ]);
+    });
+
+    it('should point at related declarations', function() {
+        const diagnostics = getModelDiagnostics(state, state.modelManager.getModelFile('org.acme.vehicle@1.0.0'));
+        const identifier = diagnostics.find(d => d.code === 'invalid-identifier')!;
+        expect(identifier.relatedInformation![0].location.uri).to.equal(base.uri);
+        expect(textAt(base, identifier.relatedInformation![0].location.range)).to.equal('Thing');
+
+        const duplicate = diagnostics.find(d => d.code === 'duplicate-name' && textAt(vehicle, d.range) === 'name')!;
+        expect(duplicate.range.start.line).to.equal(16);
+        expect(duplicate.relatedInformation![0].location.range.start.line).to.equal(15);
+    });
+
+    it('should find the namespaces to revalidate', function() {
+        expect([...getDependentNamespaces(state, ['org.acme.base@1.0.0'])]).to.have.members(['org.acme.base@1.0.0', 'org.acme.vehicle@1.0.0']);
+        expect([...getDependentNamespaces(state, ['org.acme.vehicle@1.0.0'])]).to.deep.equal(['org.acme.vehicle@1.0.0']);
+    });
+
+    it('should report namespaces declared by two documents', function() {
+        const copy = TextDocument.create('file:///validation/copy.cto', 'concerto', 1, BASE_MODEL);
+        const diagnostic = getDuplicateNamespaceDiagnostic(state, copy, 'org.acme.base@1.0.0')!;
+        expect(diagnostic.code).to.equal('duplicate-namespace');
+        expect(diagnostic.relatedInformation![0].location.uri).to.equal(base.uri);
+        expect(getDuplicateNamespaceDiagnostic(state, base, 'org.acme.base@1.0.0')).to.be.undefined;
+    });
+});
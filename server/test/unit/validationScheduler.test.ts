@@ -0,0 +1,37 @@
+import { expect } from 'chai';
+import { CancellationToken } from 'vscode-languageserver';
+import { ValidationScheduler } from '../../src/documents/validationScheduler';
+
+/**
+ * Waits for a number of milliseconds
+ */
+function wait(ms: number) {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('Validation scheduler', function() {
+    it('should only validate the last change', async function() {
+        const scheduler = new ValidationScheduler(10);
+        const runs: number[] = [];
+        [1, 2, 3].forEach(n => scheduler.schedule('file:///a.cto', async () => {
+            runs.push(n);
+        }));
+        expect(scheduler.isPending('file:///a.cto')).to.be.true;
+        await wait(50);
+        expect(runs).to.deep.equal([3]);
+        expect(scheduler.isPending('file:///a.cto')).to.be.false;
+    });
+
+    it('should cancel a running validation when the document changes', async function() {
+        const scheduler = new ValidationScheduler(0);
+        let first: CancellationToken | undefined;
+        scheduler.schedule('file:///b.cto', async (token) => {
+            first = token;
+            await wait(50);
+        });
+        await wait(10);
+        scheduler.schedule('file:///b.cto', async () => undefined);
+        expect(first!.isCancellationRequested).to.be.true;
+        await wait(60);
+    });
+});